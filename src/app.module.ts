@@ -1,9 +1,15 @@
 import { Module } from '@nestjs/common';
+import { APP_FILTER, APP_GUARD, APP_PIPE } from '@nestjs/core';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { KnowledgeModule } from './knowledge/knowledge.module';
 import { ConfigModule } from '@nestjs/config';
 import { StateGraphModule } from './state-graph/state-graph.module';
+import { AuthModule } from './auth/auth.module';
+import { EvaluationModule } from './evaluation/evaluation.module';
+import { ApiKeyGuard } from './auth/api-key.guard';
+import { ApiExceptionFilter } from './common/api-error';
+import { createValidationPipe } from './common/validation';
 
 @Module({
   imports: [
@@ -12,8 +18,17 @@ import { StateGraphModule } from './state-graph/state-graph.module';
       isGlobal: true,
     }),
     StateGraphModule,
+    AuthModule,
+    EvaluationModule,
   ],
   controllers: [AppController],
-  providers: [AppService],
+  providers: [
+    AppService,
+    // Clé d'API exigée sur toutes les routes, sauf celles marquées @Public()
+    { provide: APP_GUARD, useClass: ApiKeyGuard },
+    // Corps et query validés par leurs DTO, erreurs au format { code, message, details }
+    { provide: APP_PIPE, useFactory: createValidationPipe },
+    { provide: APP_FILTER, useClass: ApiExceptionFilter },
+  ],
 })
 export class AppModule {}
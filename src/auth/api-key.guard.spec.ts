@@ -0,0 +1,131 @@
+import { Controller, Get, INestApplication, Post } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { APP_GUARD } from '@nestjs/core';
+import { Test } from '@nestjs/testing';
+import { mkdtemp, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import * as request from 'supertest';
+import { generateApiKey } from './api-key';
+import { ApiKeyGuard } from './api-key.guard';
+import { ApiKeysService } from './api-keys.service';
+import { AuthModule } from './auth.module';
+import { CurrentApiKey, Public, RequireScopes } from './auth.decorators';
+import { ApiKeyRecord } from './interfaces/api-key.interface';
+
+@Controller()
+class TestController {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  @Public()
+  @Get('health')
+  health() {
+    return 'ok';
+  }
+
+  @RequireScopes('search')
+  @Get('search')
+  search() {
+    return 'results';
+  }
+
+  @RequireScopes('run')
+  @Post('run')
+  run(@CurrentApiKey() apiKey: ApiKeyRecord) {
+    this.apiKeysService.recordTokenUsage(apiKey.id, 600);
+    return 'answer';
+  }
+}
+
+describe('ApiKeyGuard', () => {
+  let app: INestApplication;
+  const searchKey = generateApiKey('search', ['search'], {
+    requestsPerMinute: 2,
+  });
+  const runKey = generateApiKey('run', ['run'], { tokensPerDay: 1000 });
+
+  beforeEach(async () => {
+    const filePath = join(
+      await mkdtemp(join(tmpdir(), 'api-keys-')),
+      'keys.json',
+    );
+    await writeFile(
+      filePath,
+      JSON.stringify({ keys: [searchKey.record, runKey.record] }),
+    );
+    const module = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({
+          isGlobal: true,
+          ignoreEnvFile: true,
+          load: [() => ({ API_KEYS_PATH: filePath })],
+        }),
+        AuthModule,
+      ],
+      controllers: [TestController],
+      providers: [{ provide: APP_GUARD, useClass: ApiKeyGuard }],
+    }).compile();
+    app = module.createNestApplication();
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should let public routes through without a key', () => {
+    return request(app.getHttpServer()).get('/health').expect(200);
+  });
+
+  it('should reject missing and unknown keys with 401', async () => {
+    const missing = await request(app.getHttpServer()).get('/search');
+    const unknown = await request(app.getHttpServer())
+      .get('/search')
+      .set('X-API-Key', 'rwsa_unknown');
+
+    expect(missing.status).toBe(401);
+    expect(missing.body).toMatchObject({
+      code: 'API_KEY_MISSING',
+      details: null,
+    });
+    expect(unknown.body.code).toBe('API_KEY_INVALID');
+  });
+
+  it('should reject a key without the route scope with 403', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/search')
+      .set('Authorization', `Bearer ${runKey.key}`);
+
+    expect(response.status).toBe(403);
+    expect(response.body.code).toBe('SCOPE_FORBIDDEN');
+  });
+
+  it('should rate limit requests per key with 429', async () => {
+    const search = () =>
+      request(app.getHttpServer())
+        .get('/search')
+        .set('Authorization', `Bearer ${searchKey.key}`);
+
+    await search().expect(200);
+    await search().expect(200);
+    const limited = await search();
+
+    expect(limited.status).toBe(429);
+    expect(limited.body.code).toBe('RATE_LIMITED');
+    expect(Number(limited.headers['retry-after'])).toBeGreaterThan(0);
+  });
+
+  it('should refuse runs once the daily token quota is spent', async () => {
+    const run = () =>
+      request(app.getHttpServer())
+        .post('/run')
+        .set('Authorization', `Bearer ${runKey.key}`);
+
+    await run().expect(201);
+    await run().expect(201);
+    const limited = await run();
+
+    expect(limited.status).toBe(429);
+    expect(limited.body.code).toBe('TOKEN_QUOTA_EXCEEDED');
+  });
+});
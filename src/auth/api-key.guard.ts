@@ -0,0 +1,115 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request, Response } from 'express';
+import { PUBLIC_KEY, SCOPES_KEY } from './auth.decorators';
+import { ApiKeysService } from './api-keys.service';
+import { errorBody } from '../common/api-error';
+import {
+  ApiKeyRecord,
+  ApiKeyScope,
+  AuthErrorCode,
+} from './interfaces/api-key.interface';
+
+/**
+ * Erreur d'un appel refusé, même format pour 401, 403 et 429
+ */
+function authError(status: HttpStatus, code: AuthErrorCode, message: string) {
+  return new HttpException(errorBody(code, message), status);
+}
+
+/**
+ * Lit la clé d'API : en-tête "Authorization: Bearer <clé>" ou "X-API-Key: <clé>"
+ */
+function readApiKey(request: Request): string | undefined {
+  const [scheme, token] = (request.headers.authorization ?? '').split(' ');
+  if (scheme?.toLowerCase() === 'bearer' && token) return token;
+  const header = request.headers['x-api-key'];
+  return Array.isArray(header) ? header[0] : header;
+}
+
+/**
+ * Guard global : clé d'API valide, droits de la route, puis quotas de la clé
+ * - 401 : clé absente ou inconnue
+ * - 403 : la clé n'a pas les droits de la route (RequireScopes)
+ * - 429 : quota de requêtes ou de tokens dépassé, avec l'en-tête Retry-After
+ */
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly apiKeysService: ApiKeysService,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const targets = [context.getHandler(), context.getClass()];
+    if (
+      !this.apiKeysService.enabled ||
+      this.reflector.getAllAndOverride<boolean>(PUBLIC_KEY, targets)
+    ) {
+      return true;
+    }
+
+    const http = context.switchToHttp();
+    const request = http.getRequest<Request & { apiKey?: ApiKeyRecord }>();
+    const key = readApiKey(request);
+    if (!key) {
+      throw authError(
+        HttpStatus.UNAUTHORIZED,
+        'API_KEY_MISSING',
+        'Clé d\'API manquante : en-tête "Authorization: Bearer <clé>" ou "X-API-Key"',
+      );
+    }
+    const apiKey = this.apiKeysService.authenticate(key);
+    if (!apiKey) {
+      throw authError(
+        HttpStatus.UNAUTHORIZED,
+        'API_KEY_INVALID',
+        "Clé d'API inconnue",
+      );
+    }
+
+    const scopes =
+      this.reflector.getAllAndOverride<ApiKeyScope[]>(SCOPES_KEY, targets) ??
+      [];
+    const missing = scopes.filter((scope) => !apiKey.scopes.includes(scope));
+    if (missing.length > 0) {
+      throw authError(
+        HttpStatus.FORBIDDEN,
+        'SCOPE_FORBIDDEN',
+        `Droits insuffisants pour cette route : ${missing.join(', ')}`,
+      );
+    }
+
+    const response = http.getResponse<Response>();
+    const retryAfter = this.apiKeysService.consumeRequest(apiKey);
+    if (retryAfter !== undefined) {
+      response.setHeader('Retry-After', String(retryAfter));
+      throw authError(
+        HttpStatus.TOO_MANY_REQUESTS,
+        'RATE_LIMITED',
+        `Quota de requêtes dépassé (${apiKey.quotas.requestsPerMinute} par minute)`,
+      );
+    }
+    // Le quota de tokens ne concerne que les routes qui lancent des runs
+    const tokensRetryAfter = scopes.includes('run')
+      ? this.apiKeysService.checkTokenQuota(apiKey)
+      : undefined;
+    if (tokensRetryAfter !== undefined) {
+      response.setHeader('Retry-After', String(tokensRetryAfter));
+      throw authError(
+        HttpStatus.TOO_MANY_REQUESTS,
+        'TOKEN_QUOTA_EXCEEDED',
+        `Quota de tokens du jour dépassé (${apiKey.quotas.tokensPerDay} par jour)`,
+      );
+    }
+
+    request.apiKey = apiKey;
+    return true;
+  }
+}
@@ -0,0 +1,48 @@
+import { createHash, randomBytes, randomUUID } from 'node:crypto';
+import {
+  API_KEY_SCOPES,
+  ApiKeyQuotas,
+  ApiKeyRecord,
+  ApiKeyScope,
+} from './interfaces/api-key.interface';
+
+// Préfixe des clés générées, pour les reconnaître dans un fichier ou un log
+const KEY_PREFIX = 'rwsa_';
+
+/**
+ * Empreinte d'une clé d'API, seule forme sous laquelle la clé est conservée
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Génère une nouvelle clé d'API
+ * @returns la clé, à transmettre au client (elle n'est plus récupérable ensuite),
+ * et la fiche à enregistrer
+ * @throws Error si un droit est inconnu
+ */
+export function generateApiKey(
+  name: string,
+  scopes: ApiKeyScope[],
+  quotas?: ApiKeyQuotas,
+): { key: string; record: ApiKeyRecord } {
+  const unknown = scopes.filter((scope) => !API_KEY_SCOPES.includes(scope));
+  if (unknown.length > 0 || scopes.length === 0) {
+    throw new Error(
+      `Droits invalides : ${unknown.join(', ') || 'aucun'} (attendu : ${API_KEY_SCOPES.join(', ')})`,
+    );
+  }
+  const key = `${KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+  return {
+    key,
+    record: {
+      id: randomUUID(),
+      name,
+      hash: hashApiKey(key),
+      scopes,
+      ...(quotas && { quotas }),
+      createdAt: new Date().toISOString(),
+    },
+  };
+}
@@ -0,0 +1,125 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readJsonFile } from '../common/json-file';
+import { hashApiKey } from './api-key';
+import { ApiKeyRecord } from './interfaces/api-key.interface';
+
+// Fenêtre du quota de requêtes
+const MINUTE_MS = 60_000;
+
+/**
+ * Clés d'API enregistrées (API_KEYS_PATH) et suivi de leurs quotas
+ * Les compteurs de requêtes et de tokens sont tenus en mémoire vive
+ */
+@Injectable()
+export class ApiKeysService implements OnModuleInit {
+  private readonly logger = new Logger(ApiKeysService.name);
+  // Clés par empreinte
+  private keys = new Map<string, ApiKeyRecord>();
+  // Dates des requêtes de la dernière minute, par clé
+  private readonly requests = new Map<string, number[]>();
+  // Tokens consommés dans la journée (UTC), par clé
+  private readonly tokens = new Map<string, { day: string; used: number }>();
+  // Authentification désactivable pour le développement local (AUTH_ENABLED=false)
+  readonly enabled: boolean;
+
+  constructor(private readonly configService: ConfigService) {
+    this.enabled =
+      this.configService.get<string>('AUTH_ENABLED', 'true') !== 'false';
+  }
+
+  async onModuleInit() {
+    if (!this.enabled) {
+      this.logger.warn('Authentification désactivée (AUTH_ENABLED=false)');
+      return;
+    }
+    await this.load();
+    if (this.keys.size === 0) {
+      this.logger.warn(
+        'Aucune clé d\'API enregistrée : toutes les requêtes seront refusées (voir "npm run api-key:create")',
+      );
+    }
+  }
+
+  /**
+   * Recharge les clés du fichier API_KEYS_PATH
+   */
+  async load(): Promise<void> {
+    const data = await readJsonFile<{ keys?: ApiKeyRecord[] }>(
+      this.configService.get<string>('API_KEYS_PATH', './data/api-keys.json'),
+    );
+    this.keys = new Map((data?.keys ?? []).map((key) => [key.hash, key]));
+  }
+
+  /**
+   * Retourne la fiche d'une clé d'API, ou undefined si la clé est inconnue
+   */
+  authenticate(key: string): ApiKeyRecord | undefined {
+    return this.keys.get(hashApiKey(key));
+  }
+
+  /**
+   * Compte une requête dans le quota par minute de la clé
+   * @returns undefined si la requête est acceptée, sinon le délai en secondes avant de réessayer
+   */
+  consumeRequest(apiKey: ApiKeyRecord): number | undefined {
+    const limit = apiKey.quotas?.requestsPerMinute;
+    if (limit === undefined) return undefined;
+
+    const now = Date.now();
+    const recent = (this.requests.get(apiKey.id) ?? []).filter(
+      (time) => time > now - MINUTE_MS,
+    );
+    this.requests.set(apiKey.id, recent);
+    if (recent.length >= limit) {
+      return Math.ceil((recent[0] + MINUTE_MS - now) / 1000);
+    }
+    recent.push(now);
+    return undefined;
+  }
+
+  /**
+   * Vérifie le quota de tokens du jour de la clé
+   * @returns undefined s'il reste des tokens, sinon le délai en secondes jusqu'au lendemain (UTC)
+   */
+  checkTokenQuota(apiKey: ApiKeyRecord): number | undefined {
+    const limit = apiKey.quotas?.tokensPerDay;
+    if (limit === undefined || this.tokensUsedToday(apiKey.id) < limit) {
+      return undefined;
+    }
+    const tomorrow = new Date();
+    tomorrow.setUTCHours(24, 0, 0, 0);
+    return Math.ceil((tomorrow.getTime() - Date.now()) / 1000);
+  }
+
+  /**
+   * Tokens restant dans le quota du jour d'une clé, pour plafonner un run
+   * @param apiKeyId identifiant de la clé, undefined si l'authentification est désactivée
+   * @returns undefined si la clé n'a pas de quota de tokens
+   */
+  remainingTokens(apiKeyId: string | undefined): number | undefined {
+    const limit = [...this.keys.values()].find((key) => key.id === apiKeyId)
+      ?.quotas?.tokensPerDay;
+    if (limit === undefined) return undefined;
+    return Math.max(0, limit - this.tokensUsedToday(apiKeyId));
+  }
+
+  /**
+   * Ajoute les tokens consommés par un run au compteur du jour de la clé
+   * @param apiKeyId identifiant de la clé, undefined si l'authentification est désactivée
+   */
+  recordTokenUsage(apiKeyId: string | undefined, tokens: number) {
+    if (!apiKeyId || !tokens) return;
+    this.tokens.set(apiKeyId, {
+      day: today(),
+      used: this.tokensUsedToday(apiKeyId) + tokens,
+    });
+  }
+
+  private tokensUsedToday(apiKeyId: string): number {
+    const usage = this.tokens.get(apiKeyId);
+    return usage?.day === today() ? usage.used : 0;
+  }
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
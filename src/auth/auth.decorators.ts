@@ -0,0 +1,28 @@
+import {
+  ExecutionContext,
+  SetMetadata,
+  createParamDecorator,
+} from '@nestjs/common';
+import { ApiKeyRecord, ApiKeyScope } from './interfaces/api-key.interface';
+
+export const SCOPES_KEY = 'apiKeyScopes';
+export const PUBLIC_KEY = 'publicRoute';
+
+/**
+ * Droits requis pour appeler une route (ou toutes les routes d'un controller)
+ */
+export const RequireScopes = (...scopes: ApiKeyScope[]) =>
+  SetMetadata(SCOPES_KEY, scopes);
+
+/**
+ * Route accessible sans clé d'API
+ */
+export const Public = () => SetMetadata(PUBLIC_KEY, true);
+
+/**
+ * Clé d'API de la requête, undefined si l'authentification est désactivée
+ */
+export const CurrentApiKey = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): ApiKeyRecord | undefined =>
+    context.switchToHttp().getRequest().apiKey,
+);
@@ -0,0 +1,53 @@
+import { parseArgs } from 'node:util';
+import { config } from 'dotenv';
+import { readJsonFile, writeJsonFile } from '../common/json-file';
+import { generateApiKey } from './api-key';
+import { ApiKeyRecord, ApiKeyScope } from './interfaces/api-key.interface';
+
+/**
+ * Crée une clé d'API et enregistre son empreinte dans API_KEYS_PATH
+ * npm run api-key:create -- --name billing --scopes search,run [--requests-per-minute 60] [--tokens-per-day 200000]
+ * La clé n'est affichée qu'une fois : elle n'est pas conservée en clair
+ */
+async function main() {
+  // Même fichier .env que l'application (ConfigModule), pour le même API_KEYS_PATH
+  config();
+  const { values } = parseArgs({
+    options: {
+      name: { type: 'string' },
+      scopes: { type: 'string' },
+      'requests-per-minute': { type: 'string' },
+      'tokens-per-day': { type: 'string' },
+    },
+  });
+  if (!values.name || !values.scopes) {
+    throw new Error('Options obligatoires : --name et --scopes');
+  }
+  const quota = (value?: string) => {
+    if (value === undefined) return undefined;
+    if (!/^[1-9]\d*$/.test(value)) {
+      throw new Error(`Quota invalide : ${value} (entier positif attendu)`);
+    }
+    return Number(value);
+  };
+
+  const { key, record } = generateApiKey(
+    values.name,
+    values.scopes.split(',') as ApiKeyScope[],
+    {
+      requestsPerMinute: quota(values['requests-per-minute']),
+      tokensPerDay: quota(values['tokens-per-day']),
+    },
+  );
+  const filePath = process.env.API_KEYS_PATH ?? './data/api-keys.json';
+  const data = await readJsonFile<{ keys?: ApiKeyRecord[] }>(filePath);
+  await writeJsonFile(filePath, { keys: [...(data?.keys ?? []), record] });
+
+  console.log(`Clé "${record.name}" (${record.scopes.join(', ')}) : ${key}`);
+  console.log("Redémarrer l'application : les clés sont chargées au démarrage");
+}
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
@@ -0,0 +1,31 @@
+// Droits d'une clé d'API : ingestion de documents, recherche, runs du graphe d'agents
+export const API_KEY_SCOPES = ['ingest', 'search', 'run'] as const;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export interface ApiKeyQuotas {
+  // Requêtes par minute, toutes routes confondues
+  requestsPerMinute?: number;
+  // Tokens de modèles consommés par jour (UTC) par les runs du graphe
+  tokensPerDay?: number;
+}
+
+/**
+ * Clé d'API enregistrée : seule l'empreinte SHA-256 de la clé est conservée
+ */
+export interface ApiKeyRecord {
+  id: string;
+  // Nom lisible du client ou de l'équipe
+  name: string;
+  hash: string;
+  scopes: ApiKeyScope[];
+  quotas?: ApiKeyQuotas;
+  createdAt: string;
+}
+
+// Codes d'erreur des appels refusés (401, 403, 429)
+export type AuthErrorCode =
+  | 'API_KEY_MISSING'
+  | 'API_KEY_INVALID'
+  | 'SCOPE_FORBIDDEN'
+  | 'RATE_LIMITED'
+  | 'TOKEN_QUOTA_EXCEEDED';
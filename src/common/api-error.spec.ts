@@ -0,0 +1,121 @@
+import {
+  Body,
+  Controller,
+  Get,
+  INestApplication,
+  NotFoundException,
+  Post,
+  UseInterceptors,
+} from '@nestjs/common';
+import { APP_FILTER, APP_PIPE } from '@nestjs/core';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Test } from '@nestjs/testing';
+import * as request from 'supertest';
+import { ApiExceptionFilter, errorBody } from './api-error';
+import { createValidationPipe } from './validation';
+import { RunDto } from '../state-graph/dto/run.dto';
+import { UploadDto } from '../knowledge/dto/upload.dto';
+
+@Controller()
+class TestController {
+  @Post('run')
+  run(@Body() body: RunDto) {
+    return body;
+  }
+
+  @Post('upload')
+  @UseInterceptors(FileInterceptor('file'))
+  upload(@Body() body: UploadDto) {
+    return body;
+  }
+
+  @Get('missing')
+  missing() {
+    throw new NotFoundException(errorBody('RUN_NOT_FOUND', 'Run introuvable'));
+  }
+
+  @Get('crash')
+  crash() {
+    throw new Error('secret interne');
+  }
+}
+
+describe('ApiExceptionFilter', () => {
+  let app: INestApplication;
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      controllers: [TestController],
+      providers: [
+        { provide: APP_PIPE, useFactory: createValidationPipe },
+        { provide: APP_FILTER, useClass: ApiExceptionFilter },
+      ],
+    }).compile();
+    // Sans logs : l'erreur 500 attendue serait affichée avec sa pile
+    app = module.createNestApplication({ logger: false });
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should list invalid fields under VALIDATION_FAILED', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/run')
+      .send({ maxSteps: 0, unknown: true });
+
+    expect(response.status).toBe(400);
+    expect(response.body.code).toBe('VALIDATION_FAILED');
+    expect(response.body.details.map((detail) => detail.field).sort()).toEqual([
+      'maxSteps',
+      'question',
+      'unknown',
+    ]);
+  });
+
+  it('should keep the code of coded exceptions and name the others by status', async () => {
+    const missing = await request(app.getHttpServer()).get('/missing');
+    const unknownRoute = await request(app.getHttpServer()).get('/nowhere');
+
+    expect(missing.status).toBe(404);
+    expect(missing.body).toEqual({
+      code: 'RUN_NOT_FOUND',
+      message: 'Run introuvable',
+      details: null,
+    });
+    expect(unknownRoute.body.code).toBe('NOT_FOUND');
+  });
+
+  it('should hide the message of unexpected errors', async () => {
+    const response = await request(app.getHttpServer()).get('/crash');
+
+    expect(response.status).toBe(500);
+    expect(response.body.code).toBe('INTERNAL_ERROR');
+    expect(response.body.message).not.toContain('secret');
+  });
+
+  it('should parse and validate JSON fields sent as multipart', async () => {
+    const valid = await request(app.getHttpServer())
+      .post('/upload')
+      .field('urls', 'https://example.com/page')
+      .field('tags', '{"team": "billing"}')
+      .field('chunking', '{"strategy": "sentence", "chunkSize": 500}');
+    const invalid = await request(app.getHttpServer())
+      .post('/upload')
+      .field('tags', '{"team": {"nested": true}}')
+      .field('chunking', '{"strategy": "unknown"}');
+
+    expect(valid.status).toBe(201);
+    expect(valid.body).toEqual({
+      urls: ['https://example.com/page'],
+      tags: { team: 'billing' },
+      chunking: { strategy: 'sentence', chunkSize: 500 },
+    });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.details.map((detail) => detail.field).sort()).toEqual([
+      'chunking.strategy',
+      'tags',
+    ]);
+  });
+});
@@ -0,0 +1,92 @@
+import {
+  ArgumentsHost,
+  BadRequestException,
+  Catch,
+  ExceptionFilter,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { Response } from 'express';
+import { ApiErrorBody, ApiErrorCode } from './interfaces/api-error.interface';
+
+/**
+ * Corps d'une exception HTTP avec son code d'erreur, ex :
+ * new NotFoundException(errorBody('RUN_NOT_FOUND', `Run introuvable : ${runId}`))
+ */
+export function errorBody(
+  code: ApiErrorCode,
+  message: string,
+  details: unknown = null,
+): ApiErrorBody {
+  return { code, message, details };
+}
+
+/**
+ * Erreur de validation d'un seul champ, même format que celles du pipe de validation
+ */
+export function invalidField(field: string, message: string) {
+  return new BadRequestException(
+    errorBody('VALIDATION_FAILED', message, [{ field, errors: [message] }]),
+  );
+}
+
+/**
+ * Convertit une exception en statut et corps d'erreur de l'API
+ * Les exceptions sans code reçoivent le nom de leur statut HTTP ; toute autre erreur
+ * devient une 500 INTERNAL_ERROR, sans son message
+ */
+export function toApiError(exception: unknown): {
+  status: number;
+  body: ApiErrorBody;
+} {
+  if (!(exception instanceof HttpException)) {
+    return {
+      status: HttpStatus.INTERNAL_SERVER_ERROR,
+      body: errorBody('INTERNAL_ERROR', 'Erreur interne du serveur'),
+    };
+  }
+
+  const status = exception.getStatus();
+  const response = exception.getResponse();
+  const fields =
+    typeof response === 'object' ? (response as Record<string, unknown>) : {};
+  return {
+    status,
+    body: {
+      code:
+        typeof fields.code === 'string'
+          ? fields.code
+          : (HttpStatus[status] ?? 'INTERNAL_ERROR'),
+      message: Array.isArray(fields.message)
+        ? fields.message.join(', ')
+        : exception.message,
+      details: fields.details ?? null,
+    },
+  };
+}
+
+/**
+ * Filtre global : toutes les erreurs sont renvoyées au format { code, message, details }
+ */
+@Catch()
+export class ApiExceptionFilter implements ExceptionFilter {
+  private readonly logger = new Logger(ApiExceptionFilter.name);
+
+  catch(exception: unknown, host: ArgumentsHost) {
+    const response = host.switchToHttp().getResponse<Response>();
+    const { status, body } = toApiError(exception);
+    if (status >= HttpStatus.INTERNAL_SERVER_ERROR) {
+      this.logger.error(
+        body.message,
+        exception instanceof Error ? exception.stack : String(exception),
+      );
+    }
+    // Flux SSE déjà commencé : l'erreur ne peut plus changer le statut
+    if (response.headersSent) {
+      response.end();
+      return;
+    }
+    response.status(status).json(body);
+  }
+}
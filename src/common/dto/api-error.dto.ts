@@ -0,0 +1,24 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ApiErrorBody } from '../interfaces/api-error.interface';
+
+/**
+ * Schéma OpenAPI des réponses d'erreur
+ */
+export class ApiErrorDto implements ApiErrorBody {
+  @ApiProperty({
+    description:
+      'Code stable : code métier (voir API_ERROR_CODES) ou nom du statut HTTP',
+    example: 'VALIDATION_FAILED',
+  })
+  code: string;
+
+  @ApiProperty({ example: 'Requête invalide : question' })
+  message: string;
+
+  @ApiProperty({
+    nullable: true,
+    description: 'Précisions selon le code, ex : champs invalides',
+    example: [{ field: 'question', errors: ['question should not be empty'] }],
+  })
+  details: unknown;
+}
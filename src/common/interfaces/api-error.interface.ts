@@ -0,0 +1,48 @@
+// Codes d'erreur métier, stables pour les clients de l'API
+// Les autres erreurs portent le nom de leur statut HTTP (ex : NOT_FOUND, PAYLOAD_TOO_LARGE)
+export const API_ERROR_CODES = [
+  // Corps, paramètres ou query refusés par la validation
+  'VALIDATION_FAILED',
+  // Authentification et quotas (voir AuthErrorCode)
+  'API_KEY_MISSING',
+  'API_KEY_INVALID',
+  'SCOPE_FORBIDDEN',
+  'RATE_LIMITED',
+  'TOKEN_QUOTA_EXCEEDED',
+  // Base de connaissances
+  'INVALID_COLLECTION',
+  'INVALID_CHUNKING',
+  'INVALID_FILTER',
+  'UNSUPPORTED_FORMAT',
+  'INGESTION_FAILED',
+  'DOCUMENT_NOT_FOUND',
+  'JOB_NOT_FOUND',
+  // Graphe d'agents
+  'RUN_NOT_FOUND',
+  'THREAD_NOT_FOUND',
+  'NO_PENDING_APPROVAL',
+  'GRAPH_EXECUTION_FAILED',
+  'DIAGRAM_RENDER_FAILED',
+  // Erreur inattendue, détail dans les logs du serveur
+  'INTERNAL_ERROR',
+] as const;
+export type ApiErrorCode = (typeof API_ERROR_CODES)[number];
+
+/**
+ * Corps de toutes les réponses d'erreur de l'API
+ */
+export interface ApiErrorBody {
+  code: string;
+  message: string;
+  // Précisions selon le code (ex : champs invalides pour VALIDATION_FAILED), null sinon
+  details: unknown;
+}
+
+/**
+ * Champ refusé par la validation, dans les details de VALIDATION_FAILED
+ */
+export interface FieldError {
+  // Chemin du champ, ex : "chunking.chunkSize"
+  field: string;
+  errors: string[];
+}
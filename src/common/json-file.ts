@@ -0,0 +1,121 @@
+import {
+  appendFile,
+  mkdir,
+  readFile,
+  rename,
+  rm,
+  writeFile,
+} from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+// Écritures en cours par fichier, pour les enchaîner plutôt que les entremêler
+const pendingWrites = new Map<string, Promise<void>>();
+
+/**
+ * Lit un fichier JSON
+ * @returns le contenu du fichier, ou undefined s'il n'existe pas encore
+ */
+export async function readJsonFile<T>(
+  filePath: string,
+): Promise<T | undefined> {
+  try {
+    return JSON.parse(await readFile(filePath, 'utf-8'));
+  } catch (error) {
+    if (error.code === 'ENOENT') return undefined;
+    throw error;
+  }
+}
+
+/**
+ * Écrit un fichier JSON sans jamais laisser de fichier tronqué
+ * Les écritures concurrentes sur un même fichier sont exécutées l'une après l'autre
+ */
+export function writeJsonFile(filePath: string, data: unknown): Promise<void> {
+  // Sérialisé tout de suite : c'est l'état au moment de l'appel qui est écrit
+  return writeAtomically(filePath, JSON.stringify(data));
+}
+
+/**
+ * Lit un fichier JSON Lines (un objet JSON par ligne)
+ * Les lignes illisibles (ex : dernière ligne coupée par un arrêt brutal) sont ignorées
+ * @returns les objets lus et le nombre de lignes ignorées, ou undefined si le fichier n'existe pas encore
+ */
+export async function readJsonLines<T>(
+  filePath: string,
+): Promise<{ items: T[]; skipped: number } | undefined> {
+  let content: string;
+  try {
+    content = await readFile(filePath, 'utf-8');
+  } catch (error) {
+    if (error.code === 'ENOENT') return undefined;
+    throw error;
+  }
+  const items: T[] = [];
+  let skipped = 0;
+  for (const line of content.split('\n')) {
+    if (line.trim() === '') continue;
+    try {
+      items.push(JSON.parse(line));
+    } catch {
+      skipped++;
+    }
+  }
+  return { items, skipped };
+}
+
+/**
+ * Ajoute des objets en fin de fichier JSON Lines, sans réécrire les lignes existantes
+ */
+export function appendJsonLines(
+  filePath: string,
+  items: unknown[],
+): Promise<void> {
+  const content = items.map((item) => `${JSON.stringify(item)}\n`).join('');
+  return enqueueWrite(filePath, async () => {
+    await mkdir(dirname(filePath), { recursive: true });
+    await appendFile(filePath, content);
+  });
+}
+
+/**
+ * Réécrit un fichier JSON Lines en entier, sans jamais laisser de fichier tronqué
+ */
+export function writeJsonLines(
+  filePath: string,
+  items: unknown[],
+): Promise<void> {
+  return writeAtomically(
+    filePath,
+    items.map((item) => `${JSON.stringify(item)}\n`).join(''),
+  );
+}
+
+/**
+ * Supprime un fichier JSON après les écritures en cours sur ce fichier
+ */
+export function removeJsonFile(filePath: string): Promise<void> {
+  return enqueueWrite(filePath, () => rm(filePath, { force: true }));
+}
+
+// Écriture dans un fichier temporaire puis renommage, après les écritures en cours
+function writeAtomically(filePath: string, content: string): Promise<void> {
+  return enqueueWrite(filePath, async () => {
+    await mkdir(dirname(filePath), { recursive: true });
+    const tmpPath = `${filePath}.tmp`;
+    await writeFile(tmpPath, content);
+    await rename(tmpPath, filePath);
+  });
+}
+
+// Enchaîne une opération sur un fichier après celles déjà en cours
+function enqueueWrite(
+  filePath: string,
+  write: () => Promise<void>,
+): Promise<void> {
+  const previous = pendingWrites.get(filePath) ?? Promise.resolve();
+  const current = previous.catch(() => undefined).then(write);
+  pendingWrites.set(filePath, current);
+  return current.finally(() => {
+    if (pendingWrites.get(filePath) === current) pendingWrites.delete(filePath);
+  });
+}
@@ -0,0 +1,19 @@
+import { INestApplication } from '@nestjs/common';
+import { DocumentBuilder, OpenAPIObject, SwaggerModule } from '@nestjs/swagger';
+
+/**
+ * Spécification OpenAPI de l'API, générée à partir des contrôleurs et de leurs DTO
+ */
+export function createOpenApiDocument(app: INestApplication): OpenAPIObject {
+  const config = new DocumentBuilder()
+    .setTitle('RAG and Web Search Agent')
+    .setDescription(
+      "Base de connaissances (ingestion, recherche) et graphe d'agents RAG et recherche web. " +
+        'Toutes les erreurs suivent le format { code, message, details }.',
+    )
+    .setVersion(process.env.npm_package_version ?? '0.0.1')
+    // Clé d'API : "Authorization: Bearer <clé>" ou "X-API-Key: <clé>"
+    .addBearerAuth()
+    .build();
+  return SwaggerModule.createDocument(app, config);
+}
@@ -0,0 +1,31 @@
+/**
+ * Lit au plus maxBytes octets du corps d'une réponse HTTP, sans télécharger la suite
+ * La lecture va au-delà de maxBytes avant de conclure à une troncature : un corps
+ * d'exactement maxBytes octets est rendu en entier
+ * @returns le corps décodé en UTF-8, et s'il a été tronqué
+ */
+export async function readLimited(
+  response: Response,
+  maxBytes: number,
+): Promise<{ body: string; truncated: boolean }> {
+  if (!response.body) return { body: '', truncated: false };
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (size <= maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return {
+        body: Buffer.concat(chunks).toString('utf-8'),
+        truncated: false,
+      };
+    }
+    chunks.push(value);
+    size += value.length;
+  }
+  await reader.cancel();
+  return {
+    body: Buffer.concat(chunks).subarray(0, maxBytes).toString('utf-8'),
+    truncated: true,
+  };
+}
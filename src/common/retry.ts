@@ -0,0 +1,32 @@
+export interface RetryOptions {
+  // Nouvelles tentatives après le premier échec
+  maxRetries: number;
+  // Délai avant la première nouvelle tentative, doublé à chaque échec
+  initialDelayMs: number;
+  // Erreurs qui justifient une nouvelle tentative, toutes par défaut
+  isRetryable?: (error: any) => boolean;
+  onRetry?: (error: any, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * Exécute une opération avec nouvelles tentatives et délai exponentiel (backoff)
+ * @returns le résultat de la première tentative réussie
+ * @throws la dernière erreur, ou la première erreur non retentable
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  { maxRetries, initialDelayMs, isRetryable, onRetry }: RetryOptions,
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= maxRetries || (isRetryable && !isRetryable(error))) {
+        throw error;
+      }
+      const delayMs = initialDelayMs * 2 ** attempt;
+      onRetry?.(error, attempt + 1, delayMs);
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}
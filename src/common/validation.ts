@@ -0,0 +1,96 @@
+import { BadRequestException, ValidationPipe } from '@nestjs/common';
+import {
+  ClassConstructor,
+  TransformFnParams,
+  plainToInstance,
+} from 'class-transformer';
+import { ValidationError, ValidateBy } from 'class-validator';
+import { errorBody } from './api-error';
+import { FieldError } from './interfaces/api-error.interface';
+
+/**
+ * Aplatit les erreurs de class-validator, champs imbriqués compris (ex : "chunking.chunkSize")
+ */
+export function toFieldErrors(
+  errors: ValidationError[],
+  parent?: string,
+): FieldError[] {
+  return errors.flatMap((error) => {
+    const field = parent ? `${parent}.${error.property}` : error.property;
+    return [
+      ...(error.constraints
+        ? [{ field, errors: Object.values(error.constraints) }]
+        : []),
+      ...toFieldErrors(error.children ?? [], field),
+    ];
+  });
+}
+
+/**
+ * Pipe global de validation des DTO
+ * Les champs inconnus sont refusés ; les erreurs sortent en VALIDATION_FAILED,
+ * avec la liste des champs invalides dans details
+ */
+export function createValidationPipe(): ValidationPipe {
+  return new ValidationPipe({
+    transform: true,
+    whitelist: true,
+    forbidNonWhitelisted: true,
+    exceptionFactory: (errors) => {
+      const fields = toFieldErrors(errors);
+      return new BadRequestException(
+        errorBody(
+          'VALIDATION_FAILED',
+          `Requête invalide : ${fields.map(({ field }) => field).join(', ')}`,
+          fields,
+        ),
+      );
+    },
+  });
+}
+
+/**
+ * Transformation d'un champ JSON, qui arrive sous forme de chaîne en multipart
+ * Une chaîne illisible est laissée telle quelle, pour être refusée par la validation
+ * @param type DTO dans lequel convertir l'objet lu, pour valider ses champs
+ */
+export function parseJsonField<T>(type?: ClassConstructor<T>) {
+  return ({ value }: TransformFnParams): unknown => {
+    if (value === '') return undefined;
+    let parsed = value;
+    if (typeof value === 'string') {
+      try {
+        parsed = JSON.parse(value);
+      } catch {
+        return value;
+      }
+    }
+    return type &&
+      typeof parsed === 'object' &&
+      parsed !== null &&
+      !Array.isArray(parsed) &&
+      !(parsed instanceof type)
+      ? plainToInstance(type, parsed)
+      : parsed;
+  };
+}
+
+/**
+ * Objet à valeurs simples (chaîne, nombre ou booléen), ex : des tags de documents
+ */
+export function IsFlatRecord() {
+  return ValidateBy({
+    name: 'isFlatRecord',
+    validator: {
+      validate: (value: unknown) =>
+        typeof value === 'object' &&
+        value !== null &&
+        !Array.isArray(value) &&
+        Object.values(value).every((entry) =>
+          ['string', 'number', 'boolean'].includes(typeof entry),
+        ),
+      defaultMessage: ({ property }) =>
+        `${property} doit être un objet JSON à valeurs simples, ex : {"team": "billing"}`,
+    },
+  });
+}
@@ -0,0 +1,37 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsInt,
+  IsOptional,
+  Matches,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import {
+  COLLECTION_ID_PATTERN,
+  MAX_SEARCH_RESULTS,
+} from 'src/knowledge/knowledge.constants';
+import { EvaluationDatasetDto } from './evaluation-dataset.dto';
+
+/**
+ * Évaluation d'un jeu de questions ; collection (jeu sans documents) et k priment sur ceux du jeu
+ */
+export class EvaluateDto {
+  @ApiProperty({ type: EvaluationDatasetDto })
+  @ValidateNested()
+  @Type(() => EvaluationDatasetDto)
+  dataset: EvaluationDatasetDto;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @Matches(COLLECTION_ID_PATTERN)
+  collection?: string;
+
+  @ApiPropertyOptional({ minimum: 1, maximum: MAX_SEARCH_RESULTS })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_SEARCH_RESULTS)
+  k?: number;
+}
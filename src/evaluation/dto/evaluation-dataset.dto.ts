@@ -0,0 +1,121 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { ChunkingOptionsDto } from 'src/knowledge/dto/chunking-options.dto';
+import {
+  COLLECTION_ID_PATTERN,
+  MAX_SEARCH_RESULTS,
+} from 'src/knowledge/knowledge.constants';
+import {
+  EvaluationCase,
+  EvaluationDataset,
+  EvaluationDocument,
+} from '../interfaces/evaluation-dataset.interface';
+
+// Limites d'un jeu : chaque question lance un run complet du graphe
+export const MAX_EVALUATION_CASES = 100;
+export const MAX_EVALUATION_DOCUMENTS = 50;
+
+export class EvaluationCaseDto implements EvaluationCase {
+  @ApiProperty({ example: 'e42' })
+  @IsString()
+  @IsNotEmpty()
+  id: string;
+
+  @ApiProperty({ example: 'What does error E42 mean?' })
+  @IsString()
+  @IsNotEmpty()
+  question: string;
+
+  @ApiPropertyOptional({
+    type: [String],
+    description:
+      'Documents à retrouver et citer : source (nom de fichier, URL) ou identifiant',
+    example: ['errors.md'],
+  })
+  @IsOptional()
+  @IsString({ each: true })
+  expectedSources?: string[];
+
+  @ApiPropertyOptional({ example: 'E42 means the disk is full.' })
+  @IsOptional()
+  @IsString()
+  referenceAnswer?: string;
+}
+
+export class EvaluationDocumentDto implements EvaluationDocument {
+  @ApiProperty({
+    description: 'Nom de fichier, avec son extension (.txt, .md, .html)',
+    example: 'errors.md',
+  })
+  @IsString()
+  @IsNotEmpty()
+  source: string;
+
+  @ApiProperty({ example: '# Error codes\n\nE42: the disk is full.' })
+  @IsString()
+  @IsNotEmpty()
+  content: string;
+}
+
+/**
+ * Jeu de questions de référence, envoyé à l'API ou lu par la commande npm run evaluate
+ */
+export class EvaluationDatasetDto implements EvaluationDataset {
+  @ApiProperty({ example: 'support-faq' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Collection interrogée par un jeu sans documents, default par défaut ; un jeu avec documents est évalué dans une collection temporaire "eval-<name>-<suffixe>"',
+  })
+  @IsOptional()
+  @Matches(COLLECTION_ID_PATTERN)
+  collection?: string;
+
+  @ApiPropertyOptional({ minimum: 1, maximum: MAX_SEARCH_RESULTS, default: 3 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_SEARCH_RESULTS)
+  k?: number;
+
+  @ApiPropertyOptional({ type: ChunkingOptionsDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ChunkingOptionsDto)
+  chunking?: ChunkingOptionsDto;
+
+  @ApiPropertyOptional({
+    type: [EvaluationDocumentDto],
+    description: "Documents ingérés avant l'évaluation, puis supprimés",
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_EVALUATION_DOCUMENTS)
+  @ValidateNested({ each: true })
+  @Type(() => EvaluationDocumentDto)
+  documents?: EvaluationDocumentDto[];
+
+  @ApiProperty({ type: [EvaluationCaseDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_EVALUATION_CASES)
+  @ValidateNested({ each: true })
+  @Type(() => EvaluationCaseDto)
+  cases: EvaluationCaseDto[];
+}
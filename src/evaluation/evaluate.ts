@@ -0,0 +1,129 @@
+import { NestFactory } from '@nestjs/core';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { parseArgs } from 'node:util';
+import { AppModule } from '../app.module';
+import { readJsonFile, writeJsonFile } from '../common/json-file';
+import { toFieldErrors } from '../common/validation';
+import { EvaluationDatasetDto } from './dto/evaluation-dataset.dto';
+import { EvaluationService } from './evaluation.service';
+import {
+  EvaluationMetrics,
+  EvaluationReport,
+} from './interfaces/evaluation-report.interface';
+
+// Mesures du résumé, dans l'ordre d'affichage
+const SUMMARY_METRICS: (keyof EvaluationMetrics)[] = [
+  'recallAtK',
+  'mrr',
+  'citationPrecision',
+  'citationRecall',
+  'answerScore',
+  'tokens',
+];
+
+const format = (value: number | null) =>
+  value === null
+    ? '-'
+    : Number.isInteger(value)
+      ? String(value)
+      : value.toFixed(3);
+
+/**
+ * Lit et valide un jeu de questions, avec les règles de l'API
+ */
+async function loadDataset(filePath: string): Promise<EvaluationDatasetDto> {
+  const data = await readJsonFile<object>(filePath);
+  if (!data) throw new Error(`Jeu de questions introuvable : ${filePath}`);
+  const dataset = plainToInstance(EvaluationDatasetDto, data);
+  const errors = toFieldErrors(await validate(dataset));
+  if (errors.length > 0) {
+    throw new Error(
+      `Jeu de questions invalide :\n${errors
+        .map(({ field, errors }) => `  ${field} : ${errors.join(', ')}`)
+        .join('\n')}`,
+    );
+  }
+  return dataset;
+}
+
+/**
+ * Affiche les moyennes, avec l'écart à un rapport de référence, puis les questions en erreur
+ */
+function printSummary(report: EvaluationReport, baseline?: EvaluationReport) {
+  console.log(
+    `${report.dataset} : ${report.metrics.cases} questions, collection ${report.collection}, ` +
+      `k=${report.k}, juge ${report.judge}, ${report.durationMs} ms`,
+  );
+  console.table(
+    Object.fromEntries(
+      SUMMARY_METRICS.map((metric) => {
+        const value = report.metrics[metric];
+        const previous = baseline?.metrics[metric] ?? null;
+        return [
+          metric,
+          {
+            value: format(value),
+            ...(baseline && {
+              baseline: format(previous),
+              delta:
+                value === null || previous === null
+                  ? '-'
+                  : `${value >= previous ? '+' : ''}${format(value - previous)}`,
+            }),
+          },
+        ];
+      }),
+    ),
+  );
+  for (const result of report.cases.filter((result) => result.error)) {
+    console.log(`Erreur sur ${result.id} : ${result.error}`);
+  }
+}
+
+/**
+ * Évalue le RAG et le graphe sur un jeu de questions de référence
+ * npm run evaluate -- --dataset evaluation/support.json [--collection billing] [--k 5]
+ *   [--output report.json] [--baseline previous-report.json]
+ * Hors ligne : LLM_PROVIDER=fake EMBEDDING_PROVIDER=fake WEB_SEARCH_PROVIDER=fake EVAL_JUDGE=lexical
+ */
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      dataset: { type: 'string' },
+      collection: { type: 'string' },
+      k: { type: 'string' },
+      output: { type: 'string' },
+      baseline: { type: 'string' },
+    },
+  });
+  if (!values.dataset) {
+    throw new Error('Option obligatoire : --dataset');
+  }
+  if (values.k !== undefined && !/^[1-9]\d*$/.test(values.k)) {
+    throw new Error(`k invalide : ${values.k} (entier positif attendu)`);
+  }
+  const dataset = await loadDataset(values.dataset);
+  const baseline = values.baseline
+    ? await readJsonFile<EvaluationReport>(values.baseline)
+    : undefined;
+
+  const app = await NestFactory.createApplicationContext(AppModule, {
+    logger: ['error', 'warn'],
+  });
+  try {
+    const report = await app.get(EvaluationService).evaluate(dataset, {
+      collection: values.collection,
+      k: values.k === undefined ? undefined : Number(values.k),
+    });
+    if (values.output) await writeJsonFile(values.output, report);
+    printSummary(report, baseline);
+  } finally {
+    await app.close();
+  }
+}
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
@@ -0,0 +1,39 @@
+import {
+  citationScores,
+  mean,
+  recallAtK,
+  reciprocalRank,
+} from './evaluation-metrics';
+
+describe('evaluation metrics', () => {
+  const retrieved = ['faq.md', 'faq.md', 'errors.md', 'billing.md'];
+
+  it('should measure recall within the first k chunks', () => {
+    expect(recallAtK(['errors.md', 'billing.md'], retrieved, 3)).toBe(0.5);
+    expect(recallAtK(['errors.md', 'billing.md'], retrieved, 4)).toBe(1);
+    expect(recallAtK([], retrieved, 3)).toBeNull();
+  });
+
+  it('should rank the first chunk of an expected source', () => {
+    expect(reciprocalRank(['errors.md'], retrieved)).toBeCloseTo(1 / 3);
+    expect(reciprocalRank(['unknown.md'], retrieved)).toBe(0);
+  });
+
+  it('should score citations against the expected sources', () => {
+    expect(
+      citationScores(
+        ['errors.md', 'billing.md'],
+        ['errors.md', 'https://example.com'],
+      ),
+    ).toEqual({ precision: 0.5, recall: 0.5 });
+    expect(citationScores(['errors.md'], [])).toEqual({
+      precision: null,
+      recall: 0,
+    });
+  });
+
+  it('should average measured values only', () => {
+    expect(mean([1, null, 0.5])).toBe(0.75);
+    expect(mean([null])).toBeNull();
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Mesures de recherche et de citation d'une question
+ * Les sources retrouvées sont celles des chunks, dans l'ordre du classement
+ * (une même source peut revenir plusieurs fois)
+ */
+
+/**
+ * Part des sources attendues présentes parmi les k premiers chunks
+ * @returns null sans source attendue
+ */
+export function recallAtK(
+  expected: string[],
+  retrieved: string[],
+  k: number,
+): number | null {
+  if (expected.length === 0) return null;
+  const topK = new Set(retrieved.slice(0, k));
+  return expected.filter((source) => topK.has(source)).length / expected.length;
+}
+
+/**
+ * Inverse du rang du premier chunk d'une source attendue, 0 si aucun
+ * @returns null sans source attendue
+ */
+export function reciprocalRank(
+  expected: string[],
+  retrieved: string[],
+): number | null {
+  if (expected.length === 0) return null;
+  const rank = retrieved.findIndex((source) => expected.includes(source));
+  return rank === -1 ? 0 : 1 / (rank + 1);
+}
+
+/**
+ * Justesse des citations d'une réponse
+ * - precision : part des sources citées qui sont attendues (null sans citation)
+ * - recall : part des sources attendues citées (null sans source attendue)
+ */
+export function citationScores(
+  expected: string[],
+  cited: string[],
+): { precision: number | null; recall: number | null } {
+  const citedSources = new Set(cited);
+  return {
+    precision:
+      citedSources.size === 0 || expected.length === 0
+        ? null
+        : [...citedSources].filter((source) => expected.includes(source))
+            .length / citedSources.size,
+    recall:
+      expected.length === 0
+        ? null
+        : expected.filter((source) => citedSources.has(source)).length /
+          expected.length,
+  };
+}
+
+/**
+ * Moyenne des valeurs mesurées, null si aucune
+ */
+export function mean(values: (number | null)[]): number | null {
+  const measured = values.filter((value): value is number => value !== null);
+  if (measured.length === 0) return null;
+  return measured.reduce((sum, value) => sum + value, 0) / measured.length;
+}
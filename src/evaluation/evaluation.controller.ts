@@ -0,0 +1,34 @@
+import { Body, Controller, HttpCode, HttpStatus, Post } from '@nestjs/common';
+import { ApiBearerAuth, ApiDefaultResponse, ApiTags } from '@nestjs/swagger';
+import { CurrentApiKey, RequireScopes } from 'src/auth/auth.decorators';
+import { ApiKeyRecord } from 'src/auth/interfaces/api-key.interface';
+import { ApiErrorDto } from 'src/common/dto/api-error.dto';
+import { EvaluateDto } from './dto/evaluate.dto';
+import { EvaluationService } from './evaluation.service';
+
+@ApiTags('evaluation')
+@ApiBearerAuth()
+@ApiDefaultResponse({ type: ApiErrorDto, description: 'Erreur' })
+@Controller('evaluation')
+export class EvaluationController {
+  constructor(private readonly evaluationService: EvaluationService) {}
+
+  /**
+   * Évalue un jeu de questions de référence et renvoie le rapport
+   * Réponse à la fin de la dernière question : chaque question lance un run complet,
+   * dont les tokens sont décomptés du quota de la clé dès la fin du run
+   */
+  @RequireScopes('search', 'run')
+  @Post('run')
+  @HttpCode(HttpStatus.OK)
+  async evaluate(
+    @Body() body: EvaluateDto,
+    @CurrentApiKey() apiKey: ApiKeyRecord | undefined,
+  ) {
+    return this.evaluationService.evaluate(body.dataset, {
+      collection: body.collection,
+      k: body.k,
+      apiKeyId: apiKey?.id,
+    });
+  }
+}
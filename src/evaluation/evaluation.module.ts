@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from 'src/auth/auth.module';
+import { KnowledgeModule } from 'src/knowledge/knowledge.module';
+import { ProvidersModule } from 'src/providers/providers.module';
+import { StateGraphModule } from 'src/state-graph/state-graph.module';
+import { EvaluationController } from './evaluation.controller';
+import { EvaluationService } from './evaluation.service';
+
+@Module({
+  imports: [KnowledgeModule, StateGraphModule, ProvidersModule, AuthModule],
+  providers: [EvaluationService],
+  controllers: [EvaluationController],
+})
+export class EvaluationModule {}
@@ -0,0 +1,159 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigModule } from '@nestjs/config';
+import { FakeListChatModel } from '@langchain/core/utils/testing';
+import { ApiKeysService } from 'src/auth/api-keys.service';
+import { KnowledgeService } from 'src/knowledge/knowledge.service';
+import { StateGraphService } from 'src/state-graph/state-graph.service';
+import { EvaluationModule } from './evaluation.module';
+import { EvaluationService } from './evaluation.service';
+import { LlmAnswerJudge } from './judges/llm-answer.judge';
+import { EvaluationDataset } from './interfaces/evaluation-dataset.interface';
+
+describe('EvaluationService (offline)', () => {
+  let module: TestingModule;
+  let evaluationService: EvaluationService;
+  let knowledgeService: KnowledgeService;
+
+  const dataset: EvaluationDataset = {
+    name: 'support',
+    documents: [
+      {
+        source: 'errors.txt',
+        content: 'The error code E42 means disk full.',
+      },
+    ],
+    cases: [
+      {
+        id: 'e42',
+        question: 'What does E42 mean?',
+        expectedSources: ['errors.txt'],
+        referenceAnswer: 'E42 means disk full.',
+      },
+    ],
+  };
+
+  beforeEach(async () => {
+    module = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({
+          isGlobal: true,
+          ignoreEnvFile: true,
+          load: [
+            () => ({
+              LLM_PROVIDER: 'fake',
+              EMBEDDING_PROVIDER: 'fake',
+              WEB_SEARCH_PROVIDER: 'fake',
+              VECTOR_STORE_BACKEND: 'memory',
+              EMBEDDING_CACHE_BACKEND: 'memory',
+              CHECKPOINT_BACKEND: 'memory',
+              RUN_TRACE_BACKEND: 'memory',
+              EVAL_JUDGE: 'lexical',
+            }),
+          ],
+        }),
+        EvaluationModule,
+      ],
+    }).compile();
+    await module.init();
+
+    evaluationService = module.get(EvaluationService);
+    knowledgeService = module.get(KnowledgeService);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await module.close();
+  });
+
+  it('should report retrieval, citation and answer metrics', async () => {
+    const report = await evaluationService.evaluate(dataset);
+
+    expect(report.collection).toMatch(/^eval-support-[0-9a-f]{8}$/);
+    expect(report.metrics).toMatchObject({
+      cases: 1,
+      failed: 0,
+      recallAtK: 1,
+      mrr: 1,
+      citationRecall: 1,
+    });
+    // La réponse hors ligne cite aussi une page web, qui n'est pas attendue
+    expect(report.cases[0].citedSources).toContain('errors.txt');
+    expect(report.metrics.citationPrecision).toBe(0.5);
+    expect(report.metrics.answerScore).toBeGreaterThan(0.5);
+  });
+
+  it('should remove the dataset documents afterwards', async () => {
+    const report = await evaluationService.evaluate(dataset);
+
+    expect(await knowledgeService.listDocuments(report.collection)).toEqual([]);
+  });
+
+  it('should remove the documents already ingested when ingestion fails', async () => {
+    const deleteCollection = jest.spyOn(knowledgeService, 'deleteCollection');
+    // Premier document ingéré, le second en échec
+    const ingestFile = knowledgeService.ingestFile.bind(knowledgeService);
+    jest
+      .spyOn(knowledgeService, 'ingestFile')
+      .mockImplementationOnce(ingestFile)
+      .mockRejectedValueOnce(new Error('disk full'));
+
+    await expect(
+      evaluationService.evaluate({
+        ...dataset,
+        documents: [
+          ...dataset.documents,
+          { source: 'faq.txt', content: 'The office is closed on Sundays.' },
+        ],
+      }),
+    ).rejects.toThrow('disk full');
+
+    expect(deleteCollection).toHaveBeenCalledTimes(1);
+    const [collection] = deleteCollection.mock.calls[0];
+    expect(collection).toMatch(/^eval-support-/);
+    expect(await knowledgeService.listDocuments(collection)).toEqual([]);
+  });
+
+  it('should never ingest the dataset documents into a live collection', async () => {
+    await expect(
+      evaluationService.evaluate(dataset, { collection: 'default' }),
+    ).rejects.toThrow('collection temporaire');
+
+    expect(await knowledgeService.listDocuments('default')).toEqual([]);
+  });
+
+  it('should charge each run to the calling key and delete its thread even on failure', async () => {
+    const stateGraphService = module.get(StateGraphService);
+    const run = jest.spyOn(stateGraphService, 'run');
+    const deleteThread = jest.spyOn(stateGraphService, 'deleteThread');
+    const recordTokenUsage = jest.spyOn(
+      module.get(ApiKeysService),
+      'recordTokenUsage',
+    );
+    // Échec après le run : son thread existe déjà
+    jest.spyOn(stateGraphService, 'getRun').mockImplementation(() => {
+      throw new Error('trace lost');
+    });
+
+    const report = await evaluationService.evaluate(dataset, {
+      apiKeyId: 'key-1',
+    });
+
+    expect(report.cases[0].error).toBe('trace lost');
+    const [, , threadId, , apiKeyId] = run.mock.calls[0];
+    expect(apiKeyId).toBe('key-1');
+    expect(deleteThread).toHaveBeenCalledWith(threadId, 'key-1');
+    await expect(deleteThread.mock.results[0].value).resolves.toMatchObject({
+      threadId,
+    });
+    expect(recordTokenUsage).toHaveBeenCalledWith('key-1', expect.any(Number));
+  });
+
+  it('should read the grade of an LLM judge', async () => {
+    const judge = new LlmAnswerJudge(
+      new FakeListChatModel({ responses: ['8', 'no idea'] }),
+    );
+
+    expect(await judge.grade('q', 'reference', 'answer')).toBe(0.8);
+    expect(await judge.grade('q', 'reference', 'answer')).toBe(0);
+  });
+});
@@ -0,0 +1,246 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes, randomUUID } from 'node:crypto';
+import { errorBody, invalidField } from 'src/common/api-error';
+import { KnowledgeService } from 'src/knowledge/knowledge.service';
+import { DEFAULT_COLLECTION } from 'src/knowledge/knowledge.constants';
+import { ProvidersService } from 'src/providers/providers.service';
+import { StateGraphService } from 'src/state-graph/state-graph.service';
+import { createAnswerJudge } from './judges/answer-judge.factory';
+import {
+  citationScores,
+  mean,
+  recallAtK,
+  reciprocalRank,
+} from './evaluation-metrics';
+import {
+  AnswerJudge,
+  AnswerJudgeType,
+} from './interfaces/answer-judge.interface';
+import {
+  EvaluationCase,
+  EvaluationDataset,
+} from './interfaces/evaluation-dataset.interface';
+import {
+  EvaluationCaseResult,
+  EvaluationReport,
+} from './interfaces/evaluation-report.interface';
+
+// Même valeur par défaut que le tool rag_search de l'agent RAG
+const DEFAULT_K = 3;
+
+/**
+ * Collection temporaire d'une évaluation : "eval-<nom du jeu>-<suffixe aléatoire>",
+ * propre à chaque évaluation, même lancées en parallèle sur le même jeu
+ */
+const temporaryCollection = (name: string) =>
+  `eval-${name.replace(/[^a-zA-Z0-9_-]+/g, '-').slice(0, 50)}-${randomBytes(4).toString('hex')}`;
+
+/**
+ * Évalue le RAG et le graphe d'agents sur un jeu de questions de référence
+ * Chaque question passe par KnowledgeService.search (recall@k, MRR), puis par un run
+ * complet du graphe (justesse des citations, note du juge face à la réponse attendue)
+ * Les questions sont traitées l'une après l'autre, dans un thread neuf supprimé ensuite
+ * Un jeu avec documents est évalué dans une collection temporaire, jamais dans une collection en service
+ */
+@Injectable()
+export class EvaluationService {
+  private readonly judge: AnswerJudge | undefined;
+  private readonly judgeType: AnswerJudgeType;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly providersService: ProvidersService,
+    private readonly knowledgeService: KnowledgeService,
+    private readonly stateGraphService: StateGraphService,
+  ) {
+    this.judgeType = this.configService.get<AnswerJudgeType>(
+      'EVAL_JUDGE',
+      'llm',
+    );
+    this.judge = createAnswerJudge(
+      this.configService,
+      this.providersService,
+      this.judgeType,
+    );
+  }
+
+  /**
+   * Évalue un jeu de questions
+   * Ses documents éventuels sont ingérés dans une collection temporaire, supprimée ensuite
+   * @param options collection (jeu sans documents) et k, qui priment sur ceux du jeu ;
+   * apiKeyId, clé d'API appelante, dont le quota est décompté des tokens de chaque run
+   */
+  async evaluate(
+    dataset: EvaluationDataset,
+    options: { collection?: string; k?: number; apiKeyId?: string } = {},
+  ): Promise<EvaluationReport> {
+    const startedAt = new Date();
+    const temporary = dataset.documents?.length > 0;
+    const requested = options.collection ?? dataset.collection;
+    if (temporary && requested) {
+      throw invalidField(
+        'collection',
+        'Un jeu avec documents est évalué dans une collection temporaire : collection non applicable',
+      );
+    }
+    const collection = temporary
+      ? temporaryCollection(dataset.name)
+      : (requested ?? DEFAULT_COLLECTION);
+    const k = options.k ?? dataset.k ?? DEFAULT_K;
+
+    const cases: EvaluationCaseResult[] = [];
+    try {
+      if (temporary) await this.ingestDocuments(collection, dataset);
+      for (const evaluationCase of dataset.cases) {
+        cases.push(
+          await this.evaluateCase(
+            collection,
+            k,
+            evaluationCase,
+            options.apiKeyId,
+          ),
+        );
+      }
+    } finally {
+      // Documents ingérés supprimés avec leur collection, même après un échec de l'ingestion
+      if (temporary) await this.knowledgeService.deleteCollection(collection);
+    }
+
+    return {
+      dataset: dataset.name,
+      collection,
+      k,
+      judge: this.judgeType,
+      startedAt: startedAt.toISOString(),
+      durationMs: Date.now() - startedAt.getTime(),
+      metrics: {
+        cases: cases.length,
+        failed: cases.filter((result) => result.error).length,
+        recallAtK: mean(cases.map((result) => result.recall)),
+        mrr: mean(cases.map((result) => result.reciprocalRank)),
+        citationPrecision: mean(
+          cases.map((result) => result.citationPrecision),
+        ),
+        citationRecall: mean(cases.map((result) => result.citationRecall)),
+        answerScore: mean(cases.map((result) => result.answerScore)),
+        tokens: cases.reduce((sum, result) => sum + result.tokens, 0),
+      },
+      cases,
+    };
+  }
+
+  /**
+   * Ingère les documents du jeu dans sa collection temporaire
+   */
+  private async ingestDocuments(
+    collection: string,
+    dataset: EvaluationDataset,
+  ): Promise<void> {
+    for (const document of dataset.documents ?? []) {
+      const buffer = Buffer.from(document.content);
+      const result = await this.knowledgeService.ingestFile(
+        collection,
+        {
+          originalname: document.source,
+          // Parser choisi d'après l'extension de la source
+          mimetype: 'text/plain',
+          size: buffer.length,
+          buffer,
+        } as Express.Multer.File,
+        { chunking: dataset.chunking },
+      );
+      if (!('documentId' in result)) {
+        throw new BadRequestException(
+          errorBody(
+            'UNSUPPORTED_FORMAT',
+            `Format de document non supporté : ${document.source}`,
+          ),
+        );
+      }
+    }
+  }
+
+  private async evaluateCase(
+    collection: string,
+    k: number,
+    { id, question, expectedSources = [], referenceAnswer }: EvaluationCase,
+    apiKeyId?: string,
+  ): Promise<EvaluationCaseResult> {
+    // Une source attendue peut être désignée par l'identifiant de son document
+    const toSource = (source: string, documentId?: string) =>
+      documentId && expectedSources.includes(documentId) ? documentId : source;
+    const result: EvaluationCaseResult = {
+      id,
+      question,
+      retrievedSources: [],
+      recall: null,
+      reciprocalRank: null,
+      citedSources: [],
+      citationPrecision: null,
+      citationRecall: null,
+      answerScore: null,
+      tokens: 0,
+    };
+    const threadId = randomUUID();
+
+    try {
+      const { results } = await this.knowledgeService.search(
+        collection,
+        question,
+        { k },
+      );
+      result.retrievedSources = results.map((chunk) =>
+        toSource(chunk.metadata.source, chunk.metadata.documentId),
+      );
+      result.recall = recallAtK(expectedSources, result.retrievedSources, k);
+      result.reciprocalRank = reciprocalRank(
+        expectedSources,
+        result.retrievedSources,
+      );
+
+      // Tokens du run décomptés du quota de la clé par le service, même si le run échoue
+      const run = await this.stateGraphService.run(
+        question,
+        collection,
+        threadId,
+        {},
+        apiKeyId,
+      );
+      result.runId = run.runId;
+      result.tokens = this.stateGraphService.getRun(run.runId).tokenUsage.total;
+      if (run.pendingApproval) {
+        throw new Error(
+          "Run en attente d'approbation de la recherche web : désactiver WEB_SEARCH_APPROVAL",
+        );
+      }
+      if (run.error) result.error = run.error.message;
+
+      result.answer = String(run.answer.content);
+      result.citedSources = run.answer.citations.map((citation) =>
+        citation.type === 'document'
+          ? toSource(citation.source, citation.documentId)
+          : citation.url,
+      );
+      const citations = citationScores(expectedSources, result.citedSources);
+      result.citationPrecision = citations.precision;
+      result.citationRecall = citations.recall;
+
+      if (this.judge && referenceAnswer) {
+        result.answerScore = await this.judge.grade(
+          question,
+          referenceAnswer,
+          result.answer,
+        );
+      }
+    } catch (error) {
+      result.error = error.message;
+    } finally {
+      // Thread absent si le run a échoué avant sa première étape
+      await this.stateGraphService
+        .deleteThread(threadId, apiKeyId)
+        .catch(() => undefined);
+    }
+    return result;
+  }
+}
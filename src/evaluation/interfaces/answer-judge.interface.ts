@@ -0,0 +1,16 @@
+// Juges de réponse : LLM, comparaison locale des termes, ou aucune note
+export const ANSWER_JUDGE_TYPES = ['llm', 'lexical', 'none'] as const;
+export type AnswerJudgeType = (typeof ANSWER_JUDGE_TYPES)[number];
+
+/**
+ * Note la réponse du graphe face à la réponse de référence
+ */
+export interface AnswerJudge {
+  /**
+   * @param question question posée
+   * @param reference réponse attendue
+   * @param answer réponse du graphe, marqueurs de citation compris
+   * @returns note entre 0 (fausse ou hors sujet) et 1 (équivalente à la référence)
+   */
+  grade(question: string, reference: string, answer: string): Promise<number>;
+}
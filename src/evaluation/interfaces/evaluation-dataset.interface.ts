@@ -0,0 +1,38 @@
+import { ChunkingOptions } from 'src/knowledge/interfaces/chunking-options.interface';
+
+/**
+ * Question de référence d'un jeu d'évaluation
+ */
+export interface EvaluationCase {
+  id: string;
+  question: string;
+  // Documents qui devraient être retrouvés et cités : source (nom de fichier, URL) ou identifiant
+  expectedSources?: string[];
+  // Réponse attendue, comparée par le juge à la réponse du graphe
+  referenceAnswer?: string;
+}
+
+/**
+ * Document ingéré avant l'évaluation, puis supprimé : le jeu se suffit à lui-même
+ */
+export interface EvaluationDocument {
+  // Nom de fichier, avec son extension (.txt, .md, .html)
+  source: string;
+  content: string;
+}
+
+/**
+ * Jeu de questions de référence
+ */
+export interface EvaluationDataset {
+  name: string;
+  // Collection interrogée par un jeu sans documents, default par défaut
+  // (un jeu avec documents est évalué dans une collection temporaire "eval-<name>-<suffixe>")
+  collection?: string;
+  // Nombre de chunks retrouvés pour recall@k et MRR, 3 par défaut (comme l'agent RAG)
+  k?: number;
+  // Découpage des documents du jeu
+  chunking?: ChunkingOptions;
+  documents?: EvaluationDocument[];
+  cases: EvaluationCase[];
+}
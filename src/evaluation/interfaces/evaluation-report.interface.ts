@@ -0,0 +1,59 @@
+import { AnswerJudgeType } from './answer-judge.interface';
+
+// Les mesures sans objet (ex : recall sans expectedSources, score sans referenceAnswer) valent null
+
+/**
+ * Résultat d'une question : recherche, run du graphe et notes
+ */
+export interface EvaluationCaseResult {
+  id: string;
+  question: string;
+  // Sources des chunks retrouvés, dans l'ordre du classement
+  retrievedSources: string[];
+  // Part des sources attendues parmi les k premiers chunks
+  recall: number | null;
+  // Inverse du rang du premier chunk d'une source attendue, 0 si aucun
+  reciprocalRank: number | null;
+  // Trace du run : GET /state-graph/runs/:runId
+  runId?: string;
+  answer?: string;
+  // Sources citées par la réponse (source des documents, url des pages web)
+  citedSources: string[];
+  // Part des citations qui pointent vers une source attendue
+  citationPrecision: number | null;
+  // Part des sources attendues citées par la réponse
+  citationRecall: number | null;
+  // Note du juge entre 0 et 1
+  answerScore: number | null;
+  // Tokens consommés par le run
+  tokens: number;
+  // Échec de la recherche ou du run, ou run coupé par son budget
+  error?: string;
+}
+
+/**
+ * Moyennes sur les questions où chaque mesure a un sens
+ */
+export interface EvaluationMetrics {
+  cases: number;
+  // Questions en erreur
+  failed: number;
+  recallAtK: number | null;
+  mrr: number | null;
+  citationPrecision: number | null;
+  citationRecall: number | null;
+  answerScore: number | null;
+  tokens: number;
+}
+
+export interface EvaluationReport {
+  dataset: string;
+  collection: string;
+  k: number;
+  judge: AnswerJudgeType;
+  // Date de début au format ISO 8601
+  startedAt: string;
+  durationMs: number;
+  metrics: EvaluationMetrics;
+  cases: EvaluationCaseResult[];
+}
@@ -0,0 +1,33 @@
+import { ConfigService } from '@nestjs/config';
+import { ProvidersService } from 'src/providers/providers.service';
+import {
+  AnswerJudge,
+  AnswerJudgeType,
+} from '../interfaces/answer-judge.interface';
+import { LexicalAnswerJudge } from './lexical-answer.judge';
+import { LlmAnswerJudge } from './llm-answer.judge';
+
+/**
+ * Crée le juge des réponses, selon la variable EVAL_JUDGE
+ * Le juge llm utilise le modèle de l'agent "Judge" (JUDGE_LLM_*, sinon LLM_*)
+ * @returns le juge, ou undefined si les réponses ne sont pas notées
+ */
+export function createAnswerJudge(
+  configService: ConfigService,
+  providersService: ProvidersService,
+  type: AnswerJudgeType = configService.get<AnswerJudgeType>(
+    'EVAL_JUDGE',
+    'llm',
+  ),
+): AnswerJudge | undefined {
+  switch (type) {
+    case 'llm':
+      return new LlmAnswerJudge(providersService.createChatModel('Judge'));
+    case 'lexical':
+      return new LexicalAnswerJudge();
+    case 'none':
+      return undefined;
+    default:
+      throw new Error(`Juge d'évaluation inconnu : ${type}`);
+  }
+}
@@ -0,0 +1,19 @@
+import { LexicalRelevanceScorer } from 'src/knowledge/rerank/lexical-relevance.scorer';
+import { AnswerJudge } from '../interfaces/answer-judge.interface';
+
+/**
+ * Juge local, sans appel de modèle : part des termes de la référence présents dans la réponse
+ * Grossier, mais déterministe : utile hors ligne et pour suivre une tendance
+ */
+export class LexicalAnswerJudge implements AnswerJudge {
+  private readonly scorer = new LexicalRelevanceScorer();
+
+  async grade(
+    _question: string,
+    reference: string,
+    answer: string,
+  ): Promise<number> {
+    const [score] = await this.scorer.score(reference, [answer]);
+    return score;
+  }
+}
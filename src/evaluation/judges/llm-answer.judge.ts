@@ -0,0 +1,31 @@
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import { AnswerJudge } from '../interfaces/answer-judge.interface';
+
+const SYSTEM_PROMPT =
+  'You grade answers to questions against a reference answer. Rate from 0 to 10 how well the' +
+  ' answer matches the facts of the reference: 0 means wrong or unrelated, 10 means it states' +
+  ' the same facts. Ignore citation markers and wording. Reply with the number only.';
+
+/**
+ * Juge qui demande à un LLM une note de la réponse face à la référence
+ * Une réponse sans note compte pour 0
+ */
+export class LlmAnswerJudge implements AnswerJudge {
+  constructor(private readonly llm: BaseChatModel) {}
+
+  async grade(
+    question: string,
+    reference: string,
+    answer: string,
+  ): Promise<number> {
+    const response = await this.llm.invoke([
+      new SystemMessage(SYSTEM_PROMPT),
+      new HumanMessage(
+        `Question: ${question}\n\nReference answer:\n${reference}\n\nAnswer to grade:\n${answer}`,
+      ),
+    ]);
+    const grade = Number(String(response.content).match(/\d+(\.\d+)?/)?.[0]);
+    return Number.isNaN(grade) ? 0 : Math.min(grade, 10) / 10;
+  }
+}
@@ -0,0 +1,28 @@
+import { NestFactory } from '@nestjs/core';
+import { writeFile } from 'node:fs/promises';
+import { AppModule } from './app.module';
+import { createOpenApiDocument } from './common/openapi';
+
+/**
+ * Écrit la spécification OpenAPI sans démarrer le serveur
+ * npm run openapi:generate [-- openapi.json]
+ */
+async function main() {
+  // preview : les modules sont analysés sans instancier les services (ni modèles, ni stores)
+  const app = await NestFactory.create(AppModule, {
+    preview: true,
+    logger: false,
+  });
+  const filePath = process.argv[2] ?? 'openapi.json';
+  await writeFile(
+    filePath,
+    JSON.stringify(createOpenApiDocument(app), null, 2) + '\n',
+  );
+  await app.close();
+  console.log(`Spécification OpenAPI écrite dans ${filePath}`);
+}
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
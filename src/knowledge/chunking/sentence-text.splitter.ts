@@ -0,0 +1,39 @@
+import {
+  RecursiveCharacterTextSplitter,
+  TextSplitter,
+} from '@langchain/textsplitters';
+
+// Fin de phrase suivie d'un espace, ou ligne vide entre deux paragraphes
+const SENTENCE_BOUNDARY = /(?<=[.!?…])\s+|\n\s*\n/;
+
+/**
+ * Découpe un texte en phrases entières, regroupées jusqu'à la taille de chunk
+ * Une phrase n'est jamais coupée, sauf si elle dépasse à elle seule la taille de chunk :
+ * elle est alors découpée comme par la stratégie recursive
+ */
+export class SentenceTextSplitter extends TextSplitter {
+  static lc_name() {
+    return 'SentenceTextSplitter';
+  }
+
+  async splitText(text: string): Promise<string[]> {
+    const sentences = text
+      .split(SENTENCE_BOUNDARY)
+      .map((sentence) => sentence.trim())
+      .filter(Boolean);
+    // mergeSplits ne coupe jamais un morceau trop long : il ne fait que le signaler
+    const oversized = new RecursiveCharacterTextSplitter({
+      chunkSize: this.chunkSize,
+      chunkOverlap: this.chunkOverlap,
+      lengthFunction: this.lengthFunction,
+    });
+    const pieces = await Promise.all(
+      sentences.map(async (sentence) =>
+        (await this.lengthFunction(sentence)) > this.chunkSize
+          ? oversized.splitText(sentence)
+          : [sentence],
+      ),
+    );
+    return this.mergeSplits(pieces.flat(), ' ');
+  }
+}
@@ -0,0 +1,103 @@
+import { Document } from '@langchain/core/documents';
+import { getEncoding } from 'js-tiktoken';
+import { loadHtml } from '../loaders/html.loader';
+import {
+  resolveChunkingOptions,
+  splitDocuments,
+} from './text-splitter.factory';
+
+describe('text splitter factory', () => {
+  const document = (pageContent: string) =>
+    new Document({ pageContent, metadata: { source: 'notes.md' } });
+
+  it('should fill defaults per strategy and reject invalid sizes', () => {
+    expect(resolveChunkingOptions()).toEqual({
+      strategy: 'recursive',
+      chunkSize: 1000,
+      chunkOverlap: 200,
+    });
+    expect(resolveChunkingOptions({ strategy: 'token' })).toEqual({
+      strategy: 'token',
+      chunkSize: 256,
+      chunkOverlap: 32,
+    });
+    expect(() =>
+      resolveChunkingOptions({ strategy: 'words' as never }),
+    ).toThrow('inconnue');
+    expect(() =>
+      resolveChunkingOptions({ chunkSize: 100, chunkOverlap: 100 }),
+    ).toThrow('chunkOverlap');
+  });
+
+  it('should keep whole sentences together', async () => {
+    const sentences = Array.from(
+      { length: 12 },
+      (_, index) => `Sentence number ${index} is complete.`,
+    );
+    const chunks = await splitDocuments([document(sentences.join(' '))], {
+      strategy: 'sentence',
+      chunkSize: 100,
+      chunkOverlap: 0,
+    });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.pageContent).toMatch(/^Sentence number \d+ .*complete\.$/);
+    }
+  });
+
+  it('should cut a sentence longer than the chunk size', async () => {
+    // Texte sans ponctuation : une seule « phrase » de 1 000 caractères
+    const chunks = await splitDocuments(
+      [document(`Short sentence. ${'word '.repeat(200)}`)],
+      { strategy: 'sentence', chunkSize: 100, chunkOverlap: 0 },
+    );
+
+    expect(chunks.length).toBeGreaterThan(5);
+    for (const chunk of chunks) {
+      expect(chunk.pageContent.length).toBeLessThanOrEqual(100);
+    }
+    expect(chunks[0].pageContent).toBe('Short sentence.');
+  });
+
+  it('should measure token chunks in tokens', async () => {
+    const encoding = getEncoding('cl100k_base');
+    const chunks = await splitDocuments(
+      [document('tokenization '.repeat(200))],
+      { strategy: 'token', chunkSize: 50, chunkOverlap: 0 },
+    );
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(encoding.encode(chunk.pageContent).length).toBeLessThanOrEqual(50);
+    }
+  });
+
+  it('should split Markdown and HTML by section with the heading path', async () => {
+    const markdown = await splitDocuments(
+      [
+        document(
+          '# Guide\nIntro\n## Install\nRun npm install\n## Usage\nRun it',
+        ),
+      ],
+      { strategy: 'headers', chunkSize: 1000, chunkOverlap: 0 },
+    );
+    expect(markdown.map((chunk) => chunk.metadata.headings)).toEqual([
+      ['Guide'],
+      ['Guide', 'Install'],
+      ['Guide', 'Usage'],
+    ]);
+    expect(markdown[1].metadata.source).toBe('notes.md');
+
+    const html = await splitDocuments(
+      loadHtml(
+        '<body><h1>Guide</h1><p>Intro</p><h2>Install</h2><p>Run npm install</p></body>',
+      ),
+      { strategy: 'headers', chunkSize: 1000, chunkOverlap: 0 },
+    );
+    expect(html.map((chunk) => chunk.metadata.headings)).toEqual([
+      ['Guide'],
+      ['Guide', 'Install'],
+    ]);
+  });
+});
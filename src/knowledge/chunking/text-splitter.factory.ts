@@ -0,0 +1,112 @@
+import { Document } from '@langchain/core/documents';
+import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters';
+import { getEncoding } from 'js-tiktoken';
+import {
+  CHUNKING_STRATEGIES,
+  ChunkingOptions,
+} from '../interfaces/chunking-options.interface';
+import { loadMarkdown } from '../loaders/markdown.loader';
+import { SentenceTextSplitter } from './sentence-text.splitter';
+
+// Tailles par défaut : en tokens pour la stratégie token, en caractères sinon
+const DEFAULT_CHUNK_SIZES = {
+  recursive: { chunkSize: 1000, chunkOverlap: 200 },
+  token: { chunkSize: 256, chunkOverlap: 32 },
+  headers: { chunkSize: 1000, chunkOverlap: 200 },
+  sentence: { chunkSize: 1000, chunkOverlap: 200 },
+};
+
+const MIN_CHUNK_SIZE = 20;
+const MAX_CHUNK_SIZE = 8000;
+
+/**
+ * Complète les options de découpage avec les valeurs par défaut de la stratégie
+ * @throws Error si la stratégie ou les tailles sont invalides
+ */
+export function resolveChunkingOptions(
+  options: ChunkingOptions = {},
+): Required<ChunkingOptions> {
+  const strategy = options.strategy ?? 'recursive';
+  if (!CHUNKING_STRATEGIES.includes(strategy)) {
+    throw new Error(`Stratégie de découpage inconnue : ${strategy}`);
+  }
+
+  const { chunkSize, chunkOverlap } = {
+    ...DEFAULT_CHUNK_SIZES[strategy],
+    ...(options.chunkSize !== undefined && { chunkSize: options.chunkSize }),
+    ...(options.chunkOverlap !== undefined && {
+      chunkOverlap: options.chunkOverlap,
+    }),
+  };
+  if (
+    !Number.isInteger(chunkSize) ||
+    chunkSize < MIN_CHUNK_SIZE ||
+    chunkSize > MAX_CHUNK_SIZE
+  ) {
+    throw new Error(
+      `chunkSize doit être un entier entre ${MIN_CHUNK_SIZE} et ${MAX_CHUNK_SIZE}`,
+    );
+  }
+  if (
+    !Number.isInteger(chunkOverlap) ||
+    chunkOverlap < 0 ||
+    chunkOverlap >= chunkSize
+  ) {
+    throw new Error(
+      'chunkOverlap doit être un entier positif inférieur à chunkSize',
+    );
+  }
+
+  return { strategy, chunkSize, chunkOverlap };
+}
+
+/**
+ * Découpe des documents en chunks selon la stratégie choisie
+ * @param options options complètes, voir resolveChunkingOptions
+ */
+export async function splitDocuments(
+  documents: Document[],
+  options: Required<ChunkingOptions>,
+): Promise<Document[]> {
+  const { chunkSize, chunkOverlap } = options;
+
+  switch (options.strategy) {
+    case 'recursive':
+      return new RecursiveCharacterTextSplitter({
+        chunkSize,
+        chunkOverlap,
+      }).splitDocuments(documents);
+    case 'token': {
+      // Mêmes points de coupe que recursive, tailles mesurées en tokens
+      // Encodage embarqué par js-tiktoken : aucun téléchargement au démarrage
+      const encoding = getEncoding('cl100k_base');
+      return new RecursiveCharacterTextSplitter({
+        chunkSize,
+        chunkOverlap,
+        lengthFunction: (text) => encoding.encode(text).length,
+      }).splitDocuments(documents);
+    }
+    case 'headers': {
+      // Une section par titre, puis découpage de chaque section sans mélanger deux sections
+      // Le chemin des titres déjà posé par le loader Markdown est conservé
+      const sections = documents.flatMap((document) =>
+        loadMarkdown(document.pageContent).map(
+          (section) =>
+            new Document({
+              pageContent: section.pageContent,
+              metadata: { ...section.metadata, ...document.metadata },
+            }),
+        ),
+      );
+      return RecursiveCharacterTextSplitter.fromLanguage('markdown', {
+        chunkSize,
+        chunkOverlap,
+      }).splitDocuments(sections);
+    }
+    case 'sentence':
+      return new SentenceTextSplitter({
+        chunkSize,
+        chunkOverlap,
+      }).splitDocuments(documents);
+  }
+}
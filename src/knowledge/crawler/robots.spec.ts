@@ -0,0 +1,30 @@
+import { parseRobots } from './robots';
+
+describe('parseRobots', () => {
+  const robotsTxt = [
+    'User-agent: *',
+    'Disallow: /private/',
+    'Allow: /private/public',
+    'Disallow: /*.pdf$',
+    '',
+    'User-agent: RagAndWebSearchAgent',
+    'Disallow: /drafts/',
+  ].join('\n');
+
+  it('should apply the most specific rule of the wildcard group', () => {
+    const isAllowed = parseRobots(robotsTxt, 'OtherBot');
+
+    expect(isAllowed('/docs')).toBe(true);
+    expect(isAllowed('/private/secret')).toBe(false);
+    expect(isAllowed('/private/public/page')).toBe(true);
+    expect(isAllowed('/files/report.pdf')).toBe(false);
+    expect(isAllowed('/files/report.pdf.html')).toBe(true);
+  });
+
+  it('should prefer the group of the matching user-agent', () => {
+    const isAllowed = parseRobots(robotsTxt, 'RagAndWebSearchAgent');
+
+    expect(isAllowed('/drafts/page')).toBe(false);
+    expect(isAllowed('/private/secret')).toBe(true);
+  });
+});
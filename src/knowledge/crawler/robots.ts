@@ -0,0 +1,77 @@
+interface RobotsRule {
+  allow: boolean;
+  pattern: RegExp;
+  // Longueur du motif : la règle la plus précise l'emporte
+  length: number;
+}
+
+/**
+ * Convertit un chemin robots.txt ("*" joker, "$" fin d'URL) en expression régulière
+ */
+function toPattern(path: string): RegExp {
+  const anchored = path.endsWith('$');
+  const body = (anchored ? path.slice(0, -1) : path)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Lit un robots.txt et retourne la fonction qui indique si un chemin peut être exploré
+ * Applique le groupe du user-agent donné s'il existe, sinon le groupe "*"
+ * @param robotsTxt contenu du fichier robots.txt
+ * @param userAgent nom du robot
+ */
+export function parseRobots(
+  robotsTxt: string,
+  userAgent: string,
+): (path: string) => boolean {
+  const groups = new Map<string, RobotsRule[]>();
+  let agents: string[] = [];
+  let readingAgents = false;
+
+  for (const rawLine of robotsTxt.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Plusieurs lignes User-agent consécutives partagent les mêmes règles
+      if (!readingAgents) agents = [];
+      agents.push(value.toLowerCase());
+      readingAgents = true;
+      continue;
+    }
+    readingAgents = false;
+
+    if ((field === 'allow' || field === 'disallow') && value) {
+      for (const agent of agents) {
+        if (!groups.has(agent)) groups.set(agent, []);
+        groups.get(agent).push({
+          allow: field === 'allow',
+          pattern: toPattern(value),
+          length: value.length,
+        });
+      }
+    }
+  }
+
+  const name = userAgent.toLowerCase();
+  const agent = [...groups.keys()].find(
+    (key) => key !== '*' && name.includes(key),
+  );
+  const rules = groups.get(agent ?? '*') ?? [];
+
+  return (path: string) => {
+    const match = rules
+      .filter((rule) => rule.pattern.test(path))
+      // À longueur égale, Allow l'emporte
+      .sort(
+        (a, b) => b.length - a.length || Number(b.allow) - Number(a.allow),
+      )[0];
+    return match?.allow ?? true;
+  };
+}
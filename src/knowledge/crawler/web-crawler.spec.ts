@@ -0,0 +1,164 @@
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { CrawledPage, crawl } from './web-crawler';
+
+// Petit site servi en local : pages liées entre elles, robots.txt et sitemap
+const page = (title: string, body: string) =>
+  `<html><head><title>${title}</title></head><body>
+    <nav><a href="/">Accueil</a> <a href="/docs/intro">Docs</a></nav>
+    <main>${body}</main>
+    <footer>Copyright</footer>
+  </body></html>`;
+
+const SITE: Record<string, string> = {
+  '/': page(
+    'Accueil',
+    '<p>Bienvenue</p><a href="/docs/intro">Intro</a> <a href="/blog/news">News</a> <a href="https://elsewhere.test/">Ailleurs</a>',
+  ),
+  '/docs/intro': page(
+    'Intro',
+    '<p>Introduction</p><a href="/docs/advanced#top">Avancé</a> <a href="/private/secret">Secret</a>',
+  ),
+  '/docs/advanced': page('Avancé', '<p>Contenu avancé</p>'),
+  '/blog/news': page('News', '<p>Nouveautés</p>'),
+  '/private/secret': page('Secret', '<p>Ne pas indexer</p>'),
+  // Liens redirigés, sans la navigation commune
+  '/docs/links':
+    '<html><head><title>Liens</title></head><body>' +
+    '<a href="/docs/moved">Déplacé</a> <a href="/docs/away">Ailleurs</a> ' +
+    '<a href="/docs/escape">Blog</a> <a href="/docs/hidden">Privé</a> ' +
+    '<a href="/docs/huge">Énorme</a></body></html>',
+  '/docs/huge': page('Énorme', `<p>${'x'.repeat(6 * 1024 * 1024)}</p>`),
+};
+
+// Index de sitemaps qui se citent eux-mêmes ou l'un l'autre, avec un sitemap
+// d'un autre domaine et un sitemap interdit par robots.txt
+const SITEMAP_INDEXES: Record<string, string[]> = {
+  '/sitemap-index.xml': [
+    '/sitemap-index.xml',
+    '/sitemap-loop.xml',
+    'https://elsewhere.test/sitemap.xml',
+    '/private/sitemap.xml',
+  ],
+  '/sitemap-loop.xml': ['/sitemap-index.xml', '/sitemap.xml'],
+};
+
+// Redirections vers une page du site ou d'un autre domaine
+const REDIRECTS: Record<string, string> = {
+  '/docs/moved': '/docs/advanced',
+  '/docs/away': 'https://elsewhere.test/',
+  '/docs/escape': '/blog/news',
+  '/docs/hidden': '/private/secret',
+};
+
+describe('crawl', () => {
+  let server: Server;
+  let origin: string;
+
+  const collect = async (options: Parameters<typeof crawl>[0]) => {
+    const pages: CrawledPage[] = [];
+    for await (const crawled of crawl(options)) pages.push(crawled);
+    return pages;
+  };
+  const paths = (pages: CrawledPage[]) =>
+    pages.map((crawled) => new URL(crawled.url).pathname);
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      if (req.url === '/robots.txt') {
+        res.writeHead(200, { 'Content-Type': 'text/plain' });
+        res.end('User-agent: *\nDisallow: /private/\n');
+      } else if (req.url === '/sitemap.xml') {
+        res.writeHead(200, { 'Content-Type': 'application/xml' });
+        res.end(
+          `<?xml version="1.0"?><urlset><url><loc>${origin}/blog/news</loc></url><url><loc>${origin}/docs/advanced</loc></url></urlset>`,
+        );
+      } else if (SITEMAP_INDEXES[req.url]) {
+        res.writeHead(200, { 'Content-Type': 'application/xml' });
+        res.end(
+          `<?xml version="1.0"?><sitemapindex>${SITEMAP_INDEXES[req.url]
+            .map(
+              (loc) => `<sitemap><loc>${new URL(loc, origin)}</loc></sitemap>`,
+            )
+            .join('')}</sitemapindex>`,
+        );
+      } else if (REDIRECTS[req.url]) {
+        res.writeHead(302, { Location: REDIRECTS[req.url] });
+        res.end();
+      } else if (SITE[req.url]) {
+        res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+        res.end(SITE[req.url]);
+      } else {
+        res.writeHead(404);
+        res.end();
+      }
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should follow same-domain links, respect robots.txt and strip boilerplate', async () => {
+    const pages = await collect({ url: `${origin}/` });
+
+    expect(paths(pages)).toEqual([
+      '/',
+      '/docs/intro',
+      '/blog/news',
+      '/docs/advanced',
+    ]);
+    expect(pages[1]).toMatchObject({ title: 'Intro', depth: 1 });
+    expect(pages[1].text).toContain('Introduction');
+    expect(pages[1].text).not.toContain('Copyright');
+    expect(pages[1].text).not.toContain('Accueil');
+  });
+
+  it('should apply depth, page and path prefix limits', async () => {
+    expect(paths(await collect({ url: `${origin}/`, maxDepth: 0 }))).toEqual([
+      '/',
+    ]);
+    expect(await collect({ url: `${origin}/`, maxPages: 2 })).toHaveLength(2);
+    expect(
+      paths(
+        await collect({
+          url: `${origin}/docs/intro`,
+          pathPrefixes: ['/docs/'],
+        }),
+      ),
+    ).toEqual(['/docs/intro', '/docs/advanced']);
+  });
+
+  it('should start from the pages listed in a sitemap', async () => {
+    const pages = await collect({ url: `${origin}/sitemap.xml`, maxDepth: 0 });
+
+    expect(paths(pages)).toEqual(['/blog/news', '/docs/advanced']);
+  });
+
+  it('should read each sitemap of an index once and skip sitemaps out of scope', async () => {
+    const pages = await collect({
+      url: `${origin}/sitemap-index.xml`,
+      maxDepth: 0,
+    });
+
+    expect(paths(pages)).toEqual(['/blog/news', '/docs/advanced']);
+  });
+
+  it('should check every redirect and skip oversized pages', async () => {
+    const links = { url: `${origin}/docs/links`, maxDepth: 1 };
+
+    // Hors du préfixe de chemin, d'un autre domaine ou interdit par robots.txt : ignoré
+    expect(
+      paths(await collect({ ...links, pathPrefixes: ['/docs/'] })),
+    ).toEqual(['/docs/links', '/docs/advanced']);
+    expect(paths(await collect(links))).toEqual([
+      '/docs/links',
+      '/docs/advanced',
+      '/blog/news',
+    ]);
+  });
+});
@@ -0,0 +1,270 @@
+import * as cheerio from 'cheerio';
+import { extractHtml } from '../loaders/html.loader';
+import { readLimited } from '../../common/read-limited';
+import { parseRobots } from './robots';
+
+// Nom du robot, utilisé pour les requêtes et les règles robots.txt
+export const CRAWLER_USER_AGENT = 'RagAndWebSearchAgent';
+
+// Délai maximum par requête
+const FETCH_TIMEOUT_MS = 10_000;
+// Taille maximum lue d'une page (plus grande : ignorée), d'un sitemap et d'un robots.txt
+const MAX_PAGE_BYTES = 5 * 1024 * 1024;
+const MAX_SITEMAP_BYTES = 10 * 1024 * 1024;
+const MAX_ROBOTS_BYTES = 500 * 1024;
+// Redirections suivies au maximum pour une page ou un sitemap, chacune vérifiée comme un lien
+const MAX_REDIRECTS = 5;
+// Niveaux d'index de sitemaps suivis au maximum sous le sitemap de départ
+const MAX_SITEMAP_DEPTH = 3;
+
+export interface CrawlOptions {
+  // Page de départ, ou sitemap (URL terminée par .xml)
+  url: string;
+  // Profondeur maximale de liens suivis depuis le départ, 2 par défaut
+  maxDepth?: number;
+  // Nombre maximum de pages retournées, 50 par défaut
+  maxPages?: number;
+  // Domaines autorisés, domaine de départ par défaut
+  allowedDomains?: string[];
+  // Préfixes de chemin autorisés (ex : "/docs/"), tous par défaut
+  pathPrefixes?: string[];
+  // Respect du robots.txt de chaque domaine, true par défaut
+  respectRobots?: boolean;
+}
+
+export interface CrawledPage {
+  url: string;
+  title: string;
+  // Texte de la page, sans navigation ni pied de page
+  text: string;
+  depth: number;
+}
+
+/**
+ * Requête du robot ; les redirections des pages et des sitemaps sont suivies une à une par crawl()
+ */
+const fetchWithTimeout = (url: string, redirect: RequestRedirect = 'follow') =>
+  fetch(url, {
+    headers: { 'User-Agent': CRAWLER_USER_AGENT },
+    redirect,
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  });
+
+/**
+ * Normalise une URL pour éviter de visiter deux fois la même page
+ * @returns l'URL sans fragment, ou undefined si ce n'est pas une URL http(s)
+ */
+function normalizeUrl(href: string, base?: string): string | undefined {
+  try {
+    const url = new URL(href, base);
+    if (!['http:', 'https:'].includes(url.protocol)) return undefined;
+    url.hash = '';
+    return url.toString();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Explore un site en largeur à partir d'une page ou d'un sitemap
+ * Suit les liens des domaines et chemins autorisés jusqu'à la profondeur et au nombre
+ * de pages maximum
+ * @returns les pages HTML explorées, au fil de l'exploration
+ */
+export async function* crawl(
+  options: CrawlOptions,
+): AsyncGenerator<CrawledPage> {
+  const {
+    url,
+    maxDepth = 2,
+    maxPages = 50,
+    pathPrefixes,
+    respectRobots = true,
+  } = options;
+  const seed = normalizeUrl(url);
+  if (!seed) throw new Error(`URL de départ invalide : ${url}`);
+  const allowedDomains = options.allowedDomains?.length
+    ? options.allowedDomains.map((domain) => domain.toLowerCase())
+    : [new URL(seed).hostname];
+
+  // Règles robots.txt, chargées une fois par origine
+  const robots = new Map<string, Promise<(path: string) => boolean>>();
+  const isAllowedByRobots = (target: URL) => {
+    if (!robots.has(target.origin)) {
+      robots.set(
+        target.origin,
+        fetchWithTimeout(`${target.origin}/robots.txt`)
+          .then(async (response) =>
+            response.ok
+              ? parseRobots(
+                  (await readLimited(response, MAX_ROBOTS_BYTES)).body,
+                  CRAWLER_USER_AGENT,
+                )
+              : () => true,
+          )
+          // robots.txt absent ou inaccessible : tout est autorisé
+          .catch(() => () => true),
+      );
+    }
+    return robots
+      .get(target.origin)
+      .then((isAllowed) => isAllowed(target.pathname + target.search));
+  };
+
+  const isInScope = (target: URL) =>
+    allowedDomains.includes(target.hostname) &&
+    (!pathPrefixes?.length ||
+      pathPrefixes.some((prefix) => target.pathname.startsWith(prefix)));
+
+  const isAllowed = async (target: URL) =>
+    isInScope(target) && (!respectRobots || (await isAllowedByRobots(target)));
+
+  // Les préfixes de chemin filtrent les pages : un sitemap est souvent à la racine du site
+  const isSitemapAllowed = async (target: URL) =>
+    allowedDomains.includes(target.hostname) &&
+    (!respectRobots || (await isAllowedByRobots(target)));
+
+  /**
+   * Télécharge une page ou un sitemap en suivant ses redirections une à une : chaque
+   * destination doit rester autorisée (domaines, chemins pour une page, robots.txt)
+   * @returns la réponse et l'URL finale, ou undefined si une destination est refusée
+   */
+  const fetchInScope = async (
+    url: string,
+    allowed: (target: URL) => Promise<boolean> = isAllowed,
+  ): Promise<{ response: Response; url: string } | undefined> => {
+    let target = url;
+    for (let redirects = 0; ; redirects++) {
+      const response = await fetchWithTimeout(target, 'manual');
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) {
+        return { response, url: target };
+      }
+      await response.body?.cancel();
+      target = normalizeUrl(location, target);
+      if (
+        redirects >= MAX_REDIRECTS ||
+        !target ||
+        !(await allowed(new URL(target)))
+      ) {
+        return undefined;
+      }
+    }
+  };
+
+  // Sitemaps déjà lus : un index qui se cite lui-même, ou deux index qui se citent, sont lus une fois
+  const sitemaps = new Set<string>();
+
+  /**
+   * Lit les URLs d'un sitemap, en suivant les index de sitemaps jusqu'à MAX_SITEMAP_DEPTH
+   * Les sitemaps hors des domaines autorisés ou interdits par robots.txt sont ignorés
+   */
+  const readSitemap = async (
+    url: string,
+    maxUrls: number,
+    depth = 0,
+  ): Promise<string[]> => {
+    if (sitemaps.has(url) || depth > MAX_SITEMAP_DEPTH) return [];
+    sitemaps.add(url);
+    const fetched = (await isSitemapAllowed(new URL(url)))
+      ? await fetchInScope(url, isSitemapAllowed)
+      : undefined;
+    if (!fetched) {
+      if (depth === 0) throw new Error(`Sitemap non autorisé : ${url}`);
+      return [];
+    }
+    const { response } = fetched;
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new Error(`Sitemap inaccessible (${response.status}) : ${url}`);
+    }
+    // Sitemap redirigé vers un sitemap déjà lu
+    if (fetched.url !== url) {
+      if (sitemaps.has(fetched.url)) {
+        await response.body?.cancel();
+        return [];
+      }
+      sitemaps.add(fetched.url);
+    }
+    const { body, truncated } = await readLimited(response, MAX_SITEMAP_BYTES);
+    if (truncated) throw new Error(`Sitemap trop volumineux : ${url}`);
+    const $ = cheerio.load(body, { xml: true });
+
+    const urls: string[] = [];
+    if ($('sitemapindex').length > 0) {
+      for (const loc of $('sitemap > loc').toArray()) {
+        if (urls.length >= maxUrls) break;
+        const nested = normalizeUrl($(loc).text().trim(), fetched.url);
+        if (!nested) continue;
+        urls.push(
+          ...(await readSitemap(nested, maxUrls - urls.length, depth + 1)),
+        );
+      }
+    } else {
+      $('url > loc').each((_, loc) => {
+        urls.push($(loc).text().trim());
+      });
+    }
+    return urls.slice(0, maxUrls);
+  };
+
+  const seeds = new URL(seed).pathname.endsWith('.xml')
+    ? await readSitemap(seed, maxPages)
+    : [seed];
+
+  const visited = new Set<string>();
+  const queue = seeds
+    .map((href) => normalizeUrl(href))
+    .filter(Boolean)
+    .map((href) => ({ url: href, depth: 0 }));
+  let pages = 0;
+
+  while (queue.length > 0 && pages < maxPages) {
+    const current = queue.shift();
+    if (visited.has(current.url)) continue;
+    visited.add(current.url);
+
+    if (!(await isAllowed(new URL(current.url)))) continue;
+
+    let html: string;
+    let url: string;
+    try {
+      const fetched = await fetchInScope(current.url);
+      if (!fetched) continue;
+      const { response } = fetched;
+      url = fetched.url;
+      // Page redirigée vers une page déjà visitée
+      if (url !== current.url) {
+        if (visited.has(url)) {
+          await response.body?.cancel();
+          continue;
+        }
+        visited.add(url);
+      }
+      const contentType = response.headers.get('content-type') ?? '';
+      if (!response.ok || !contentType.includes('text/html')) {
+        await response.body?.cancel();
+        continue;
+      }
+      const { body, truncated } = await readLimited(response, MAX_PAGE_BYTES);
+      if (truncated) continue;
+      html = body;
+    } catch {
+      // Page inaccessible : on continue avec les suivantes
+      continue;
+    }
+
+    pages++;
+    yield { url, depth: current.depth, ...extractHtml(html) };
+
+    if (current.depth < maxDepth) {
+      const $ = cheerio.load(html);
+      $('a[href]').each((_, link) => {
+        const next = normalizeUrl($(link).attr('href'), url);
+        if (next && !visited.has(next)) {
+          queue.push({ url: next, depth: current.depth + 1 });
+        }
+      });
+    }
+  }
+}
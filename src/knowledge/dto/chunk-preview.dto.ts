@@ -0,0 +1,24 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsOptional, IsString, ValidateNested } from 'class-validator';
+import { parseJsonField } from '../../common/validation';
+import { ChunkingOptionsDto } from './chunking-options.dto';
+
+/**
+ * Aperçu du découpage d'un fichier (multipart) ou d'un texte brut
+ */
+export class ChunkPreviewDto {
+  @ApiPropertyOptional({ type: 'string', format: 'binary' })
+  file?: unknown;
+
+  @ApiPropertyOptional({ description: 'Texte à découper, sans fichier' })
+  @IsOptional()
+  @IsString()
+  text?: string;
+
+  @ApiPropertyOptional({ type: ChunkingOptionsDto })
+  @IsOptional()
+  @Transform(parseJsonField(ChunkingOptionsDto))
+  @ValidateNested()
+  chunking?: ChunkingOptionsDto;
+}
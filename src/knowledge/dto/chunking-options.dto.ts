@@ -0,0 +1,37 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsIn, IsInt, IsOptional, Min } from 'class-validator';
+import {
+  CHUNKING_STRATEGIES,
+  ChunkingOptions,
+  ChunkingStrategy,
+} from '../interfaces/chunking-options.interface';
+
+/**
+ * Options de découpage reçues de l'API ; les tailles selon la stratégie sont
+ * vérifiées par le service (INVALID_CHUNKING)
+ */
+export class ChunkingOptionsDto implements ChunkingOptions {
+  @ApiPropertyOptional({ enum: CHUNKING_STRATEGIES, default: 'recursive' })
+  @IsOptional()
+  @IsIn(CHUNKING_STRATEGIES)
+  strategy?: ChunkingStrategy;
+
+  @ApiPropertyOptional({
+    description:
+      "Taille maximum d'un chunk, en tokens pour la stratégie token, en caractères sinon",
+    example: 500,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  chunkSize?: number;
+
+  @ApiPropertyOptional({
+    description: 'Chevauchement entre deux chunks consécutifs',
+    example: 50,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  chunkOverlap?: number;
+}
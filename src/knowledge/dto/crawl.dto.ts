@@ -0,0 +1,80 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+  IsBoolean,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { IsFlatRecord, parseJsonField } from '../../common/validation';
+import { CrawlOptions } from '../crawler/web-crawler';
+import { MAX_CRAWL_DEPTH, MAX_CRAWL_PAGES } from '../knowledge.constants';
+import { MetadataValue } from '../search/metadata-filter';
+import { ChunkingOptionsDto } from './chunking-options.dto';
+
+/**
+ * Exploration d'un site : chaque page devient un document de la collection
+ */
+export class CrawlDto implements CrawlOptions {
+  @ApiProperty({
+    description: 'Page de départ, ou sitemap (URL terminée par .xml)',
+    example: 'https://docs.example.com/',
+  })
+  @IsUrl({ protocols: ['http', 'https'], require_tld: false })
+  url: string;
+
+  @ApiPropertyOptional({ minimum: 0, maximum: MAX_CRAWL_DEPTH, default: 2 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(MAX_CRAWL_DEPTH)
+  maxDepth?: number;
+
+  @ApiPropertyOptional({ minimum: 1, maximum: MAX_CRAWL_PAGES, default: 50 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_CRAWL_PAGES)
+  maxPages?: number;
+
+  @ApiPropertyOptional({
+    type: [String],
+    description: 'Domaines autorisés, domaine de départ par défaut',
+  })
+  @IsOptional()
+  @IsString({ each: true })
+  allowedDomains?: string[];
+
+  @ApiPropertyOptional({
+    type: [String],
+    description: 'Préfixes de chemin autorisés, ex : "/docs/"',
+  })
+  @IsOptional()
+  @IsString({ each: true })
+  pathPrefixes?: string[];
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  respectRobots?: boolean;
+
+  @ApiPropertyOptional({
+    type: 'object',
+    additionalProperties: true,
+    example: { team: 'billing' },
+  })
+  @IsOptional()
+  @Transform(parseJsonField())
+  @IsFlatRecord()
+  tags?: Record<string, MetadataValue>;
+
+  @ApiPropertyOptional({ type: ChunkingOptionsDto })
+  @IsOptional()
+  @Transform(parseJsonField(ChunkingOptionsDto))
+  @ValidateNested()
+  chunking?: ChunkingOptionsDto;
+}
@@ -0,0 +1,71 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import {
+  SEARCH_MODES,
+  SearchMode,
+  SearchOptions,
+} from '../interfaces/search-options.interface';
+import { MAX_SEARCH_RESULTS } from '../knowledge.constants';
+import { MetadataFilter } from '../search/metadata-filter';
+
+/**
+ * Recherche dans une collection ; la forme du filtre est vérifiée par le service (INVALID_FILTER)
+ */
+export class SearchDto implements SearchOptions {
+  @ApiProperty({ example: 'Comment annuler un abonnement ?' })
+  @IsString()
+  @IsNotEmpty()
+  query: string;
+
+  @ApiPropertyOptional({ enum: SEARCH_MODES, default: 'hybrid' })
+  @IsOptional()
+  @IsIn(SEARCH_MODES)
+  mode?: SearchMode;
+
+  @ApiPropertyOptional({ minimum: 1, maximum: MAX_SEARCH_RESULTS, default: 3 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_SEARCH_RESULTS)
+  k?: number;
+
+  @ApiPropertyOptional({
+    type: 'object',
+    additionalProperties: true,
+    description: 'Conditions sur les metadata des chunks',
+    example: { team: 'billing', version: { in: ['2.3', '2.4'] } },
+  })
+  @IsOptional()
+  @IsObject()
+  filter?: MetadataFilter;
+
+  @ApiPropertyOptional({
+    description: 'Re-classement des candidats, true par défaut',
+  })
+  @IsOptional()
+  @IsBoolean()
+  rerank?: boolean;
+
+  @ApiPropertyOptional({
+    minimum: 0,
+    maximum: 1,
+    description:
+      'Score de pertinence minimum après re-classement (par défaut RERANK_THRESHOLD avec RERANK_SCORER=llm, aucun seuil avec le scorer lexical)',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  threshold?: number;
+}
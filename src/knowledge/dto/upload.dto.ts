@@ -0,0 +1,44 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsArray, IsOptional, IsUrl, ValidateNested } from 'class-validator';
+import { IsFlatRecord, parseJsonField } from '../../common/validation';
+import { MetadataValue } from '../search/metadata-filter';
+import { ChunkingOptionsDto } from './chunking-options.dto';
+
+/**
+ * Upload de documents, en multipart : fichiers et URLs à ingérer, avec leurs tags
+ * et options de découpage (champs JSON)
+ */
+export class UploadDto {
+  @ApiPropertyOptional({
+    type: 'array',
+    items: { type: 'string', format: 'binary' },
+    description: 'Fichiers à ingérer (10 maximum, 10 Mo chacun)',
+  })
+  files?: unknown[];
+
+  @ApiPropertyOptional({ type: [String], example: ['https://example.com'] })
+  @IsOptional()
+  // En multipart, une seule URL arrive sous forme de chaîne
+  @Transform(({ value }) => (typeof value === 'string' ? [value] : value))
+  @IsArray()
+  @IsUrl({ require_tld: false }, { each: true })
+  urls?: string[];
+
+  @ApiPropertyOptional({
+    type: 'object',
+    additionalProperties: true,
+    description: 'Tags ajoutés aux metadata des chunks',
+    example: { team: 'billing' },
+  })
+  @IsOptional()
+  @Transform(parseJsonField())
+  @IsFlatRecord()
+  tags?: Record<string, MetadataValue>;
+
+  @ApiPropertyOptional({ type: ChunkingOptionsDto })
+  @IsOptional()
+  @Transform(parseJsonField(ChunkingOptionsDto))
+  @ValidateNested()
+  chunking?: ChunkingOptionsDto;
+}
@@ -0,0 +1,146 @@
+import { FakeEmbeddings } from '@langchain/core/utils/testing';
+import { CachedEmbeddings } from './cached-embeddings';
+import { MemoryEmbeddingCache } from './memory-embedding.cache';
+
+describe('CachedEmbeddings', () => {
+  const options = {
+    batchSize: 2,
+    concurrency: 2,
+    maxRetries: 2,
+    retryDelayMs: 1,
+    queryCacheSize: 2,
+  };
+  let provider: FakeEmbeddings;
+  let cache: MemoryEmbeddingCache;
+
+  beforeEach(() => {
+    provider = new FakeEmbeddings();
+    cache = new MemoryEmbeddingCache();
+  });
+
+  it('should only embed texts missing from the cache, in batches', async () => {
+    const embedDocuments = jest.spyOn(provider, 'embedDocuments');
+    const embeddings = new CachedEmbeddings(provider, cache, 'fake:a', options);
+
+    await embeddings.embedDocuments(['one', 'two', 'three']);
+    const vectors = await embeddings.embedDocuments(['two', 'four', 'two']);
+
+    expect(vectors).toHaveLength(3);
+    expect(embedDocuments.mock.calls.map(([texts]) => texts)).toEqual([
+      ['one', 'two'],
+      ['three'],
+      ['four'],
+    ]);
+    expect(embeddings.getStats()).toMatchObject({
+      hits: 2,
+      misses: 4,
+      batches: 3,
+      entries: 4,
+    });
+  });
+
+  it('should keep the entries of each model apart', async () => {
+    const embedQuery = jest.spyOn(provider, 'embedQuery');
+
+    await new CachedEmbeddings(provider, cache, 'fake:a', options).embedQuery(
+      'query',
+    );
+    await new CachedEmbeddings(provider, cache, 'fake:b', options).embedQuery(
+      'query',
+    );
+
+    expect(embedQuery).toHaveBeenCalledTimes(2);
+  });
+
+  it('should retry rate-limited calls with backoff', async () => {
+    jest
+      .spyOn(provider, 'embedDocuments')
+      .mockRejectedValueOnce(
+        Object.assign(new Error('Too many'), { status: 429 }),
+      )
+      .mockResolvedValueOnce([[1, 2]]);
+    const embeddings = new CachedEmbeddings(provider, cache, 'fake:a', options);
+
+    expect(await embeddings.embedDocuments(['one'])).toEqual([[1, 2]]);
+    expect(embeddings.getStats().retries).toBe(1);
+  });
+
+  it('should not retry a rejected request', async () => {
+    const embedDocuments = jest
+      .spyOn(provider, 'embedDocuments')
+      .mockRejectedValue(
+        Object.assign(new Error('Bad input'), { status: 400 }),
+      );
+    const embeddings = new CachedEmbeddings(provider, cache, 'fake:a', options);
+
+    await expect(embeddings.embedDocuments(['one'])).rejects.toThrow(
+      'Bad input',
+    );
+    expect(embedDocuments).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep only the most recent queries, without persisting them', async () => {
+    const embedQuery = jest.spyOn(provider, 'embedQuery');
+    const persist = jest.spyOn(cache, 'persist');
+    const embeddings = new CachedEmbeddings(provider, cache, 'fake:a', options);
+
+    for (const query of ['one', 'two', 'one', 'three', 'one', 'two']) {
+      await embeddings.embedQuery(query);
+    }
+
+    // "two" est évincée par "three", "one" reste grâce à ses utilisations
+    expect(embedQuery.mock.calls.map(([query]) => query)).toEqual([
+      'one',
+      'two',
+      'three',
+      'two',
+    ]);
+    expect(persist).not.toHaveBeenCalled();
+    expect(embeddings.getStats().entries).toBe(2);
+  });
+
+  it('should not retry errors that are neither network nor server errors', async () => {
+    const embedDocuments = jest
+      .spyOn(provider, 'embedDocuments')
+      .mockRejectedValueOnce(
+        Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }),
+      )
+      .mockRejectedValue(new TypeError('Cannot read properties of undefined'));
+    const embeddings = new CachedEmbeddings(provider, cache, 'fake:a', options);
+
+    await expect(embeddings.embedDocuments(['one'])).rejects.toThrow(TypeError);
+    expect(embedDocuments).toHaveBeenCalledTimes(2);
+  });
+
+  it('should start with an empty cache when it cannot be loaded', async () => {
+    jest.spyOn(cache, 'load').mockRejectedValue(new Error('Unexpected token'));
+    const embedDocuments = jest.spyOn(provider, 'embedDocuments');
+    const embeddings = new CachedEmbeddings(provider, cache, 'fake:a', options);
+
+    expect(await embeddings.embedDocuments(['one'])).toHaveLength(1);
+    expect(embedDocuments).toHaveBeenCalledTimes(1);
+  });
+
+  it('should forget the least recently used vectors past the size limit', async () => {
+    const embedDocuments = jest.spyOn(provider, 'embedDocuments');
+    const embeddings = new CachedEmbeddings(
+      provider,
+      new MemoryEmbeddingCache(2),
+      'fake:a',
+      options,
+    );
+
+    await embeddings.embedDocuments(['one', 'two']);
+    await embeddings.embedDocuments(['one']);
+    await embeddings.embedDocuments(['three']);
+    await embeddings.embedDocuments(['one', 'two']);
+
+    // "two", le moins récemment utilisé, est oublié à l'ajout de "three"
+    expect(embedDocuments.mock.calls.map(([texts]) => texts)).toEqual([
+      ['one', 'two'],
+      ['three'],
+      ['two'],
+    ]);
+    expect(embeddings.getStats().entries).toBe(2);
+  });
+});
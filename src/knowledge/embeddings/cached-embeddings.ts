@@ -0,0 +1,205 @@
+import { EmbeddingsInterface } from '@langchain/core/embeddings';
+import { Logger } from '@nestjs/common';
+import { createHash } from 'node:crypto';
+import { withRetry } from '../../common/retry';
+import {
+  EmbeddingBatchOptions,
+  EmbeddingCacheStats,
+} from '../interfaces/embedding-cache-stats.interface';
+import { MemoryEmbeddingCache } from './memory-embedding.cache';
+
+// Erreurs réseau (Node et undici) sans réponse du fournisseur
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EPIPE',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT',
+]);
+
+// Délais dépassés et erreurs de connexion des clients des fournisseurs
+const TRANSIENT_ERROR_NAMES = new Set([
+  'AbortError',
+  'TimeoutError',
+  'APIConnectionError',
+  'APIConnectionTimeoutError',
+]);
+
+/**
+ * Erreur qui justifie une nouvelle tentative : limite de débit (429), erreur serveur,
+ * erreur réseau ou délai dépassé ; les autres erreurs (requête refusée, bug) sont définitives
+ */
+function isRetryable(error: {
+  status?: number;
+  code?: string;
+  name?: string;
+  cause?: { code?: string };
+}): boolean {
+  if (typeof error?.status === 'number') {
+    return error.status === 429 || error.status >= 500;
+  }
+  return (
+    NETWORK_ERROR_CODES.has(error?.code ?? error?.cause?.code) ||
+    TRANSIENT_ERROR_NAMES.has(error?.name)
+  );
+}
+
+/**
+ * Applique une fonction asynchrone à chaque élément, avec au plus `limit` appels simultanés
+ * @returns résultats dans l'ordre des éléments
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker),
+  );
+  return results;
+}
+
+/**
+ * Modèle d'embeddings avec cache par empreinte du contenu et du modèle :
+ * un texte déjà vectorisé par ce modèle n'est plus envoyé au fournisseur
+ * Les textes manquants sont envoyés par lots, en parallèle limité,
+ * avec nouvelles tentatives et délai exponentiel
+ * Les requêtes de recherche restent en mémoire, dans un cache borné :
+ * les sauvegarder réécrirait tout le cache à chaque recherche
+ */
+export class CachedEmbeddings implements EmbeddingsInterface {
+  private readonly logger = new Logger(CachedEmbeddings.name);
+  private readonly ready: Promise<void>;
+  // Vecteurs des requêtes, du moins récemment utilisé au plus récent
+  private readonly queries = new Map<string, number[]>();
+  private hits = 0;
+  private misses = 0;
+  private batches = 0;
+  private retries = 0;
+
+  /**
+   * @param embeddings modèle d'embeddings du fournisseur
+   * @param cache cache des vecteurs, chargé dès la création ; s'il est illisible,
+   * l'erreur est journalisée et le cache démarre vide
+   * @param model identifiant du modèle (fournisseur:modèle), inclus dans les clés du cache
+   */
+  constructor(
+    private readonly embeddings: EmbeddingsInterface,
+    private readonly cache: MemoryEmbeddingCache,
+    private readonly model: string,
+    private readonly options: EmbeddingBatchOptions,
+  ) {
+    // Erreur captée ici : attendue seulement au premier appel, elle serait non gérée au démarrage
+    this.ready = this.cache.load().catch((error) => {
+      this.logger.error(
+        `Cache des embeddings illisible (${error.message}) : démarrage avec un cache vide`,
+      );
+    });
+  }
+
+  /**
+   * Clé du cache : une requête peut être vectorisée autrement qu'un document
+   */
+  private key(kind: 'document' | 'query', text: string): string {
+    return createHash('sha256')
+      .update(`${this.model}\u0000${kind}\u0000${text}`)
+      .digest('hex');
+  }
+
+  async embedDocuments(documents: string[]): Promise<number[][]> {
+    await this.ready;
+    const keys = documents.map((text) => this.key('document', text));
+
+    // Textes absents du cache, une seule fois chacun
+    const missing = new Map<string, string>();
+    keys.forEach((key, index) => {
+      if (!this.cache.get(key)) missing.set(key, documents[index]);
+    });
+    this.misses += missing.size;
+    this.hits += documents.length - missing.size;
+
+    if (missing.size > 0) {
+      const entries = [...missing.entries()];
+      const batches: [string, string][][] = [];
+      for (let i = 0; i < entries.length; i += this.options.batchSize) {
+        batches.push(entries.slice(i, i + this.options.batchSize));
+      }
+      await mapWithConcurrency(
+        batches,
+        this.options.concurrency,
+        async (batch) => {
+          const vectors = await this.call(() =>
+            this.embeddings.embedDocuments(batch.map(([, text]) => text)),
+          );
+          batch.forEach(([key], index) => this.cache.set(key, vectors[index]));
+        },
+      );
+      await this.cache.persist();
+    }
+    return keys.map((key) => this.cache.get(key));
+  }
+
+  async embedQuery(document: string): Promise<number[]> {
+    await this.ready;
+    const key = this.key('query', document);
+    const cached = this.queries.get(key);
+    if (cached) {
+      this.hits++;
+      // Replacée en fin de Map : la plus récemment utilisée
+      this.queries.delete(key);
+      this.queries.set(key, cached);
+      return cached;
+    }
+    this.misses++;
+    const vector = await this.call(() => this.embeddings.embedQuery(document));
+    this.queries.set(key, vector);
+    if (this.queries.size > this.options.queryCacheSize) {
+      this.queries.delete(this.queries.keys().next().value);
+    }
+    return vector;
+  }
+
+  /**
+   * Appel au fournisseur, retenté avec délai exponentiel sur les erreurs passagères
+   */
+  private call<T>(operation: () => Promise<T>): Promise<T> {
+    this.batches++;
+    return withRetry(operation, {
+      maxRetries: this.options.maxRetries,
+      initialDelayMs: this.options.retryDelayMs,
+      isRetryable,
+      onRetry: (error, attempt, delayMs) => {
+        this.retries++;
+        this.logger.warn(
+          `Embeddings en erreur (${error.message}), tentative ${attempt} dans ${delayMs} ms`,
+        );
+      },
+    });
+  }
+
+  getStats(): EmbeddingCacheStats {
+    const total = this.hits + this.misses;
+    return {
+      model: this.model,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: total === 0 ? 0 : this.hits / total,
+      batches: this.batches,
+      retries: this.retries,
+      entries: this.cache.size + this.queries.size,
+    };
+  }
+}
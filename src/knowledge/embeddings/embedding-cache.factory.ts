@@ -0,0 +1,85 @@
+import { ConfigService } from '@nestjs/config';
+import { ProvidersService } from '../../providers/providers.service';
+import { CachedEmbeddings } from './cached-embeddings';
+import { FileEmbeddingCache } from './file-embedding.cache';
+import { MemoryEmbeddingCache } from './memory-embedding.cache';
+
+// Backends disponibles pour le cache des embeddings
+export type EmbeddingCacheBackend = 'memory' | 'file';
+
+// Réglage entier de la configuration, au moins égal à min
+function integerSetting(
+  configService: ConfigService,
+  key: string,
+  defaultValue: string,
+  min: number,
+): number {
+  const value = Number(configService.get<string>(key, defaultValue));
+  if (!Number.isInteger(value) || value < min) {
+    throw new Error(`${key} doit être un entier supérieur ou égal à ${min}`);
+  }
+  return value;
+}
+
+/**
+ * Crée le cache d'embeddings choisi par la variable EMBEDDING_CACHE_BACKEND,
+ * limité à EMBEDDING_CACHE_MAX_ENTRIES vecteurs
+ * @param configService configuration de l'application
+ * @returns cache, à charger avec load() avant utilisation
+ */
+export function createEmbeddingCache(
+  configService: ConfigService,
+): MemoryEmbeddingCache {
+  const backend = configService.get<EmbeddingCacheBackend>(
+    'EMBEDDING_CACHE_BACKEND',
+    'file',
+  );
+
+  const maxEntries = integerSetting(
+    configService,
+    'EMBEDDING_CACHE_MAX_ENTRIES',
+    '10000',
+    1,
+  );
+
+  switch (backend) {
+    case 'memory':
+      return new MemoryEmbeddingCache(maxEntries);
+    case 'file':
+      return new FileEmbeddingCache(
+        configService.get<string>(
+          'EMBEDDING_CACHE_PATH',
+          './data/embedding-cache.jsonl',
+        ),
+        maxEntries,
+      );
+    default:
+      throw new Error(`Backend de cache d'embeddings inconnu : ${backend}`);
+  }
+}
+
+/**
+ * Crée le modèle d'embeddings de l'application, avec son cache et ses réglages d'appel
+ * (EMBEDDING_BATCH_SIZE, EMBEDDING_CONCURRENCY, EMBEDDING_MAX_RETRIES, EMBEDDING_RETRY_DELAY_MS,
+ * EMBEDDING_QUERY_CACHE_SIZE)
+ */
+export function createCachedEmbeddings(
+  configService: ConfigService,
+  providersService: ProvidersService,
+): CachedEmbeddings {
+  const setting = (key: string, defaultValue: string, min: number) =>
+    integerSetting(configService, key, defaultValue, min);
+
+  return new CachedEmbeddings(
+    providersService.createEmbeddings(),
+    createEmbeddingCache(configService),
+    providersService.getEmbeddingModelId(),
+    {
+      batchSize: setting('EMBEDDING_BATCH_SIZE', '100', 1),
+      concurrency: setting('EMBEDDING_CONCURRENCY', '2', 1),
+      maxRetries: setting('EMBEDDING_MAX_RETRIES', '3', 0),
+      retryDelayMs: setting('EMBEDDING_RETRY_DELAY_MS', '1000', 0),
+      queryCacheSize: setting('EMBEDDING_QUERY_CACHE_SIZE', '1000', 0),
+    },
+  );
+}
@@ -0,0 +1,70 @@
+import { appendFile, mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileEmbeddingCache } from './file-embedding.cache';
+
+describe('FileEmbeddingCache', () => {
+  let dir: string;
+  let filePath: string;
+
+  const lineCount = async () =>
+    (await readFile(filePath, 'utf-8')).trim().split('\n').length;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'embedding-cache-'));
+    filePath = join(dir, 'cache.jsonl');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should append new vectors and reload them on a new instance', async () => {
+    const cache = new FileEmbeddingCache(filePath);
+    await cache.load();
+    cache.set('a', [1, 2]);
+    await cache.persist();
+    cache.set('b', [3, 4]);
+    await cache.persist();
+
+    expect(await lineCount()).toBe(2);
+
+    const reloaded = new FileEmbeddingCache(filePath);
+    await reloaded.load();
+    expect(reloaded.get('a')).toEqual([1, 2]);
+    expect(reloaded.get('b')).toEqual([3, 4]);
+  });
+
+  it('should skip unreadable lines', async () => {
+    const cache = new FileEmbeddingCache(filePath);
+    cache.set('a', [1, 2]);
+    await cache.persist();
+    await appendFile(filePath, '{"key":"b","vec');
+
+    const reloaded = new FileEmbeddingCache(filePath);
+    await reloaded.load();
+
+    expect(reloaded.size).toBe(1);
+    expect(reloaded.get('a')).toEqual([1, 2]);
+  });
+
+  it('should rewrite the file once forgotten vectors fill half of it', async () => {
+    const cache = new FileEmbeddingCache(filePath, 2);
+    await cache.load();
+    for (const key of ['a', 'b', 'c']) {
+      cache.set(key, [1]);
+      await cache.persist();
+    }
+    expect(await lineCount()).toBe(3);
+
+    cache.set('d', [1]);
+    await cache.persist();
+    expect(await lineCount()).toBe(2);
+
+    const reloaded = new FileEmbeddingCache(filePath, 2);
+    await reloaded.load();
+    expect(reloaded.get('a')).toBeUndefined();
+    expect(reloaded.get('c')).toEqual([1]);
+    expect(reloaded.get('d')).toEqual([1]);
+  });
+});
@@ -0,0 +1,77 @@
+import { Logger } from '@nestjs/common';
+import {
+  appendJsonLines,
+  readJsonLines,
+  writeJsonLines,
+} from '../../common/json-file';
+import { MemoryEmbeddingCache } from './memory-embedding.cache';
+
+// Ligne du fichier : un vecteur et sa clé
+interface EmbeddingCacheLine {
+  key: string;
+  vector: number[];
+}
+
+/**
+ * Cache des embeddings sauvegardé dans un fichier JSON Lines sur le disque local
+ * Rechargé au démarrage : un contenu déjà vectorisé n'est plus envoyé au modèle
+ * Les nouveaux vecteurs sont ajoutés en fin de fichier ; le fichier n'est réécrit
+ * que lorsque les vecteurs oubliés (limite maxEntries) y occupent la moitié des lignes
+ */
+export class FileEmbeddingCache extends MemoryEmbeddingCache {
+  private readonly logger = new Logger(FileEmbeddingCache.name);
+  // Clés ajoutées depuis la dernière sauvegarde
+  private readonly pending = new Set<string>();
+  // Lignes du fichier, vecteurs oubliés compris
+  private lines = 0;
+
+  constructor(
+    private readonly filePath: string,
+    maxEntries?: number,
+  ) {
+    super(maxEntries);
+  }
+
+  async load(): Promise<void> {
+    const data = await readJsonLines<EmbeddingCacheLine>(this.filePath);
+    const lines = (data?.items ?? []).filter(
+      (line) => typeof line?.key === 'string' && Array.isArray(line.vector),
+    );
+    const skipped =
+      (data?.skipped ?? 0) + (data?.items.length ?? 0) - lines.length;
+    if (skipped > 0) {
+      this.logger.warn(
+        `${skipped} ligne(s) illisible(s) ignorée(s) dans ${this.filePath}`,
+      );
+    }
+
+    this.vectors = new Map();
+    lines.forEach(({ key, vector }) => super.set(key, vector));
+    this.lines = lines.length + skipped;
+  }
+
+  set(key: string, vector: number[]) {
+    super.set(key, vector);
+    this.pending.add(key);
+  }
+
+  async persist(): Promise<void> {
+    // Relevées tout de suite : une sauvegarde concurrente n'écrit pas deux fois les mêmes clés
+    const added = [...this.pending]
+      .filter((key) => this.vectors.has(key))
+      .map((key) => ({ key, vector: this.vectors.get(key) }));
+    this.pending.clear();
+    if (added.length === 0) return;
+
+    this.lines += added.length;
+    if (this.lines < 2 * this.vectors.size) {
+      await appendJsonLines(this.filePath, added);
+      return;
+    }
+    this.lines = this.vectors.size;
+    await writeJsonLines(
+      this.filePath,
+      [...this.vectors].map(([key, vector]) => ({ key, vector })),
+    );
+  }
+}
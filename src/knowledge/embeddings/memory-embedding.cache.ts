@@ -0,0 +1,46 @@
+/**
+ * Cache des embeddings en mémoire vive, par clé (empreinte du modèle et du texte)
+ * Sert de base aux autres backends : seuls le chargement et la sauvegarde changent
+ * Au-delà de maxEntries, les vecteurs les moins récemment utilisés sont oubliés
+ */
+export class MemoryEmbeddingCache {
+  // Vecteurs, du moins récemment utilisé au plus récent
+  protected vectors = new Map<string, number[]>();
+
+  /**
+   * @param maxEntries nombre maximum de vecteurs gardés (EMBEDDING_CACHE_MAX_ENTRIES)
+   */
+  constructor(protected readonly maxEntries = Number.POSITIVE_INFINITY) {}
+
+  /**
+   * Charge les embeddings existants (rien à charger en mémoire vive)
+   */
+  async load(): Promise<void> {}
+
+  /**
+   * Sauvegarde les embeddings (rien à sauvegarder en mémoire vive)
+   */
+  async persist(): Promise<void> {}
+
+  get(key: string): number[] | undefined {
+    const vector = this.vectors.get(key);
+    if (vector) {
+      // Replacé en fin de Map : le plus récemment utilisé
+      this.vectors.delete(key);
+      this.vectors.set(key, vector);
+    }
+    return vector;
+  }
+
+  set(key: string, vector: number[]) {
+    this.vectors.delete(key);
+    this.vectors.set(key, vector);
+    while (this.vectors.size > this.maxEntries) {
+      this.vectors.delete(this.vectors.keys().next().value);
+    }
+  }
+
+  get size(): number {
+    return this.vectors.size;
+  }
+}
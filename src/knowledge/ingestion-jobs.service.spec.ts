@@ -0,0 +1,115 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigModule } from '@nestjs/config';
+import { KnowledgeModule } from './knowledge.module';
+import { IngestionJobsService } from './ingestion-jobs.service';
+import { IngestionJob } from './interfaces/ingestion-job.interface';
+
+describe('IngestionJobsService', () => {
+  let module: TestingModule;
+  let ingestionJobsService: IngestionJobsService;
+
+  const file = (originalname: string, mimetype: string, content: string) =>
+    ({
+      originalname,
+      mimetype,
+      size: content.length,
+      buffer: Buffer.from(content),
+    }) as Express.Multer.File;
+
+  const waitForJob = async (id: string): Promise<IngestionJob> => {
+    let job = ingestionJobsService.get(id);
+    while (!job.finishedAt) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      job = ingestionJobsService.get(id);
+    }
+    return job;
+  };
+
+  beforeEach(async () => {
+    module = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({
+          isGlobal: true,
+          ignoreEnvFile: true,
+          load: [
+            () => ({
+              EMBEDDING_PROVIDER: 'fake',
+              VECTOR_STORE_BACKEND: 'memory',
+              EMBEDDING_CACHE_BACKEND: 'memory',
+            }),
+          ],
+        }),
+        KnowledgeModule,
+      ],
+    }).compile();
+
+    ingestionJobsService = module.get(IngestionJobsService);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await module.close();
+  });
+
+  it('should report each item and skip duplicate content', async () => {
+    const queued = ingestionJobsService.enqueue('default', [
+      file('a.txt', 'text/plain', 'same content'),
+      file('copy-of-a.txt', 'text/plain', 'same content'),
+      file('image.png', 'image/png', 'not text'),
+    ]);
+    expect(queued.finishedAt).toBeUndefined();
+
+    const job = await waitForJob(queued.id);
+
+    expect(job.status).toBe('partial');
+    expect(job.items.map((item) => item.status)).toEqual([
+      'done',
+      'duplicate',
+      'failed',
+    ]);
+    expect(job.items[1].documentId).toBe(job.items[0].documentId);
+    expect(job.items[2].error).toContain('non supporté');
+  });
+
+  it('should refuse an invalid or reserved collection before creating a job', () => {
+    for (const collection of ['jobs', 'Embeddings', '../default']) {
+      expect(() =>
+        ingestionJobsService.enqueue(collection, [
+          file('a.txt', 'text/plain', 'content'),
+        ]),
+      ).toThrow(BadRequestException);
+    }
+  });
+
+  it('should hide a job from other API keys', () => {
+    const queued = ingestionJobsService.enqueue(
+      'default',
+      [file('a.txt', 'text/plain', 'content')],
+      [],
+      undefined,
+      'key-a',
+    );
+
+    expect(ingestionJobsService.get(queued.id, 'key-a').id).toBe(queued.id);
+    expect(() => ingestionJobsService.get(queued.id, 'key-b')).toThrow(
+      'Job introuvable',
+    );
+  });
+
+  it('should forget finished jobs once expired', async () => {
+    const queued = ingestionJobsService.enqueue('default', [
+      file('a.txt', 'text/plain', 'content'),
+    ]);
+    const job = await waitForJob(queued.id);
+
+    // Une heure (INGESTION_JOB_TTL_MS par défaut) après la fin du job
+    jest
+      .spyOn(Date, 'now')
+      .mockReturnValue(Date.parse(job.finishedAt) + 3_600_001);
+
+    expect(() => ingestionJobsService.get(queued.id)).toThrow(
+      NotFoundException,
+    );
+  });
+});
@@ -0,0 +1,282 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'node:crypto';
+import { KnowledgeService } from './knowledge.service';
+import {
+  IngestionItemResult,
+  IngestionJob,
+  IngestionJobItem,
+} from './interfaces/ingestion-job.interface';
+import { IngestOptions } from './interfaces/ingest-options.interface';
+import { CrawlOptions, crawl } from './crawler/web-crawler';
+import { MAX_CRAWL_DEPTH, MAX_CRAWL_PAGES } from './knowledge.constants';
+import { errorBody, invalidField } from '../common/api-error';
+
+/**
+ * File d'attente des ingestions
+ * L'upload rend la main tout de suite avec un identifiant de job ; fichiers et URLs
+ * sont ingérés en arrière-plan, avec un statut et une erreur éventuelle par élément
+ * Les jobs terminés sont oubliés après INGESTION_JOB_TTL_MS
+ */
+@Injectable()
+export class IngestionJobsService {
+  private readonly jobs = new Map<string, IngestionJob>();
+  // Tâches en attente d'un emplacement libre
+  private readonly queue: (() => Promise<void>)[] = [];
+  private running = 0;
+  // Nombre d'éléments ingérés en parallèle
+  private readonly concurrency: number;
+  // Durée de conservation d'un job terminé
+  private readonly jobTtlMs: number;
+
+  constructor(
+    private readonly knowledgeService: KnowledgeService,
+    private readonly configService: ConfigService,
+  ) {
+    this.concurrency = Number(
+      this.configService.get<string>('INGESTION_CONCURRENCY', '2'),
+    );
+    this.jobTtlMs = Number(
+      this.configService.get<string>('INGESTION_JOB_TTL_MS', '3600000'),
+    );
+  }
+
+  /**
+   * Crée un job d'ingestion et met ses éléments en file d'attente
+   * @param apiKeyId Clé d'API appelante, seule à pouvoir suivre le job
+   * @returns le job, à suivre avec get()
+   */
+  enqueue(
+    collection: string,
+    files: Express.Multer.File[] = [],
+    urls: string[] = [],
+    options?: IngestOptions,
+    apiKeyId?: string,
+  ): IngestionJob {
+    // Collection et options invalides refusées tout de suite, avant de créer le job
+    this.knowledgeService.validateCollection(collection);
+    this.knowledgeService.resolveChunking(options?.chunking);
+
+    const job: IngestionJob = {
+      id: randomUUID(),
+      collection,
+      apiKeyId,
+      status: 'queued',
+      items: [
+        ...files.map(
+          (file): IngestionJobItem => ({
+            kind: 'file',
+            source: file.originalname,
+            status: 'queued',
+          }),
+        ),
+        ...urls.map(
+          (url): IngestionJobItem => ({
+            kind: 'url',
+            source: url,
+            status: 'queued',
+          }),
+        ),
+      ],
+      createdAt: new Date().toISOString(),
+    };
+    this.track(job);
+
+    const ingestions = [
+      ...files.map(
+        (file) => () =>
+          this.knowledgeService.ingestFile(collection, file, options),
+      ),
+      ...urls.map(
+        (url) => () =>
+          this.knowledgeService.ingestUrl(collection, url, options),
+      ),
+    ];
+    ingestions.forEach((ingest, index) =>
+      this.schedule(() => this.runItem(job, job.items[index], ingest)),
+    );
+    if (job.items.length === 0) this.finish(job);
+
+    return job;
+  }
+
+  /**
+   * Crée un job qui explore un site et ingère chaque page comme un document distinct
+   * Les pages sont mises en file d'attente au fil de l'exploration
+   * @param apiKeyId Clé d'API appelante, seule à pouvoir suivre le job
+   * @returns le job, à suivre avec get()
+   */
+  enqueueCrawl(
+    collection: string,
+    crawlOptions: CrawlOptions,
+    options?: IngestOptions,
+    apiKeyId?: string,
+  ): IngestionJob {
+    this.knowledgeService.validateCollection(collection);
+    this.validateCrawlOptions(crawlOptions);
+    this.knowledgeService.resolveChunking(options?.chunking);
+
+    const job: IngestionJob = {
+      id: randomUUID(),
+      collection,
+      apiKeyId,
+      status: 'running',
+      items: [],
+      crawling: true,
+      createdAt: new Date().toISOString(),
+    };
+    this.track(job);
+
+    this.runCrawl(job, crawlOptions, options);
+    return job;
+  }
+
+  /**
+   * Retourne un job ; celui d'une autre clé d'API est introuvable, comme un job inconnu
+   */
+  get(id: string, apiKeyId?: string): IngestionJob {
+    this.pruneFinishedJobs();
+    const job = this.jobs.get(id);
+    if (!job || (apiKeyId !== undefined && job.apiKeyId !== apiKeyId)) {
+      throw new NotFoundException(
+        errorBody('JOB_NOT_FOUND', `Job introuvable : ${id}`),
+      );
+    }
+    return job;
+  }
+
+  private track(job: IngestionJob) {
+    this.pruneFinishedJobs();
+    this.jobs.set(job.id, job);
+  }
+
+  /**
+   * Oublie les jobs terminés depuis plus de INGESTION_JOB_TTL_MS
+   */
+  private pruneFinishedJobs() {
+    const expiredBefore = Date.now() - this.jobTtlMs;
+    for (const [id, job] of this.jobs) {
+      if (job.finishedAt && Date.parse(job.finishedAt) < expiredBefore) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+
+  private validateCrawlOptions(options: CrawlOptions) {
+    let url: URL;
+    try {
+      url = new URL(options?.url);
+    } catch {
+      throw invalidField('url', `URL de départ invalide : ${options?.url}`);
+    }
+    if (!['http:', 'https:'].includes(url.protocol)) {
+      throw invalidField(
+        'url',
+        'Seules les URLs http(s) peuvent être explorées',
+      );
+    }
+
+    const limits = [
+      ['maxDepth', options.maxDepth, 0, MAX_CRAWL_DEPTH],
+      ['maxPages', options.maxPages, 1, MAX_CRAWL_PAGES],
+    ] as const;
+    for (const [name, value, min, max] of limits) {
+      if (
+        value !== undefined &&
+        (!Number.isInteger(value) || value < min || value > max)
+      ) {
+        throw invalidField(
+          name,
+          `${name} doit être un entier entre ${min} et ${max}`,
+        );
+      }
+    }
+  }
+
+  private async runCrawl(
+    job: IngestionJob,
+    crawlOptions: CrawlOptions,
+    options?: IngestOptions,
+  ) {
+    try {
+      for await (const page of crawl(crawlOptions)) {
+        const item: IngestionJobItem = {
+          kind: 'page',
+          source: page.url,
+          status: 'queued',
+        };
+        job.items.push(item);
+        this.schedule(() =>
+          this.runItem(job, item, () =>
+            this.knowledgeService.ingestPage(job.collection, page, options),
+          ),
+        );
+      }
+    } catch (error) {
+      job.error = error.message;
+    }
+
+    job.crawling = false;
+    if (this.isSettled(job)) this.finish(job);
+  }
+
+  private schedule(task: () => Promise<void>) {
+    this.queue.push(task);
+    this.next();
+  }
+
+  private next() {
+    while (this.running < this.concurrency && this.queue.length > 0) {
+      const task = this.queue.shift();
+      this.running++;
+      task().finally(() => {
+        this.running--;
+        this.next();
+      });
+    }
+  }
+
+  private async runItem(
+    job: IngestionJob,
+    item: IngestionJobItem,
+    ingest: () => Promise<IngestionItemResult>,
+  ) {
+    job.status = 'running';
+    item.status = 'running';
+    try {
+      const result = await ingest();
+      if (result.error) {
+        item.status = 'failed';
+        item.error = result.error;
+      } else {
+        item.status = result.duplicate ? 'duplicate' : 'done';
+        item.documentId = result.documentId;
+        item.chunks = result.chunks ?? 0;
+      }
+    } catch (error) {
+      item.status = 'failed';
+      item.error = error.message;
+    }
+
+    if (this.isSettled(job)) this.finish(job);
+  }
+
+  private isSettled(job: IngestionJob) {
+    return (
+      !job.crawling &&
+      job.items.every((i) => !['queued', 'running'].includes(i.status))
+    );
+  }
+
+  private finish(job: IngestionJob) {
+    const failed = job.items.filter((item) => item.status === 'failed').length;
+    // Une exploration interrompue par une erreur n'est jamais complète
+    job.status =
+      failed === 0 && !job.error
+        ? 'completed'
+        : failed === job.items.length
+          ? 'failed'
+          : 'partial';
+    job.finishedAt = new Date().toISOString();
+  }
+}
@@ -0,0 +1,21 @@
+// Stratégies de découpage des documents en chunks :
+// - recursive : par caractères, en coupant de préférence entre paragraphes puis lignes
+// - token : par nombre de tokens (encodage cl100k_base)
+// - headers : par section de titres Markdown (et titres HTML, convertis au chargement)
+// - sentence : par phrases entières
+export const CHUNKING_STRATEGIES = [
+  'recursive',
+  'token',
+  'headers',
+  'sentence',
+] as const;
+export type ChunkingStrategy = (typeof CHUNKING_STRATEGIES)[number];
+
+export interface ChunkingOptions {
+  // Par défaut : recursive
+  strategy?: ChunkingStrategy;
+  // Taille maximum d'un chunk, en tokens pour la stratégie token, en caractères sinon
+  chunkSize?: number;
+  // Chevauchement entre deux chunks consécutifs, même unité que chunkSize
+  chunkOverlap?: number;
+}
@@ -0,0 +1,31 @@
+/**
+ * Compteurs du cache d'embeddings depuis le démarrage (GET /knowledge/embeddings/stats)
+ */
+export interface EmbeddingCacheStats {
+  // Modèle dont les embeddings sont mis en cache (fournisseur:modèle)
+  model: string;
+  // Textes trouvés dans le cache, et textes envoyés au modèle
+  hits: number;
+  misses: number;
+  // Part des textes servis par le cache, de 0 à 1
+  hitRate: number;
+  // Appels au modèle (lots) et nouvelles tentatives après une erreur
+  batches: number;
+  retries: number;
+  // Embeddings conservés dans le cache
+  entries: number;
+}
+
+// Réglages des appels au modèle d'embeddings
+export interface EmbeddingBatchOptions {
+  // Textes par appel au modèle
+  batchSize: number;
+  // Appels simultanés au maximum
+  concurrency: number;
+  // Nouvelles tentatives d'un lot en erreur (limite de débit, erreur serveur)
+  maxRetries: number;
+  // Délai avant la première nouvelle tentative, doublé à chaque échec
+  retryDelayMs: number;
+  // Requêtes de recherche gardées en mémoire (jamais sauvegardées), les plus récentes
+  queryCacheSize: number;
+}
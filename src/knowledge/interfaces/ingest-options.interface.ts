@@ -0,0 +1,12 @@
+import { MetadataValue } from '../search/metadata-filter';
+import { ChunkingOptions } from './chunking-options.interface';
+
+/**
+ * Options d'ingestion choisies à l'upload
+ */
+export interface IngestOptions {
+  // Tags libres ajoutés aux metadata des chunks, utilisables en filtre de recherche
+  tags?: Record<string, MetadataValue>;
+  // Découpage en chunks, recursive 1000/200 par défaut
+  chunking?: ChunkingOptions;
+}
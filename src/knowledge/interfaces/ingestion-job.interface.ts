@@ -0,0 +1,56 @@
+// États d'un élément (fichier ou URL) d'un job d'ingestion
+export type IngestionItemStatus =
+  | 'queued'
+  | 'running'
+  | 'done'
+  // Contenu déjà présent dans la collection : aucun chunk ajouté
+  | 'duplicate'
+  | 'failed';
+
+// États d'un job : partial si une partie seulement des éléments a échoué
+export type IngestionJobStatus =
+  | 'queued'
+  | 'running'
+  | 'completed'
+  | 'partial'
+  | 'failed';
+
+export interface IngestionJobItem {
+  // page : page découverte par l'exploration d'un site
+  kind: 'file' | 'url' | 'page';
+  // Nom du fichier ou URL
+  source: string;
+  status: IngestionItemStatus;
+  documentId?: string;
+  chunks?: number;
+  error?: string;
+}
+
+// Résultat de l'ingestion d'un élément par KnowledgeService (fichier, URL ou page)
+export interface IngestionItemResult {
+  documentId?: string;
+  chunks?: number;
+  duplicate?: boolean;
+  // Élément ignoré sans exception (format non supporté)
+  error?: string;
+}
+
+/**
+ * Job d'ingestion asynchrone, créé par un upload ou l'exploration d'un site
+ * Pour une exploration, les éléments sont ajoutés au fil des pages découvertes
+ */
+export interface IngestionJob {
+  id: string;
+  collection: string;
+  // Clé d'API qui a créé le job, seule à pouvoir le suivre ; absente sans authentification
+  apiKeyId?: string;
+  status: IngestionJobStatus;
+  items: IngestionJobItem[];
+  // Exploration du site encore en cours
+  crawling?: boolean;
+  // Erreur de l'exploration elle-même (sitemap ou URL de départ inaccessible)
+  error?: string;
+  // Dates au format ISO 8601
+  createdAt: string;
+  finishedAt?: string;
+}
@@ -0,0 +1,36 @@
+import { MetadataValue } from '../search/metadata-filter';
+import { ChunkingOptions } from './chunking-options.interface';
+
+// Type de source d'un document ingéré
+export type KnowledgeDocumentType =
+  | 'pdf'
+  | 'docx'
+  | 'markdown'
+  | 'html'
+  | 'csv'
+  | 'json'
+  | 'text'
+  | 'url';
+
+/**
+ * Fiche catalogue d'un document ingéré
+ * Référence les chunks stockés dans le store vectoriel pour pouvoir les supprimer
+ */
+export interface KnowledgeDocument {
+  id: string;
+  // Nom du fichier ou URL d'origine
+  source: string;
+  type: KnowledgeDocumentType;
+  // Taille en octets
+  size: number;
+  pages: number;
+  // Empreinte SHA-256 du contenu, pour détecter les doublons
+  contentHash?: string;
+  chunkIds: string[];
+  // Tags libres ajoutés à l'upload, recopiés dans les metadata de chaque chunk
+  tags?: Record<string, MetadataValue>;
+  // Stratégie et tailles de découpage, recopiées dans les metadata de chaque chunk
+  chunking?: ChunkingOptions;
+  // Date d'ingestion au format ISO 8601
+  ingestedAt: string;
+}
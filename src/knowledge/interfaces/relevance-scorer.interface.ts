@@ -0,0 +1,18 @@
+/**
+ * Second niveau de classement des résultats de recherche
+ * Évalue chaque passage face à la requête, indépendamment des scores de la recherche
+ */
+export interface RelevanceScorer {
+  /**
+   * true si le score mesure le sens du passage (LLM), false s'il ne compte que des mots communs :
+   * RERANK_THRESHOLD ne s'applique par défaut qu'aux scorers calibrés, pour ne pas écarter les paraphrases
+   */
+  readonly calibrated: boolean;
+
+  /**
+   * @param query requête de l'utilisateur
+   * @param passages contenu des chunks candidats
+   * @returns score de pertinence de chaque passage, entre 0 (hors sujet) et 1, dans le même ordre
+   */
+  score(query: string, passages: string[]): Promise<number[]>;
+}
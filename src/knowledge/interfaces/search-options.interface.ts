@@ -0,0 +1,19 @@
+import { MetadataFilter } from '../search/metadata-filter';
+
+// Modes de recherche : similarité vectorielle, mots-clés (BM25) ou fusion des deux
+export const SEARCH_MODES = ['vector', 'keyword', 'hybrid'] as const;
+export type SearchMode = (typeof SEARCH_MODES)[number];
+
+export interface SearchOptions {
+  // Par défaut : hybrid
+  mode?: SearchMode;
+  // Nombre de résultats, 3 par défaut
+  k?: number;
+  // Conditions sur les metadata des chunks
+  filter?: MetadataFilter;
+  // Re-classement des candidats et seuil de pertinence, true par défaut si un scorer est configuré
+  rerank?: boolean;
+  // Score de pertinence minimum après re-classement (0 à 1)
+  // Par défaut RERANK_THRESHOLD avec le scorer llm, 0 (aucun filtre) avec le scorer lexical
+  threshold?: number;
+}
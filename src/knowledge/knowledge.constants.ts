@@ -0,0 +1,25 @@
+// Collection utilisée lorsqu'aucune collection n'est précisée
+export const DEFAULT_COLLECTION = 'default';
+
+// Segments des routes /knowledge/<segment>/... qui ne désignent pas une collection
+export const RESERVED_COLLECTION_IDS = [
+  'jobs',
+  'embeddings',
+  'chunk-preview',
+  // Alias /knowledge/documents/:id de la collection par défaut
+  'documents',
+] as const;
+
+// Format autorisé pour un identifiant de collection (sert aussi de nom de dossier),
+// hors noms réservés, quelle que soit leur casse (les routes ne la distinguent pas)
+export const COLLECTION_ID_PATTERN = new RegExp(
+  `^(?!(${RESERVED_COLLECTION_IDS.join('|')})$)[a-z0-9_-]{1,64}$`,
+  'i',
+);
+
+// Nombre maximum de résultats par recherche
+export const MAX_SEARCH_RESULTS = 50;
+
+// Limites acceptées pour une exploration de site
+export const MAX_CRAWL_DEPTH = 5;
+export const MAX_CRAWL_PAGES = 500;
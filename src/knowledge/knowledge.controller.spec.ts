@@ -0,0 +1,73 @@
+import { INestApplication } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import * as request from 'supertest';
+import { KnowledgeModule } from './knowledge.module';
+import { KnowledgeService } from './knowledge.service';
+
+describe('KnowledgeController (offline)', () => {
+  let app: INestApplication;
+  let documentId: string;
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({
+          isGlobal: true,
+          ignoreEnvFile: true,
+          load: [
+            () => ({
+              AUTH_ENABLED: 'false',
+              EMBEDDING_PROVIDER: 'fake',
+              VECTOR_STORE_BACKEND: 'memory',
+              EMBEDDING_CACHE_BACKEND: 'memory',
+            }),
+          ],
+        }),
+        KnowledgeModule,
+      ],
+    }).compile();
+    app = module.createNestApplication();
+    await app.init();
+
+    const content = 'The error code E42 means disk full.';
+    const result = await module.get(KnowledgeService).ingestFile('default', {
+      originalname: 'errors.txt',
+      mimetype: 'text/plain',
+      size: content.length,
+      buffer: Buffer.from(content),
+    } as Express.Multer.File);
+    documentId = (result as { documentId: string }).documentId;
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should keep the routes without collection as aliases of the default collection', async () => {
+    const server = app.getHttpServer();
+
+    const list = await request(server).get('/knowledge/documents').expect(200);
+    expect(list.body).toEqual([
+      expect.objectContaining({ id: documentId, source: 'errors.txt' }),
+    ]);
+    await request(server)
+      .get(`/knowledge/documents/${documentId}`)
+      .expect(200)
+      .expect((response) => expect(response.body.id).toBe(documentId));
+
+    const search = await request(server)
+      .post('/knowledge/search')
+      .send({ query: 'What is E42?' })
+      .expect(201);
+    expect(search.body.results[0].metadata.source).toBe('errors.txt');
+
+    await request(server)
+      .delete(`/knowledge/documents/${documentId}`)
+      .expect(200);
+    const after = await request(server)
+      .get('/knowledge/default/documents')
+      .expect(200);
+    expect(after.body).toEqual([]);
+  });
+});
@@ -1,70 +1,214 @@
 import {
   Controller,
+  Delete,
+  Get,
+  Param,
   Post,
   UseInterceptors,
+  UploadedFile,
   UploadedFiles,
-  BadRequestException,
   Body,
+  HttpCode,
+  HttpStatus,
 } from '@nestjs/common';
-import { FilesInterceptor } from '@nestjs/platform-express';
+import { FileInterceptor, FilesInterceptor } from '@nestjs/platform-express';
+import {
+  ApiBearerAuth,
+  ApiConsumes,
+  ApiDefaultResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger';
 import { memoryStorage } from 'multer';
 import { KnowledgeService } from './knowledge.service';
+import { IngestionJobsService } from './ingestion-jobs.service';
+import { CurrentApiKey, RequireScopes } from '../auth/auth.decorators';
+import { ApiKeyRecord } from '../auth/interfaces/api-key.interface';
+import { ApiErrorDto } from '../common/dto/api-error.dto';
+import { UploadDto } from './dto/upload.dto';
+import { ChunkPreviewDto } from './dto/chunk-preview.dto';
+import { CrawlDto } from './dto/crawl.dto';
+import { SearchDto } from './dto/search.dto';
+import { DEFAULT_COLLECTION } from './knowledge.constants';
+
+// Routes d'avant les collections (/knowledge/upload, /knowledge/documents...), gardées
+// comme alias de la collection par défaut
+const DEFAULT_COLLECTION_ALIAS = {
+  deprecated: true,
+  description: `Alias de la même route sous /knowledge/${DEFAULT_COLLECTION}/`,
+};
+
+// Limites d'upload, communes à l'ingestion et à l'aperçu du découpage
+const UPLOAD_OPTIONS = {
+  // Pas de filtre : les formats non supportés sont signalés dans les résultats par fichier
+  storage: memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB max par fichier
+  },
+};
 
+@ApiTags('knowledge')
+@ApiBearerAuth()
+@ApiDefaultResponse({ type: ApiErrorDto, description: 'Erreur' })
 @Controller('knowledge')
 export class KnowledgeController {
-  constructor(private readonly knowledgeService: KnowledgeService) {}
+  constructor(
+    private readonly knowledgeService: KnowledgeService,
+    private readonly ingestionJobsService: IngestionJobsService,
+  ) {}
+
+  @RequireScopes('ingest')
+  @Post(':collection/upload')
+  @UseInterceptors(FilesInterceptor('files', 10, UPLOAD_OPTIONS))
+  @ApiConsumes('multipart/form-data', 'application/json')
+  @HttpCode(HttpStatus.ACCEPTED)
+  upload(
+    @Param('collection') collection: string,
+    @UploadedFiles() files: Express.Multer.File[],
+    @Body() body: UploadDto,
+    @CurrentApiKey() apiKey: ApiKeyRecord | undefined,
+  ) {
+    // L'ingestion se poursuit en arrière-plan : suivi via GET /knowledge/jobs/:id
+    return this.ingestionJobsService.enqueue(
+      collection,
+      files,
+      body.urls,
+      { tags: body.tags, chunking: body.chunking },
+      apiKey?.id,
+    );
+  }
+
+  @RequireScopes('ingest')
+  @Post('chunk-preview')
+  @UseInterceptors(FileInterceptor('file', UPLOAD_OPTIONS))
+  @ApiConsumes('multipart/form-data', 'application/json')
+  async previewChunks(
+    @UploadedFile() file: Express.Multer.File,
+    @Body() body: ChunkPreviewDto,
+  ) {
+    return this.knowledgeService.previewChunks(
+      { file, text: body.text },
+      body.chunking,
+    );
+  }
+
+  @RequireScopes('ingest')
+  @Post(':collection/crawl')
+  @HttpCode(HttpStatus.ACCEPTED)
+  crawl(
+    @Param('collection') collection: string,
+    @Body() body: CrawlDto,
+    @CurrentApiKey() apiKey: ApiKeyRecord | undefined,
+  ) {
+    const { tags, chunking, ...crawlOptions } = body;
+    // Chaque page explorée devient un document : suivi via GET /knowledge/jobs/:id
+    return this.ingestionJobsService.enqueueCrawl(
+      collection,
+      crawlOptions,
+      { tags, chunking },
+      apiKey?.id,
+    );
+  }
+
+  /**
+   * Suivi d'un job d'ingestion, limité aux jobs de la clé d'API appelante
+   */
+  @RequireScopes('ingest')
+  @Get('jobs/:id')
+  getJob(
+    @Param('id') id: string,
+    @CurrentApiKey() apiKey: ApiKeyRecord | undefined,
+  ) {
+    return this.ingestionJobsService.get(id, apiKey?.id);
+  }
+
+  /**
+   * Compteurs du cache d'embeddings depuis le démarrage (hits, misses, lots, reprises)
+   */
+  @RequireScopes('ingest')
+  @Get('embeddings/stats')
+  getEmbeddingStats() {
+    return this.knowledgeService.getEmbeddingStats();
+  }
 
+  @RequireScopes('search')
+  @Post(':collection/search')
+  async search(
+    @Param('collection') collection: string,
+    @Body() body: SearchDto,
+  ) {
+    return this.knowledgeService.search(collection, body.query, {
+      mode: body.mode,
+      k: body.k,
+      filter: body.filter,
+      rerank: body.rerank,
+      threshold: body.threshold,
+    });
+  }
+
+  @RequireScopes('search')
+  @Get(':collection/documents')
+  async listDocuments(@Param('collection') collection: string) {
+    return this.knowledgeService.listDocuments(collection);
+  }
+
+  @RequireScopes('search')
+  @Get(':collection/documents/:id')
+  async getDocument(
+    @Param('collection') collection: string,
+    @Param('id') id: string,
+  ) {
+    return this.knowledgeService.getDocument(collection, id);
+  }
+
+  @RequireScopes('ingest')
+  @Delete(':collection/documents/:id')
+  async deleteDocument(
+    @Param('collection') collection: string,
+    @Param('id') id: string,
+  ) {
+    return this.knowledgeService.deleteDocument(collection, id);
+  }
+
+  @RequireScopes('ingest')
   @Post('upload')
-  @UseInterceptors(
-    FilesInterceptor('files', 10, {
-      storage: memoryStorage(),
-      fileFilter: (req, file, cb) => {
-        if (file.mimetype === 'application/pdf') {
-          cb(null, true);
-        } else {
-          cb(
-            new BadRequestException('Seuls les fichiers PDF sont autorisés'),
-            false,
-          );
-        }
-      },
-      limits: {
-        fileSize: 10 * 1024 * 1024, // 10MB max par fichier
-      },
-    }),
-  )
-  async upload(
+  @ApiOperation(DEFAULT_COLLECTION_ALIAS)
+  @UseInterceptors(FilesInterceptor('files', 10, UPLOAD_OPTIONS))
+  @ApiConsumes('multipart/form-data', 'application/json')
+  @HttpCode(HttpStatus.ACCEPTED)
+  uploadToDefault(
     @UploadedFiles() files: Express.Multer.File[],
-    @Body() body: { urls?: string[] },
+    @Body() body: UploadDto,
+    @CurrentApiKey() apiKey: ApiKeyRecord | undefined,
   ) {
-    const pdfResults = [];
-    const urlResults = [];
-
-    if (files?.length > 0) {
-      const r = await Promise.all(
-        files.map((file) => this.knowledgeService.ingestPdfFile(file)),
-      );
-      pdfResults.push(...r);
-    }
-    if (body.urls) {
-      const r = await Promise.all(
-        body.urls.map((url) => this.knowledgeService.ingestUrl(url)),
-      );
-      urlResults.push(...r);
-    }
-
-    const results = [...pdfResults, ...urlResults];
-
-    return {
-      message: `${results.length} Document(s) traité(s) avec succès`,
-      totalFiles: files?.length || 0,
-      totalUrls: body?.urls?.length || 0,
-      results: results,
-    };
+    return this.upload(DEFAULT_COLLECTION, files, body, apiKey);
   }
 
+  @RequireScopes('search')
   @Post('search')
-  async search(@Body() body: { query: string }) {
-    return this.knowledgeService.search(body.query);
+  @ApiOperation(DEFAULT_COLLECTION_ALIAS)
+  async searchDefault(@Body() body: SearchDto) {
+    return this.search(DEFAULT_COLLECTION, body);
+  }
+
+  @RequireScopes('search')
+  @Get('documents')
+  @ApiOperation(DEFAULT_COLLECTION_ALIAS)
+  async listDefaultDocuments() {
+    return this.listDocuments(DEFAULT_COLLECTION);
+  }
+
+  @RequireScopes('search')
+  @Get('documents/:id')
+  @ApiOperation(DEFAULT_COLLECTION_ALIAS)
+  async getDefaultDocument(@Param('id') id: string) {
+    return this.getDocument(DEFAULT_COLLECTION, id);
+  }
+
+  @RequireScopes('ingest')
+  @Delete('documents/:id')
+  @ApiOperation(DEFAULT_COLLECTION_ALIAS)
+  async deleteDefaultDocument(@Param('id') id: string) {
+    return this.deleteDocument(DEFAULT_COLLECTION, id);
   }
 }
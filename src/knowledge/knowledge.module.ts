@@ -1,9 +1,12 @@
 import { Module } from '@nestjs/common';
 import { KnowledgeService } from './knowledge.service';
 import { KnowledgeController } from './knowledge.controller';
+import { IngestionJobsService } from './ingestion-jobs.service';
+import { ProvidersModule } from '../providers/providers.module';
 
 @Module({
-  providers: [KnowledgeService],
+  imports: [ProvidersModule],
+  providers: [KnowledgeService, IngestionJobsService],
   controllers: [KnowledgeController],
   exports: [KnowledgeService],
 })
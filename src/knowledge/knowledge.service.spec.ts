@@ -0,0 +1,157 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigModule } from '@nestjs/config';
+import { KnowledgeModule } from './knowledge.module';
+import { KnowledgeService } from './knowledge.service';
+import { MemoryKnowledgeStore } from './stores/memory-knowledge.store';
+
+describe('KnowledgeService', () => {
+  let module: TestingModule;
+  let knowledgeService: KnowledgeService;
+
+  const file = (originalname: string, content: string) =>
+    ({
+      originalname,
+      mimetype: 'text/plain',
+      size: content.length,
+      buffer: Buffer.from(content),
+    }) as Express.Multer.File;
+
+  beforeEach(async () => {
+    module = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({
+          isGlobal: true,
+          ignoreEnvFile: true,
+          load: [
+            () => ({
+              EMBEDDING_PROVIDER: 'fake',
+              VECTOR_STORE_BACKEND: 'memory',
+              EMBEDDING_CACHE_BACKEND: 'memory',
+            }),
+          ],
+        }),
+        KnowledgeModule,
+      ],
+    }).compile();
+
+    knowledgeService = module.get(KnowledgeService);
+    await knowledgeService.ingestFile(
+      'default',
+      file('errors.txt', 'The error code E42 means disk full.'),
+    );
+    await knowledgeService.ingestFile(
+      'default',
+      file('errors-copy.txt', 'The error code E42 means the disk is full.'),
+    );
+    await knowledgeService.ingestFile(
+      'default',
+      file('holidays.txt', 'The office is closed on Sundays.'),
+    );
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await module.close();
+  });
+
+  it('should reuse cached embeddings when the same content is ingested again', async () => {
+    const before = knowledgeService.getEmbeddingStats();
+
+    // Même contenu dans une autre collection : chunks identiques, déjà vectorisés
+    await knowledgeService.ingestFile(
+      'archive',
+      file('errors.txt', 'The error code E42 means disk full.'),
+    );
+
+    const after = knowledgeService.getEmbeddingStats();
+    expect(after.misses).toBe(before.misses);
+    expect(after.hits).toBe(before.hits + 1);
+    expect(after.model).toBe('fake:default');
+  });
+
+  it('should drop results under the relevance threshold', async () => {
+    const result = await knowledgeService.search(
+      'default',
+      'How do I reset my password?',
+      { threshold: 0.3 },
+    );
+
+    expect(result.results).toEqual([]);
+    expect(result.message).toContain('Aucun résultat pertinent');
+  });
+
+  it('should return only relevant chunks once re-ranked', async () => {
+    const result = await knowledgeService.search('default', 'What is E42?', {
+      k: 3,
+      threshold: 0.3,
+    });
+
+    expect(result.results.map((r) => r.metadata.source).sort()).toEqual([
+      'errors-copy.txt',
+      'errors.txt',
+    ]);
+    expect(result.results[0].score).toBe(1);
+
+    const raw = await knowledgeService.search('default', 'What is E42?', {
+      k: 3,
+      rerank: false,
+    });
+    expect(raw.results).toHaveLength(3);
+  });
+
+  it('should keep a paraphrased match with the default lexical scorer', async () => {
+    await knowledgeService.ingestFile(
+      'support',
+      file(
+        'credentials.txt',
+        'To change your login credentials, open Settings then Security.',
+      ),
+    );
+
+    // Aucun mot commun avec la requête : score lexical 0, mais pas de seuil par défaut
+    const result = await knowledgeService.search(
+      'support',
+      'How do I reset my password?',
+      { mode: 'vector' },
+    );
+
+    expect(result.results.map((r) => r.metadata.source)).toEqual([
+      'credentials.txt',
+    ]);
+    expect(result.results[0].score).toBe(0);
+  });
+
+  it('should never return chunks of another collection', async () => {
+    await knowledgeService.ingestFile(
+      'archive',
+      file('legacy-errors.txt', 'The error code E42 used to mean overheating.'),
+    );
+
+    const current = await knowledgeService.search('default', 'E42', {
+      k: 10,
+      rerank: false,
+    });
+    const archived = await knowledgeService.search('archive', 'E42', {
+      k: 10,
+      rerank: false,
+    });
+
+    expect(current.results.map((r) => r.metadata.source)).not.toContain(
+      'legacy-errors.txt',
+    );
+    expect(archived.results.map((r) => r.metadata.source)).toEqual([
+      'legacy-errors.txt',
+    ]);
+  });
+
+  it('should load a collection again after a failed load', async () => {
+    jest
+      .spyOn(MemoryKnowledgeStore.prototype, 'load')
+      .mockRejectedValueOnce(new Error('read error'));
+
+    await expect(knowledgeService.listDocuments('legacy')).rejects.toThrow(
+      'read error',
+    );
+    expect(await knowledgeService.listDocuments('legacy')).toEqual([]);
+  });
+});
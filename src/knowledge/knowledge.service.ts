@@ -1,61 +1,285 @@
-import { Injectable, BadRequestException } from '@nestjs/common';
-import { PDFLoader } from '@langchain/community/document_loaders/fs/pdf';
-import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters';
-import { OpenAIEmbeddings } from '@langchain/openai';
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { MemoryVectorStore } from 'langchain/vectorstores/memory';
 import { CheerioWebBaseLoader } from '@langchain/community/document_loaders/web/cheerio';
 import { Document } from '@langchain/core/documents';
+import { createHash, randomUUID } from 'node:crypto';
+import { MemoryKnowledgeStore } from './stores/memory-knowledge.store';
+import { createKnowledgeStore } from './stores/knowledge-store.factory';
+import {
+  KnowledgeDocument,
+  KnowledgeDocumentType,
+} from './interfaces/knowledge-document.interface';
+import {
+  COLLECTION_ID_PATTERN,
+  RESERVED_COLLECTION_IDS,
+  MAX_SEARCH_RESULTS,
+} from './knowledge.constants';
+import { errorBody, invalidField } from '../common/api-error';
+import {
+  DocumentLoaderEntry,
+  findDocumentLoader,
+} from './loaders/document-loader.registry';
+import { ProvidersService } from '../providers/providers.service';
+import {
+  SEARCH_MODES,
+  SearchMode,
+  SearchOptions,
+} from './interfaces/search-options.interface';
+import { reciprocalRankFusion } from './search/rank-fusion';
+import { selectByMmr } from './search/mmr';
+import { RelevanceScorer } from './interfaces/relevance-scorer.interface';
+import { createRelevanceScorer } from './rerank/relevance-scorer.factory';
+import {
+  matchesMetadataFilter,
+  validateMetadataFilter,
+} from './search/metadata-filter';
+import { CrawledPage } from './crawler/web-crawler';
+import { IngestOptions } from './interfaces/ingest-options.interface';
+import { ChunkingOptions } from './interfaces/chunking-options.interface';
+import {
+  resolveChunkingOptions,
+  splitDocuments,
+} from './chunking/text-splitter.factory';
+import { CachedEmbeddings } from './embeddings/cached-embeddings';
+import { createCachedEmbeddings } from './embeddings/embedding-cache.factory';
+import { EmbeddingCacheStats } from './interfaces/embedding-cache-stats.interface';
+
+// Empreinte d'un contenu, pour détecter les doublons à l'ingestion
+const hashContent = (content: string | Buffer) =>
+  createHash('sha256').update(content).digest('hex');
 
 @Injectable()
 export class KnowledgeService {
-  private readonly embeddings: OpenAIEmbeddings;
-  private readonly vectorStore: MemoryVectorStore;
+  // Embeddings mis en cache par empreinte du contenu et du modèle
+  private readonly embeddings: CachedEmbeddings;
+  // Scorer du re-classement, undefined si désactivé (RERANK_SCORER=none)
+  private readonly relevanceScorer?: RelevanceScorer;
+  // Un store par collection, chargé à la première utilisation
+  private readonly stores = new Map<string, Promise<MemoryKnowledgeStore>>();
 
-  constructor(private readonly configService: ConfigService) {
-    this.embeddings = new OpenAIEmbeddings({
-      model: this.configService.get<string>('EMBEDDING_MODEL'),
-      apiKey: this.configService.get<string>('OPENAI_API_KEY'),
-    });
-    this.vectorStore = new MemoryVectorStore(this.embeddings);
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly providersService: ProvidersService,
+  ) {
+    this.embeddings = createCachedEmbeddings(
+      this.configService,
+      this.providersService,
+    );
+    this.relevanceScorer = createRelevanceScorer(
+      this.configService,
+      this.providersService,
+    );
   }
 
-  private async ingest(documents: Document[]) {
-    // Découper les documents en chunks
-    const textSplitter = new RecursiveCharacterTextSplitter({
-      chunkSize: 1000,
-      chunkOverlap: 200,
+  /**
+   * Vérifie un identifiant de collection : format, et nom non réservé par les routes
+   * @throws BadRequestException INVALID_COLLECTION
+   */
+  validateCollection(collection: string) {
+    if (!COLLECTION_ID_PATTERN.test(collection ?? '')) {
+      throw new BadRequestException(
+        errorBody(
+          'INVALID_COLLECTION',
+          `Identifiant de collection invalide : ${collection} (lettres, chiffres, "_" et "-", ` +
+            `64 caractères au plus, hors ${RESERVED_COLLECTION_IDS.join(', ')})`,
+        ),
+      );
+    }
+  }
+
+  /**
+   * Retourne le store d'une collection, en rechargeant ses données au premier accès
+   * @param collection identifiant de la collection
+   */
+  private getStore(collection: string): Promise<MemoryKnowledgeStore> {
+    this.validateCollection(collection);
+
+    if (!this.stores.has(collection)) {
+      const store = createKnowledgeStore(
+        this.configService,
+        this.embeddings,
+        collection,
+      );
+      const loading = store.load().then(() => store);
+      // Chargement en échec : oublié, pour être retenté au prochain accès
+      loading.catch(() => {
+        if (this.stores.get(collection) === loading) {
+          this.stores.delete(collection);
+        }
+      });
+      this.stores.set(collection, loading);
+    }
+    return this.stores.get(collection);
+  }
+
+  /**
+   * Compteurs du cache d'embeddings : textes servis par le cache et envoyés au modèle
+   */
+  getEmbeddingStats(): EmbeddingCacheStats {
+    return this.embeddings.getStats();
+  }
+
+  /**
+   * Complète et valide les options de découpage
+   * @throws BadRequestException si la stratégie ou les tailles sont invalides
+   */
+  resolveChunking(chunking?: ChunkingOptions): Required<ChunkingOptions> {
+    try {
+      return resolveChunkingOptions(chunking);
+    } catch (error) {
+      throw new BadRequestException(
+        errorBody(
+          'INVALID_CHUNKING',
+          `Options de découpage invalides : ${error.message}`,
+        ),
+      );
+    }
+  }
+
+  /**
+   * Charge un fichier avec le parser correspondant à son format
+   * @returns le parser et les documents, ou undefined si le format n'est pas supporté
+   */
+  private async loadFile(
+    file: Express.Multer.File,
+  ): Promise<{ loader: DocumentLoaderEntry; docs: Document[] } | undefined> {
+    const loader = findDocumentLoader(file);
+    if (!loader) return undefined;
+
+    // Créer un Blob à partir du buffer du fichier
+    const blob = new Blob([file.buffer], { type: file.mimetype });
+
+    const docs = (await loader.load(blob)).map((doc) => {
+      // Les loaders indiquent "blob" comme source : on garde le nom du fichier
+      doc.metadata = { ...doc.metadata, source: file.originalname };
+      return doc;
     });
+    return { loader, docs };
+  }
+
+  /**
+   * Découpe, vectorise et enregistre des documents dans une collection
+   * Un contenu déjà ingéré dans la collection (même empreinte) n'est pas ajouté une seconde fois
+   * @returns fiche catalogue et chunks créés, ou fiche existante si doublon
+   */
+  private async ingest(
+    collection: string,
+    documents: Document[],
+    source: {
+      source: string;
+      type: KnowledgeDocumentType;
+      size: number;
+      contentHash: string;
+    },
+    { tags = {}, chunking }: IngestOptions = {},
+  ): Promise<{
+    record: KnowledgeDocument;
+    allSplits: Document[];
+    duplicate?: boolean;
+  }> {
+    const store = await this.getStore(collection);
+    const existing = store.findDocumentByHash(source.contentHash);
+    if (existing) {
+      return { record: existing, allSplits: [], duplicate: true };
+    }
 
-    const allSplits = await textSplitter.splitDocuments(documents);
+    const documentId = randomUUID();
+    const ingestedAt = new Date().toISOString();
+
+    // Découper les documents en chunks
+    const chunkingOptions = this.resolveChunking(chunking);
+    const allSplits = await splitDocuments(documents, chunkingOptions);
+    // Identifier chaque chunk et le rattacher à son document pour pouvoir le supprimer
+    // Les tags ne peuvent pas écraser les metadata du loader ni celles du catalogue
+    for (const split of allSplits) {
+      split.id = randomUUID();
+      split.metadata = {
+        ...tags,
+        ...split.metadata,
+        documentId,
+        ingestedAt,
+        chunking: chunkingOptions,
+      };
+    }
     // Créer les embeddings pour les chunks
     const embeddingsVectors = await this.embeddings.embedDocuments(
-      // docs.map((doc) => doc.pageContent),
       allSplits.map((split) => split.pageContent),
     );
 
-    await this.vectorStore.addVectors(embeddingsVectors, allSplits);
+    const record: KnowledgeDocument = {
+      id: documentId,
+      ...source,
+      pages: documents.length,
+      chunkIds: allSplits.map((split) => split.id),
+      tags,
+      chunking: chunkingOptions,
+      ingestedAt,
+    };
+    // Même contenu ingéré en parallèle pendant le calcul des embeddings
+    const concurrent = store.findDocumentByHash(source.contentHash);
+    if (concurrent) {
+      return { record: concurrent, allSplits: [], duplicate: true };
+    }
+    await store.addDocument(record, embeddingsVectors, allSplits);
 
-    return allSplits;
+    return { record, allSplits };
   }
 
-  async ingestPdfFile(file: Express.Multer.File) {
+  /**
+   * Ingère un fichier avec le parser correspondant à son format
+   * Un format non supporté ne lève pas d'erreur : il est signalé dans le résultat du fichier
+   * @param options tags ajoutés aux metadata des chunks et stratégie de découpage
+   */
+  async ingestFile(
+    collection: string,
+    file: Express.Multer.File,
+    options?: IngestOptions,
+  ) {
     if (!file) {
-      return [];
+      throw invalidField('files', 'Aucun fichier à ingérer');
+    }
+
+    if (!findDocumentLoader(file)) {
+      return {
+        message: 'Fichier ignoré',
+        originalName: file.originalname,
+        size: file.size,
+        error: `Format de fichier non supporté : ${file.mimetype}`,
+      };
     }
 
     try {
-      // Créer un Blob à partir du buffer du fichier
-      const blob = new Blob([file.buffer], { type: 'application/pdf' });
+      const { loader, docs } = await this.loadFile(file);
 
-      // Utiliser PDFLoader pour charger le PDF
-      const loader = new PDFLoader(blob);
-      const docs = await loader.load();
+      const { record, allSplits, duplicate } = await this.ingest(
+        collection,
+        docs,
+        {
+          source: file.originalname,
+          type: loader.type,
+          size: file.size,
+          contentHash: hashContent(file.buffer),
+        },
+        options,
+      );
 
-      const allSplits = await this.ingest(docs);
+      if (duplicate) {
+        return {
+          message: 'Document déjà ingéré',
+          duplicate: true,
+          documentId: record.id,
+          originalName: file.originalname,
+        };
+      }
 
       return {
-        message: 'PDF ingéré avec succès',
+        message: 'Fichier ingéré avec succès',
+        format: loader.type,
+        documentId: record.id,
         originalName: file.originalname,
         size: file.size,
         pages: docs.length,
@@ -70,23 +294,48 @@ export class KnowledgeService {
       };
     } catch (error) {
       throw new BadRequestException(
-        `Erreur lors du traitement du PDF: ${error.message}`,
+        errorBody(
+          'INGESTION_FAILED',
+          `Erreur lors du traitement du fichier ${file.originalname} : ${error.message}`,
+          { source: file.originalname },
+        ),
       );
     }
   }
 
-  async ingestUrl(url: string) {
+  async ingestUrl(collection: string, url: string, options?: IngestOptions) {
     if (!url) {
-      return [];
+      throw invalidField('urls', 'Aucune URL à ingérer');
     }
 
     try {
       const docs = await new CheerioWebBaseLoader(url).load();
 
-      const allSplits = await this.ingest(docs);
+      const content = docs.map((doc) => doc.pageContent).join('\n');
+      const { record, allSplits, duplicate } = await this.ingest(
+        collection,
+        docs,
+        {
+          source: url,
+          type: 'url',
+          size: Buffer.byteLength(content),
+          contentHash: hashContent(content),
+        },
+        options,
+      );
+
+      if (duplicate) {
+        return {
+          message: 'Document déjà ingéré',
+          duplicate: true,
+          documentId: record.id,
+          originalName: url,
+        };
+      }
 
       return {
         message: 'URL ingérée avec succès',
+        documentId: record.id,
         originalName: url,
         chunks: allSplits.length,
         documents: docs.map((doc, index) => ({
@@ -99,40 +348,307 @@ export class KnowledgeService {
       };
     } catch (error) {
       throw new BadRequestException(
-        `Erreur lors du traitement du PDF: ${error.message}`,
+        errorBody(
+          'INGESTION_FAILED',
+          `Erreur lors du traitement de l'URL ${url} : ${error.message}`,
+          { source: url },
+        ),
+      );
+    }
+  }
+
+  /**
+   * Ingère une page explorée par le crawler, comme un document à part entière du catalogue
+   */
+  async ingestPage(
+    collection: string,
+    page: CrawledPage,
+    options?: IngestOptions,
+  ) {
+    try {
+      const { record, allSplits, duplicate } = await this.ingest(
+        collection,
+        [
+          new Document({
+            pageContent: page.text,
+            metadata: { source: page.url, title: page.title },
+          }),
+        ],
+        {
+          source: page.url,
+          type: 'url',
+          size: Buffer.byteLength(page.text),
+          contentHash: hashContent(page.text),
+        },
+        options,
+      );
+
+      if (duplicate) {
+        return {
+          message: 'Document déjà ingéré',
+          duplicate: true,
+          documentId: record.id,
+          originalName: page.url,
+        };
+      }
+
+      return {
+        message: 'Page ingérée avec succès',
+        documentId: record.id,
+        originalName: page.url,
+        title: page.title,
+        chunks: allSplits.length,
+      };
+    } catch (error) {
+      throw new BadRequestException(
+        errorBody(
+          'INGESTION_FAILED',
+          `Erreur lors du traitement de la page ${page.url} : ${error.message}`,
+          { source: page.url },
+        ),
+      );
+    }
+  }
+
+  /**
+   * Montre le découpage d'un fichier ou d'un texte, sans rien enregistrer
+   * @param input fichier (parsé comme à l'ingestion) ou texte brut
+   */
+  async previewChunks(
+    input: { file?: Express.Multer.File; text?: string },
+    chunking?: ChunkingOptions,
+  ) {
+    const chunkingOptions = this.resolveChunking(chunking);
+
+    let docs: Document[];
+    if (input.file) {
+      const loaded = await this.loadFile(input.file);
+      if (!loaded) {
+        throw new BadRequestException(
+          errorBody(
+            'UNSUPPORTED_FORMAT',
+            `Format de fichier non supporté : ${input.file.mimetype}`,
+          ),
+        );
+      }
+      docs = loaded.docs;
+    } else if (input.text?.trim()) {
+      docs = [new Document({ pageContent: input.text, metadata: {} })];
+    } else {
+      throw invalidField('text', 'Un fichier ou un texte est requis');
+    }
+
+    const chunks = await splitDocuments(docs, chunkingOptions);
+    return {
+      chunking: chunkingOptions,
+      count: chunks.length,
+      chunks: chunks.map((chunk) => ({
+        content: chunk.pageContent,
+        length: chunk.pageContent.length,
+        metadata: chunk.metadata,
+      })),
+    };
+  }
+
+  async listDocuments(collection: string): Promise<KnowledgeDocument[]> {
+    return (await this.getStore(collection)).listDocuments();
+  }
+
+  async getDocument(
+    collection: string,
+    id: string,
+  ): Promise<KnowledgeDocument> {
+    const record = (await this.getStore(collection)).getDocument(id);
+    if (!record) {
+      throw new NotFoundException(
+        errorBody('DOCUMENT_NOT_FOUND', `Document introuvable : ${id}`),
+      );
+    }
+    return record;
+  }
+
+  /**
+   * Supprime un document et ses chunks : ils ne sortiront plus dans les recherches
+   */
+  async deleteDocument(collection: string, id: string) {
+    const record = await (await this.getStore(collection)).deleteDocument(id);
+    if (!record) {
+      throw new NotFoundException(
+        errorBody('DOCUMENT_NOT_FOUND', `Document introuvable : ${id}`),
       );
     }
+    return {
+      message: 'Document supprimé avec succès',
+      id: record.id,
+      chunks: record.chunkIds.length,
+    };
+  }
+
+  /**
+   * Supprime une collection entière : documents, chunks et données sauvegardées
+   */
+  async deleteCollection(collection: string): Promise<void> {
+    const store = await this.getStore(collection);
+    this.stores.delete(collection);
+    await store.drop();
   }
 
-  async search(query: string) {
+  /**
+   * Recherche les chunks les plus pertinents d'une collection
+   * Avec re-classement, un ensemble plus large de candidats est noté par le scorer,
+   * les chunks sous le seuil de pertinence sont écartés et les k résultats sont
+   * diversifiés par MMR. Sans seuil dans la requête, RERANK_THRESHOLD ne s'applique
+   * qu'avec un scorer calibré (llm) : le scorer lexical se contente de re-classer
+   * @param options mode de recherche (vector, keyword, hybrid), nombre de résultats,
+   * filtre sur les metadata et re-classement
+   */
+  async search(
+    collection: string,
+    query: string,
+    {
+      mode = 'hybrid',
+      k = 3,
+      filter,
+      rerank = true,
+      threshold = this.relevanceScorer?.calibrated
+        ? Number(this.configService.get<string>('RERANK_THRESHOLD', '0.3'))
+        : 0,
+    }: SearchOptions = {},
+  ) {
     if (!query || query.trim() === '') {
-      throw new BadRequestException('La requête ne peut pas être vide');
+      throw invalidField('query', 'La requête ne peut pas être vide');
+    }
+    if (!SEARCH_MODES.includes(mode)) {
+      throw invalidField('mode', `Mode de recherche inconnu : ${mode}`);
+    }
+    if (!Number.isInteger(k) || k < 1 || k > MAX_SEARCH_RESULTS) {
+      throw invalidField(
+        'k',
+        `k doit être un entier entre 1 et ${MAX_SEARCH_RESULTS}`,
+      );
     }
 
-    // Convertir la requête en vecteurs
-    const embedding = await this.embeddings.embedQuery(query);
+    if (typeof threshold !== 'number' || threshold < 0 || threshold > 1) {
+      throw invalidField(
+        'threshold',
+        'threshold doit être compris entre 0 et 1',
+      );
+    }
+
+    if (filter !== undefined) {
+      try {
+        validateMetadataFilter(filter);
+      } catch (error) {
+        throw new BadRequestException(
+          errorBody('INVALID_FILTER', `Filtre invalide : ${error.message}`),
+        );
+      }
+    }
 
-    // recherche dans les données vectorisées
-    const results = await this.vectorStore.similaritySearchVectorWithScore(
-      embedding,
-      3,
+    const store = await this.getStore(collection);
+    const reranked = rerank && this.relevanceScorer !== undefined;
+    const candidates = await this.searchStore(
+      store,
+      query,
+      mode,
+      reranked
+        ? Math.max(
+            k,
+            Number(this.configService.get<string>('RERANK_CANDIDATES', '20')),
+          )
+        : k,
+      filter &&
+        ((doc: Document) => matchesMetadataFilter(doc.metadata, filter)),
     );
+    const results = reranked
+      ? await this.rerank(store, query, candidates, k, threshold)
+      : candidates;
 
-    if (results.length === 0) {
+    if (candidates.length === 0) {
       return {
         message:
           'Aucun résultat trouvé. Assurez-vous que des documents ont été ingérés.',
         results: [],
       };
     }
+    if (results.length === 0) {
+      return {
+        message: `Aucun résultat pertinent : aucun chunk n'atteint le seuil de pertinence (${threshold})`,
+        results: [],
+      };
+    }
 
     return {
       message: `résultat trouvé`,
+      mode,
       results: results.map(([doc, score]) => ({
+        chunkId: doc.id,
         content: doc.pageContent,
         metadata: doc.metadata,
         score: score,
       })),
     };
   }
+
+  /**
+   * Re-classe les candidats avec le scorer, écarte ceux sous le seuil et diversifie par MMR
+   * @returns k chunks au plus, avec leur score de pertinence
+   */
+  private async rerank(
+    store: MemoryKnowledgeStore,
+    query: string,
+    candidates: [Document, number][],
+    k: number,
+    threshold: number,
+  ): Promise<[Document, number][]> {
+    const scores = await this.relevanceScorer.score(
+      query,
+      candidates.map(([doc]) => doc.pageContent),
+    );
+    const relevant = candidates
+      .map(([doc], index): [Document, number] => [doc, scores[index]])
+      .filter(([, score]) => score >= threshold);
+
+    return selectByMmr(
+      relevant.map(([, score]) => score),
+      store.getEmbeddings(relevant.map(([doc]) => doc.id)),
+      k,
+      Number(this.configService.get<string>('RERANK_MMR_LAMBDA', '0.7')),
+    ).map((index) => relevant[index]);
+  }
+
+  private async searchStore(
+    store: MemoryKnowledgeStore,
+    query: string,
+    mode: SearchMode,
+    k: number,
+    filter?: (doc: Document) => boolean,
+  ): Promise<[Document, number][]> {
+    switch (mode) {
+      case 'vector':
+        // Convertir la requête en vecteurs puis rechercher dans les données vectorisées
+        return store.similaritySearchVectorWithScore(
+          await this.embeddings.embedQuery(query),
+          k,
+          filter,
+        );
+      case 'keyword':
+        return store.keywordSearch(query, k, filter);
+      case 'hybrid': {
+        // Classements plus larges que k pour que la fusion ait de quoi départager
+        const candidates = Math.max(k * 4, 20);
+        const rankings = await Promise.all([
+          this.searchStore(store, query, 'vector', candidates, filter),
+          this.searchStore(store, query, 'keyword', candidates, filter),
+        ]);
+        const chunks = new Map(rankings.flat().map(([doc]) => [doc.id, doc]));
+
+        return reciprocalRankFusion(
+          rankings.map((ranking) => ranking.map(([doc]) => doc.id)),
+        )
+          .slice(0, k)
+          .map(({ id, score }) => [chunks.get(id), score]);
+      }
+    }
+  }
 }
@@ -0,0 +1,44 @@
+import { findDocumentLoader } from './document-loader.registry';
+
+describe('findDocumentLoader', () => {
+  it('should pick the loader by extension before MIME type', () => {
+    const loader = findDocumentLoader({
+      originalname: 'README.md',
+      mimetype: 'application/octet-stream',
+    });
+
+    expect(loader?.type).toBe('markdown');
+  });
+
+  it('should return undefined for an unsupported format', () => {
+    expect(
+      findDocumentLoader({ originalname: 'photo.png', mimetype: 'image/png' }),
+    ).toBeUndefined();
+  });
+
+  it('should attach heading paths to Markdown sections', async () => {
+    const loader = findDocumentLoader({
+      originalname: 'guide.md',
+      mimetype: 'text/markdown',
+    });
+    const docs = await loader.load(
+      new Blob(['# Guide\nintro\n## Install\n```\n# not a heading\n```\n']),
+    );
+
+    expect(docs.map((doc) => doc.metadata.headings)).toEqual([
+      ['Guide'],
+      ['Guide', 'Install'],
+    ]);
+  });
+
+  it('should number CSV rows', async () => {
+    const loader = findDocumentLoader({
+      originalname: 'export.csv',
+      mimetype: 'text/csv',
+    });
+    const docs = await loader.load(new Blob(['id,name\n1,foo\n2,bar\n']));
+
+    expect(docs.map((doc) => doc.metadata.row)).toEqual([1, 2]);
+    expect(docs[1].pageContent).toBe('id: 2\nname: bar');
+  });
+});
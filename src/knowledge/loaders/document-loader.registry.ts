@@ -0,0 +1,99 @@
+import { Document } from '@langchain/core/documents';
+import { PDFLoader } from '@langchain/community/document_loaders/fs/pdf';
+import { DocxLoader } from '@langchain/community/document_loaders/fs/docx';
+import { CSVLoader } from '@langchain/community/document_loaders/fs/csv';
+import { TextLoader } from 'langchain/document_loaders/fs/text';
+import { extname } from 'node:path';
+import { KnowledgeDocumentType } from '../interfaces/knowledge-document.interface';
+import { loadHtml } from './html.loader';
+import { loadMarkdown } from './markdown.loader';
+
+/**
+ * Parser d'un format de fichier supporté à l'ingestion
+ */
+export interface DocumentLoaderEntry {
+  type: KnowledgeDocumentType;
+  mimeTypes: string[];
+  // Extensions en minuscules, point compris
+  extensions: string[];
+  load(blob: Blob): Promise<Document[]>;
+}
+
+export const DOCUMENT_LOADERS: DocumentLoaderEntry[] = [
+  {
+    type: 'pdf',
+    mimeTypes: ['application/pdf'],
+    extensions: ['.pdf'],
+    load: (blob) => new PDFLoader(blob).load(),
+  },
+  {
+    type: 'docx',
+    mimeTypes: [
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    ],
+    extensions: ['.docx'],
+    load: (blob) => new DocxLoader(blob).load(),
+  },
+  {
+    type: 'markdown',
+    mimeTypes: ['text/markdown', 'text/x-markdown'],
+    extensions: ['.md', '.markdown'],
+    load: async (blob) => loadMarkdown(await blob.text()),
+  },
+  {
+    type: 'html',
+    mimeTypes: ['text/html', 'application/xhtml+xml'],
+    extensions: ['.html', '.htm', '.xhtml'],
+    load: async (blob) => loadHtml(await blob.text()),
+  },
+  {
+    type: 'csv',
+    mimeTypes: ['text/csv', 'application/csv'],
+    extensions: ['.csv'],
+    // Une ligne du CSV par document, numérotée à partir de 1 (hors en-tête)
+    load: async (blob) =>
+      (await new CSVLoader(blob).load()).map(
+        ({ pageContent, metadata: { line, ...metadata } }) =>
+          new Document({ pageContent, metadata: { ...metadata, row: line } }),
+      ),
+  },
+  {
+    type: 'json',
+    mimeTypes: ['application/json'],
+    extensions: ['.json'],
+    // Un tableau à la racine donne un document par élément
+    load: async (blob) => {
+      const data = JSON.parse(await blob.text());
+      const items: unknown[] = Array.isArray(data) ? data : [data];
+      return items.map(
+        (item, index) =>
+          new Document({
+            pageContent: JSON.stringify(item, null, 2),
+            metadata: Array.isArray(data) ? { index } : {},
+          }),
+      );
+    },
+  },
+  {
+    type: 'text',
+    mimeTypes: ['text/plain'],
+    extensions: ['.txt', '.text', '.log'],
+    load: (blob) => new TextLoader(blob).load(),
+  },
+];
+
+/**
+ * Choisit le parser d'un fichier, d'abord par extension puis par type MIME
+ * (les navigateurs envoient souvent application/octet-stream pour .md ou .csv)
+ * @returns le parser, ou undefined si le format n'est pas supporté
+ */
+export function findDocumentLoader(file: {
+  originalname: string;
+  mimetype: string;
+}): DocumentLoaderEntry | undefined {
+  const extension = extname(file.originalname ?? '').toLowerCase();
+  return (
+    DOCUMENT_LOADERS.find((loader) => loader.extensions.includes(extension)) ??
+    DOCUMENT_LOADERS.find((loader) => loader.mimeTypes.includes(file.mimetype))
+  );
+}
@@ -0,0 +1,57 @@
+import { Document } from '@langchain/core/documents';
+import * as cheerio from 'cheerio';
+
+// Balises dont le contenu n'est jamais du texte utile
+const NON_CONTENT_SELECTORS = 'script, style, noscript, template, svg';
+
+// Blocs de navigation répétés sur chaque page d'un site
+const BOILERPLATE_SELECTORS =
+  'nav, header, footer, aside, [role="navigation"], [role="banner"], [role="contentinfo"]';
+
+// Séparateur provisoire autour des titres, remplacé par un saut de ligne
+const HEADING_BREAK = '\u0001';
+
+/**
+ * Extrait le titre et le texte lisible d'une page HTML, sans navigation ni pied de page
+ * Se limite au contenu principal (<main> ou <article>) quand la page en déclare un
+ * Les titres <h1> à <h6> sont conservés sur leur propre ligne au format Markdown
+ * ("## Titre") pour permettre un découpage par section
+ * @param html contenu HTML brut
+ */
+export function extractHtml(html: string): { title: string; text: string } {
+  const $ = cheerio.load(html);
+  const title = $('title').first().text().trim();
+  $(NON_CONTENT_SELECTORS).remove();
+  $(BOILERPLATE_SELECTORS).remove();
+
+  const main = $('main, [role="main"], article').first();
+  const content = main.length > 0 ? main : $('body');
+
+  content.find('h1, h2, h3, h4, h5, h6').each((_, heading) => {
+    const level = Number(heading.tagName.slice(1));
+    const text = $(heading).text().replace(/\s+/g, ' ').trim();
+    $(heading).replaceWith(
+      `${HEADING_BREAK}${'#'.repeat(level)} ${text}${HEADING_BREAK}`,
+    );
+  });
+
+  return {
+    title,
+    // Normalise les espaces pour ne pas conserver l'indentation du HTML
+    text: content
+      .text()
+      .replace(/\s+/g, ' ')
+      .split(HEADING_BREAK)
+      .map((block) => block.trim())
+      .filter(Boolean)
+      .join('\n'),
+  };
+}
+
+/**
+ * Charge un fichier HTML en un document, avec le titre de la page en metadata
+ */
+export function loadHtml(html: string): Document[] {
+  const { title, text } = extractHtml(html);
+  return [new Document({ pageContent: text, metadata: { title } })];
+}
@@ -0,0 +1,49 @@
+import { Document } from '@langchain/core/documents';
+
+// Titre Markdown au format ATX : "# Titre", "## Sous-titre"...
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+
+/**
+ * Découpe un fichier Markdown en sections, une par titre
+ * Chaque section garde en metadata le chemin des titres qui la contiennent
+ * @param markdown contenu Markdown brut
+ */
+export function loadMarkdown(markdown: string): Document[] {
+  const documents: Document[] = [];
+  // Pile des titres parents, indexée par niveau
+  const headings: string[] = [];
+  let lines: string[] = [];
+  let inCodeBlock = false;
+
+  const flush = () => {
+    const pageContent = lines.join('\n').trim();
+    if (pageContent) {
+      documents.push(
+        new Document({
+          pageContent,
+          metadata: { headings: headings.filter(Boolean) },
+        }),
+      );
+    }
+    lines = [];
+  };
+
+  for (const line of markdown.split(/\r?\n/)) {
+    // Un "#" dans un bloc de code n'est pas un titre
+    if (line.trimStart().startsWith('```')) inCodeBlock = !inCodeBlock;
+
+    const match = !inCodeBlock && line.match(HEADING_PATTERN);
+    if (match) {
+      flush();
+      const level = match[1].length;
+      headings.length = Math.min(headings.length, level - 1);
+      // Niveaux sautés (ex : "#" puis "###") : emplacement vide, filtré à l'écriture
+      while (headings.length < level - 1) headings.push('');
+      headings.push(match[2]);
+    }
+    lines.push(line);
+  }
+  flush();
+
+  return documents;
+}
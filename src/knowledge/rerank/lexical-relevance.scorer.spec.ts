@@ -0,0 +1,18 @@
+import { LexicalRelevanceScorer } from './lexical-relevance.scorer';
+
+describe('LexicalRelevanceScorer', () => {
+  const scorer = new LexicalRelevanceScorer();
+
+  it('should score passages by the query terms they contain', async () => {
+    const scores = await scorer.score('What does error E42 mean?', [
+      'The error code E42 means disk full.',
+      'Error E17 is a network timeout.',
+      'Our office is closed on Sundays.',
+    ]);
+
+    expect(scores[0]).toBe(1);
+    expect(scores[1]).toBeGreaterThan(0);
+    expect(scores[1]).toBeLessThan(0.5);
+    expect(scores[2]).toBe(0);
+  });
+});
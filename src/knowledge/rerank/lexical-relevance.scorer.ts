@@ -0,0 +1,45 @@
+import { RelevanceScorer } from '../interfaces/relevance-scorer.interface';
+import { tokenize } from '../search/bm25-index';
+
+// Mots trop fréquents pour indiquer la pertinence d'un passage (anglais et français)
+const STOP_WORDS = new Set(
+  (
+    'a an and are as at be by can do does for from how i in is it of on or the this to' +
+    ' what when where which who why with au aux ce comment de des du est et il la le' +
+    ' les un une ou où par pour quel quelle que qui quoi sur'
+  ).split(' '),
+);
+
+// Longueur minimum pour rapprocher deux formes d'un même mot ("mean" et "means")
+const MIN_STEM_LENGTH = 4;
+
+const sameWord = (a: string, b: string) =>
+  a === b ||
+  (Math.min(a.length, b.length) >= MIN_STEM_LENGTH &&
+    (a.startsWith(b) || b.startsWith(a)));
+
+/**
+ * Scorer local, sans appel de modèle : part des termes de la requête présents dans le passage
+ * Les termes contenant des chiffres (codes, versions, références) comptent double
+ */
+export class LexicalRelevanceScorer implements RelevanceScorer {
+  // Une paraphrase sans mot commun avec la requête obtient 0 : le score sert à classer, pas à filtrer
+  readonly calibrated = false;
+
+  async score(query: string, passages: string[]): Promise<number[]> {
+    const terms = [...new Set(tokenize(query))].filter(
+      (term) => !STOP_WORDS.has(term),
+    );
+    const weight = (term: string) => (/\d/.test(term) ? 2 : 1);
+    const total = terms.reduce((sum, term) => sum + weight(term), 0);
+    if (total === 0) return passages.map(() => 0);
+
+    return passages.map((passage) => {
+      const words = new Set(tokenize(passage));
+      const matched = terms
+        .filter((term) => [...words].some((word) => sameWord(term, word)))
+        .reduce((sum, term) => sum + weight(term), 0);
+      return matched / total;
+    });
+  }
+}
@@ -0,0 +1,32 @@
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import { RelevanceScorer } from '../interfaces/relevance-scorer.interface';
+
+const SYSTEM_PROMPT =
+  'You grade search results. Rate from 0 to 10 how useful the passage is to answer the query:' +
+  ' 0 means unrelated, 10 means it directly answers it. Reply with the number only.';
+
+/**
+ * Scorer qui demande à un LLM une note de pertinence pour chaque passage
+ * Une réponse sans note est comptée comme non pertinente
+ */
+export class LlmRelevanceScorer implements RelevanceScorer {
+  readonly calibrated = true;
+
+  constructor(private readonly llm: BaseChatModel) {}
+
+  async score(query: string, passages: string[]): Promise<number[]> {
+    return Promise.all(
+      passages.map(async (passage) => {
+        const response = await this.llm.invoke([
+          new SystemMessage(SYSTEM_PROMPT),
+          new HumanMessage(`Query: ${query}\n\nPassage:\n${passage}`),
+        ]);
+        const grade = Number(
+          String(response.content).match(/\d+(\.\d+)?/)?.[0],
+        );
+        return Number.isNaN(grade) ? 0 : Math.min(grade, 10) / 10;
+      }),
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { ConfigService } from '@nestjs/config';
+import { ProvidersService } from '../../providers/providers.service';
+import { RelevanceScorer } from '../interfaces/relevance-scorer.interface';
+import { LexicalRelevanceScorer } from './lexical-relevance.scorer';
+import { LlmRelevanceScorer } from './llm-relevance.scorer';
+
+// Scorers disponibles pour le re-classement : local, LLM, ou aucun re-classement
+export type RelevanceScorerType = 'lexical' | 'llm' | 'none';
+
+/**
+ * Crée le scorer de re-classement, selon la variable RERANK_SCORER
+ * Le scorer llm utilise le modèle de l'agent "Reranker" (RERANKER_LLM_*, sinon LLM_*)
+ * @returns le scorer, ou undefined si le re-classement est désactivé
+ */
+export function createRelevanceScorer(
+  configService: ConfigService,
+  providersService: ProvidersService,
+): RelevanceScorer | undefined {
+  const scorer = configService.get<RelevanceScorerType>(
+    'RERANK_SCORER',
+    'lexical',
+  );
+
+  switch (scorer) {
+    case 'lexical':
+      return new LexicalRelevanceScorer();
+    case 'llm':
+      return new LlmRelevanceScorer(
+        providersService.createChatModel('Reranker'),
+      );
+    case 'none':
+      return undefined;
+    default:
+      throw new Error(`Scorer de re-classement inconnu : ${scorer}`);
+  }
+}
@@ -0,0 +1,40 @@
+import { Bm25Index, tokenize } from './bm25-index';
+
+describe('Bm25Index', () => {
+  it('should keep compound terms alongside their parts', () => {
+    expect(tokenize('Error AB-1234 in v2.3')).toEqual([
+      'error',
+      'ab-1234',
+      'ab',
+      '1234',
+      'in',
+      'v2.3',
+      'v2',
+      '3',
+    ]);
+  });
+
+  it('should rank exact code matches first', () => {
+    const index = new Bm25Index();
+    index.add('a', 'The printer shows error E-4012 when the tray is empty');
+    index.add('b', 'Error codes are listed in the appendix');
+    index.add('c', 'Paper jams are cleared from the rear panel');
+
+    expect(index.search('E-4012', 3).map((result) => result.id)).toEqual(['a']);
+    expect(index.search('error', 3).map((result) => result.id)).toEqual(
+      expect.arrayContaining(['a', 'b']),
+    );
+  });
+
+  it('should forget removed documents', () => {
+    const index = new Bm25Index();
+    index.add('a', 'alpha beta');
+    index.add('b', 'beta gamma');
+    index.remove('a');
+
+    expect(index.size).toBe(1);
+    expect(index.search('alpha beta', 3).map((result) => result.id)).toEqual([
+      'b',
+    ]);
+  });
+});
@@ -0,0 +1,111 @@
+// Paramètres BM25 usuels : saturation de la fréquence et normalisation par la longueur
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * Découpe un texte en termes pour l'index
+ * Les termes composés (ex : "AB-1234", "v2.3") sont gardés entiers en plus de leurs parties,
+ * pour retrouver les références exactes (codes d'erreur, numéros de pièce...)
+ */
+export function tokenize(text: string): string[] {
+  const compounds =
+    text.toLowerCase().match(/[\p{L}\p{N}]+(?:[-_.][\p{L}\p{N}]+)*/gu) ?? [];
+  return compounds.flatMap((compound) => {
+    const parts = compound.split(/[-_.]/);
+    return parts.length > 1 ? [compound, ...parts] : parts;
+  });
+}
+
+/**
+ * Index de recherche par mots-clés (BM25), en mémoire
+ */
+export class Bm25Index {
+  // Fréquence de chaque terme par document
+  private readonly termFrequencies = new Map<string, Map<string, number>>();
+  // Nombre de termes par document
+  private readonly lengths = new Map<string, number>();
+  // Nombre de documents contenant chaque terme
+  private readonly documentFrequencies = new Map<string, number>();
+  private totalLength = 0;
+
+  get size(): number {
+    return this.lengths.size;
+  }
+
+  add(id: string, text: string): void {
+    if (this.lengths.has(id)) this.remove(id);
+
+    const terms = tokenize(text);
+    const frequencies = new Map<string, number>();
+    for (const term of terms) {
+      frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+    }
+    for (const term of frequencies.keys()) {
+      this.documentFrequencies.set(
+        term,
+        (this.documentFrequencies.get(term) ?? 0) + 1,
+      );
+    }
+
+    this.termFrequencies.set(id, frequencies);
+    this.lengths.set(id, terms.length);
+    this.totalLength += terms.length;
+  }
+
+  remove(id: string): void {
+    const frequencies = this.termFrequencies.get(id);
+    if (!frequencies) return;
+
+    for (const term of frequencies.keys()) {
+      const count = this.documentFrequencies.get(term) - 1;
+      if (count > 0) this.documentFrequencies.set(term, count);
+      else this.documentFrequencies.delete(term);
+    }
+    this.totalLength -= this.lengths.get(id);
+    this.termFrequencies.delete(id);
+    this.lengths.delete(id);
+  }
+
+  clear(): void {
+    this.termFrequencies.clear();
+    this.lengths.clear();
+    this.documentFrequencies.clear();
+    this.totalLength = 0;
+  }
+
+  /**
+   * Recherche les documents les plus pertinents pour une requête
+   * @param filter restreint la recherche à certains documents
+   * @returns identifiants et scores BM25, du plus pertinent au moins pertinent
+   */
+  search(
+    query: string,
+    k: number,
+    filter?: (id: string) => boolean,
+  ): { id: string; score: number }[] {
+    const terms = [...new Set(tokenize(query))];
+    const averageLength = this.totalLength / (this.size || 1);
+    const results: { id: string; score: number }[] = [];
+
+    for (const [id, frequencies] of this.termFrequencies) {
+      if (filter && !filter(id)) continue;
+
+      let score = 0;
+      for (const term of terms) {
+        const frequency = frequencies.get(term);
+        if (!frequency) continue;
+        const documentFrequency = this.documentFrequencies.get(term);
+        const idf = Math.log(
+          1 + (this.size - documentFrequency + 0.5) / (documentFrequency + 0.5),
+        );
+        score +=
+          (idf * frequency * (K1 + 1)) /
+          (frequency +
+            K1 * (1 - B + (B * this.lengths.get(id)) / averageLength));
+      }
+      if (score > 0) results.push({ id, score });
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, k);
+  }
+}
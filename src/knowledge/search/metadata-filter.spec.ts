@@ -0,0 +1,56 @@
+import {
+  matchesMetadataFilter,
+  validateMetadataFilter,
+} from './metadata-filter';
+
+describe('matchesMetadataFilter', () => {
+  const metadata = {
+    team: 'billing',
+    version: '2.3',
+    source: 'https://docs.example.com/billing/invoices',
+    ingestedAt: '2024-06-15T10:00:00.000Z',
+    loc: { pageNumber: 4 },
+  };
+
+  it('should combine equality, in, prefix and ranges', () => {
+    expect(
+      matchesMetadataFilter(metadata, {
+        team: 'billing',
+        version: { in: ['2.3', '2.4'] },
+        source: { prefix: 'https://docs.example.com/' },
+        ingestedAt: { gte: '2024-01-01', lt: '2025-01-01' },
+        'loc.pageNumber': { lte: 4 },
+      }),
+    ).toBe(true);
+  });
+
+  it('should reject when one condition fails or the field is missing', () => {
+    expect(matchesMetadataFilter(metadata, { team: 'support' })).toBe(false);
+    expect(
+      matchesMetadataFilter(metadata, { ingestedAt: { gt: '2024-07-01' } }),
+    ).toBe(false);
+    expect(matchesMetadataFilter(metadata, { product: { eq: 'x' } })).toBe(
+      false,
+    );
+  });
+
+  it('should compare numeric strings as numbers, not as dates', () => {
+    expect(
+      matchesMetadataFilter({ version: '100' }, { version: { gte: '12' } }),
+    ).toBe(true);
+    expect(
+      matchesMetadataFilter({ version: '2.3' }, { version: { lt: '10' } }),
+    ).toBe(true);
+    expect(
+      matchesMetadataFilter({ release: 'beta' }, { release: { gt: 'alpha' } }),
+    ).toBe(true);
+  });
+});
+
+describe('validateMetadataFilter', () => {
+  it('should reject unknown operators', () => {
+    expect(() => validateMetadataFilter({ team: { like: 'bil%' } })).toThrow(
+      'opérateur inconnu',
+    );
+  });
+});
@@ -0,0 +1,124 @@
+// Valeur de metadata comparable
+export type MetadataValue = string | number | boolean;
+
+// Opérateurs applicables à un champ de metadata
+export interface MetadataCondition {
+  eq?: MetadataValue;
+  in?: MetadataValue[];
+  // Bornes de plage : dates ISO 8601 ou nombres
+  gt?: string | number;
+  gte?: string | number;
+  lt?: string | number;
+  lte?: string | number;
+  // Début de la valeur, ex : une URL ou un chemin de source
+  prefix?: string;
+}
+
+/**
+ * Filtre sur les metadata des chunks
+ * Chaque clé est un chemin dans les metadata (ex : "team", "loc.pageNumber"),
+ * associé à une valeur (égalité) ou à des opérateurs ; toutes les conditions doivent être vraies
+ * @example { "team": "billing", "version": { "in": ["2.3", "2.4"] },
+ *   "ingestedAt": { "gte": "2024-01-01" }, "source": { "prefix": "https://docs." } }
+ */
+export type MetadataFilter = Record<string, MetadataValue | MetadataCondition>;
+
+const OPERATORS = ['eq', 'in', 'gt', 'gte', 'lt', 'lte', 'prefix'];
+
+/**
+ * Vérifie la forme d'un filtre reçu de l'extérieur
+ * @throws Error décrivant la première erreur trouvée
+ */
+export function validateMetadataFilter(filter: unknown): MetadataFilter {
+  if (typeof filter !== 'object' || filter === null || Array.isArray(filter)) {
+    throw new Error('le filtre doit être un objet');
+  }
+
+  for (const [path, condition] of Object.entries(filter)) {
+    if (['string', 'number', 'boolean'].includes(typeof condition)) continue;
+    if (typeof condition !== 'object' || condition === null) {
+      throw new Error(`condition invalide pour "${path}"`);
+    }
+    for (const [operator, operand] of Object.entries(condition)) {
+      if (!OPERATORS.includes(operator)) {
+        throw new Error(`opérateur inconnu pour "${path}" : ${operator}`);
+      }
+      if (operator === 'in' && !Array.isArray(operand)) {
+        throw new Error(`"in" attend une liste pour "${path}"`);
+      }
+      if (operator === 'prefix' && typeof operand !== 'string') {
+        throw new Error(`"prefix" attend une chaîne pour "${path}"`);
+      }
+    }
+  }
+  return filter as MetadataFilter;
+}
+
+const getPath = (metadata: Record<string, any>, path: string) =>
+  path.split('.').reduce((value, key) => value?.[key], metadata);
+
+// Date ISO 8601 : "2024-06-15", "2024-06-15T10:00", "2024-06-15T10:00:00.000Z"...
+const ISO_DATE_PATTERN =
+  /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const isIsoDate = (value: unknown): value is string =>
+  typeof value === 'string' &&
+  ISO_DATE_PATTERN.test(value) &&
+  !Number.isNaN(Date.parse(value));
+
+const isNumeric = (value: unknown) =>
+  typeof value === 'number' ||
+  (typeof value === 'string' &&
+    value.trim() !== '' &&
+    Number.isFinite(Number(value)));
+
+/**
+ * Compare deux valeurs de plage : comme des dates si les deux sont des dates ISO 8601,
+ * comme des nombres si les deux sont numériques, sinon comme des chaînes
+ */
+function compare(value: unknown, bound: string | number): number {
+  if (isIsoDate(value) && isIsoDate(bound)) {
+    return Date.parse(value) - Date.parse(bound);
+  }
+  if (isNumeric(value) && isNumeric(bound)) {
+    return Number(value) - Number(bound);
+  }
+  return String(value).localeCompare(String(bound));
+}
+
+function matchesCondition(value: unknown, condition: MetadataCondition) {
+  return Object.entries(condition).every(([operator, operand]) => {
+    if (value === undefined || value === null) return false;
+    switch (operator) {
+      case 'eq':
+        return value === operand;
+      case 'in':
+        return (operand as MetadataValue[]).includes(value as MetadataValue);
+      case 'gt':
+        return compare(value, operand) > 0;
+      case 'gte':
+        return compare(value, operand) >= 0;
+      case 'lt':
+        return compare(value, operand) < 0;
+      case 'lte':
+        return compare(value, operand) <= 0;
+      case 'prefix':
+        return String(value).startsWith(operand);
+    }
+  });
+}
+
+/**
+ * Indique si des metadata satisfont toutes les conditions d'un filtre
+ */
+export function matchesMetadataFilter(
+  metadata: Record<string, any>,
+  filter: MetadataFilter,
+): boolean {
+  return Object.entries(filter).every(([path, condition]) => {
+    const value = getPath(metadata, path);
+    return typeof condition === 'object'
+      ? matchesCondition(value, condition)
+      : value === condition;
+  });
+}
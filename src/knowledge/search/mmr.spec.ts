@@ -0,0 +1,15 @@
+import { selectByMmr } from './mmr';
+
+describe('selectByMmr', () => {
+  it('should prefer a diverse result over a near-duplicate', () => {
+    const embeddings = [
+      [1, 0],
+      [0.99, 0.01],
+      [0, 1],
+    ];
+
+    expect(selectByMmr([0.9, 0.85, 0.6], embeddings, 2, 0.7)).toEqual([0, 2]);
+    // Pertinence seule : l'ordre des scores
+    expect(selectByMmr([0.9, 0.85, 0.6], embeddings, 2, 1)).toEqual([0, 1]);
+  });
+});
@@ -0,0 +1,41 @@
+import { cosineSimilarity } from '@langchain/core/utils/math';
+
+/**
+ * Sélectionne k éléments par Maximal Marginal Relevance
+ * À chaque étape, retient l'élément qui maximise
+ * lambda * pertinence - (1 - lambda) * similarité maximale avec les éléments déjà retenus,
+ * pour éviter de retourner plusieurs passages quasi identiques
+ * @param relevance score de pertinence de chaque élément
+ * @param embeddings vecteur de chaque élément, dans le même ordre
+ * @param lambda 1 : pertinence seule, 0 : diversité seule
+ * @returns index des éléments retenus, dans l'ordre de sélection
+ */
+export function selectByMmr(
+  relevance: number[],
+  embeddings: number[][],
+  k: number,
+  lambda: number,
+): number[] {
+  if (relevance.length === 0) return [];
+  const similarities = cosineSimilarity(embeddings, embeddings);
+
+  const selected: number[] = [];
+  const remaining = new Set(relevance.keys());
+  while (selected.length < k && remaining.size > 0) {
+    let best = -1;
+    let bestScore = -Infinity;
+    for (const index of remaining) {
+      const redundancy = selected.length
+        ? Math.max(...selected.map((other) => similarities[index][other]))
+        : 0;
+      const score = lambda * relevance[index] - (1 - lambda) * redundancy;
+      if (score > bestScore) {
+        best = index;
+        bestScore = score;
+      }
+    }
+    selected.push(best);
+    remaining.delete(best);
+  }
+  return selected;
+}
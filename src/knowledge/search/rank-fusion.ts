@@ -0,0 +1,23 @@
+// Constante usuelle de la fusion RRF : atténue l'écart entre les premiers rangs
+const RRF_K = 60;
+
+/**
+ * Fusionne plusieurs classements par Reciprocal Rank Fusion
+ * Chaque élément reçoit la somme de 1 / (RRF_K + rang) sur les classements où il apparaît
+ * @param rankings listes d'identifiants, du plus pertinent au moins pertinent
+ * @returns identifiants et scores fusionnés, du plus pertinent au moins pertinent
+ */
+export function reciprocalRankFusion(
+  rankings: string[][],
+): { id: string; score: number }[] {
+  const scores = new Map<string, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((id, index) => {
+      scores.set(id, (scores.get(id) ?? 0) + 1 / (RRF_K + index + 1));
+    });
+  }
+
+  return [...scores]
+    .map(([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,63 @@
+import { FakeEmbeddings } from '@langchain/core/utils/testing';
+import { Document } from '@langchain/core/documents';
+import { access, mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileKnowledgeStore } from './file-knowledge.store';
+
+describe('FileKnowledgeStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'knowledge-store-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should reload saved vectors on a new instance', async () => {
+    const filePath = join(dir, 'vectors.json');
+    const store = new FileKnowledgeStore(new FakeEmbeddings(), filePath);
+    await store.load();
+    await store.addVectors(
+      [[0.1, 0.2, 0.3]],
+      [new Document({ pageContent: 'hello', metadata: { source: 'a.pdf' } })],
+    );
+
+    const reloaded = new FileKnowledgeStore(new FakeEmbeddings(), filePath);
+    await reloaded.load();
+
+    expect(reloaded.memoryVectors).toHaveLength(1);
+    expect(reloaded.memoryVectors[0].content).toBe('hello');
+    expect(reloaded.memoryVectors[0].metadata).toEqual({ source: 'a.pdf' });
+  });
+
+  it('should start empty when no file exists', async () => {
+    const store = new FileKnowledgeStore(
+      new FakeEmbeddings(),
+      join(dir, 'missing.json'),
+    );
+    await store.load();
+
+    expect(store.memoryVectors).toEqual([]);
+  });
+
+  it('should delete the collection folder when dropped', async () => {
+    const collectionDir = join(dir, 'eval-support');
+    const store = new FileKnowledgeStore(
+      new FakeEmbeddings(),
+      join(collectionDir, 'vectors.json'),
+    );
+    await store.load();
+    await store.addVectors(
+      [[0.1, 0.2, 0.3]],
+      [new Document({ pageContent: 'hello', metadata: {} })],
+    );
+
+    await store.drop();
+
+    expect(store.memoryVectors).toEqual([]);
+    await expect(access(collectionDir)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,49 @@
+import { EmbeddingsInterface } from '@langchain/core/embeddings';
+import { rm } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { readJsonFile, writeJsonFile } from '../../common/json-file';
+import { MemoryKnowledgeStore } from './memory-knowledge.store';
+
+/**
+ * Store vectoriel sauvegardé dans un fichier JSON sur le disque local
+ * Les vecteurs, le texte des chunks, leurs metadata et le catalogue des documents
+ * sont rechargés au démarrage
+ */
+export class FileKnowledgeStore extends MemoryKnowledgeStore {
+  constructor(
+    embeddings: EmbeddingsInterface,
+    private readonly filePath: string,
+  ) {
+    super(embeddings);
+  }
+
+  _vectorstoreType(): string {
+    return 'knowledge-file';
+  }
+
+  async load(): Promise<void> {
+    // Premier démarrage : aucun fichier encore écrit
+    const data = await readJsonFile<{
+      vectors?: MemoryKnowledgeStore['memoryVectors'];
+      documents?: MemoryKnowledgeStore['documents'];
+    }>(this.filePath);
+    this.memoryVectors = data?.vectors ?? [];
+    this.documents = data?.documents ?? [];
+    this.rebuildKeywordIndex();
+  }
+
+  async persist(): Promise<void> {
+    await writeJsonFile(this.filePath, {
+      vectors: this.memoryVectors,
+      documents: this.documents,
+    });
+  }
+
+  /**
+   * Supprime aussi le dossier de la collection
+   */
+  async drop(): Promise<void> {
+    await super.drop();
+    await rm(dirname(this.filePath), { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,42 @@
+import { EmbeddingsInterface } from '@langchain/core/embeddings';
+import { ConfigService } from '@nestjs/config';
+import { join } from 'node:path';
+import { FileKnowledgeStore } from './file-knowledge.store';
+import { MemoryKnowledgeStore } from './memory-knowledge.store';
+
+// Backends disponibles pour le stockage des vecteurs
+export type KnowledgeStoreBackend = 'memory' | 'file';
+
+/**
+ * Crée le store vectoriel d'une collection, selon la variable VECTOR_STORE_BACKEND
+ * @param configService configuration de l'application
+ * @param embeddings modèle d'embeddings utilisé par le store
+ * @param collection identifiant de la collection, isolée dans son propre dossier
+ * @returns store vectoriel, à charger avec load() avant utilisation
+ */
+export function createKnowledgeStore(
+  configService: ConfigService,
+  embeddings: EmbeddingsInterface,
+  collection: string,
+): MemoryKnowledgeStore {
+  const backend = configService.get<KnowledgeStoreBackend>(
+    'VECTOR_STORE_BACKEND',
+    'file',
+  );
+
+  switch (backend) {
+    case 'memory':
+      return new MemoryKnowledgeStore(embeddings);
+    case 'file':
+      return new FileKnowledgeStore(
+        embeddings,
+        join(
+          configService.get<string>('VECTOR_STORE_PATH', './data/knowledge'),
+          collection,
+          'vectors.json',
+        ),
+      );
+    default:
+      throw new Error(`Backend de stockage inconnu : ${backend}`);
+  }
+}
@@ -0,0 +1,61 @@
+import { FakeEmbeddings } from '@langchain/core/utils/testing';
+import { Document } from '@langchain/core/documents';
+import { MemoryKnowledgeStore } from './memory-knowledge.store';
+
+describe('MemoryKnowledgeStore', () => {
+  let store: MemoryKnowledgeStore;
+
+  beforeEach(() => {
+    store = new MemoryKnowledgeStore(new FakeEmbeddings());
+  });
+
+  const addDocument = (id: string, chunkIds: string[]) =>
+    store.addDocument(
+      {
+        id,
+        source: `${id}.pdf`,
+        type: 'pdf',
+        size: 10,
+        pages: 1,
+        chunkIds,
+        ingestedAt: new Date().toISOString(),
+      },
+      chunkIds.map(() => [1, 0]),
+      chunkIds.map(
+        (chunkId) =>
+          new Document({
+            id: chunkId,
+            pageContent: chunkId,
+            metadata: { documentId: id },
+          }),
+      ),
+    );
+
+  it('should remove the chunks of a deleted document from search', async () => {
+    await addDocument('doc-a', ['a1', 'a2']);
+    await addDocument('doc-b', ['b1']);
+
+    const deleted = await store.deleteDocument('doc-a');
+    const results = await store.similaritySearchVectorWithScore([1, 0], 10);
+
+    expect(deleted?.id).toBe('doc-a');
+    expect(store.listDocuments().map((document) => document.id)).toEqual([
+      'doc-b',
+    ]);
+    expect(results.map(([document]) => document.id)).toEqual(['b1']);
+  });
+
+  it('should return undefined when deleting an unknown document', async () => {
+    expect(await store.deleteDocument('missing')).toBeUndefined();
+  });
+
+  it('should not keep a document whose vectors could not be saved', async () => {
+    jest.spyOn(store, 'persist').mockRejectedValueOnce(new Error('disk full'));
+
+    await expect(addDocument('doc-a', ['a1'])).rejects.toThrow('disk full');
+
+    expect(store.listDocuments()).toEqual([]);
+    expect(await store.similaritySearchVectorWithScore([1, 0], 10)).toEqual([]);
+    expect(await store.keywordSearch('a1', 10)).toEqual([]);
+  });
+});
@@ -0,0 +1,175 @@
+import { Document } from '@langchain/core/documents';
+import { MemoryVectorStore } from 'langchain/vectorstores/memory';
+import { KnowledgeDocument } from '../interfaces/knowledge-document.interface';
+import { Bm25Index } from '../search/bm25-index';
+
+/**
+ * Store vectoriel en mémoire vive, accompagné du catalogue des documents ingérés
+ * et d'un index par mots-clés (BM25) tenu à jour avec les vecteurs
+ * Sert de base aux autres backends : la recherche se fait toujours en mémoire,
+ * seuls le chargement et la sauvegarde changent d'un backend à l'autre
+ */
+export class MemoryKnowledgeStore extends MemoryVectorStore {
+  // Catalogue des documents ingérés
+  documents: KnowledgeDocument[] = [];
+  // Documents en cours d'ajout, par empreinte du contenu
+  private readonly pending = new Map<string, KnowledgeDocument>();
+  // Index BM25 des chunks, reconstruit au chargement (non sauvegardé)
+  private readonly keywordIndex = new Bm25Index();
+
+  _vectorstoreType(): string {
+    return 'knowledge-memory';
+  }
+
+  /**
+   * Charge les vecteurs existants (rien à charger en mémoire vive)
+   */
+  async load(): Promise<void> {}
+
+  /**
+   * Sauvegarde les vecteurs (rien à sauvegarder en mémoire vive)
+   */
+  async persist(): Promise<void> {}
+
+  /**
+   * Supprime toutes les données de la collection, sauvegarde comprise
+   */
+  async drop(): Promise<void> {
+    this.memoryVectors = [];
+    this.documents = [];
+    this.keywordIndex.clear();
+  }
+
+  async addVectors(...args: Parameters<MemoryVectorStore['addVectors']>) {
+    await super.addVectors(...args);
+    this.indexChunks(args[1]);
+    await this.persist();
+  }
+
+  private indexChunks(chunks: Document[]) {
+    for (const chunk of chunks) {
+      if (chunk.id) this.keywordIndex.add(chunk.id, chunk.pageContent);
+    }
+  }
+
+  /**
+   * Reconstruit l'index par mots-clés à partir des vecteurs chargés
+   */
+  protected rebuildKeywordIndex() {
+    this.keywordIndex.clear();
+    for (const vector of this.memoryVectors) {
+      if (vector.id) this.keywordIndex.add(vector.id, vector.content);
+    }
+  }
+
+  /**
+   * Recherche par mots-clés (BM25), pendant de similaritySearchVectorWithScore
+   * @param filter restreint la recherche aux chunks acceptés
+   * @returns chunks et scores BM25, du plus pertinent au moins pertinent
+   */
+  async keywordSearch(
+    query: string,
+    k: number,
+    filter?: this['FilterType'],
+  ): Promise<[Document, number][]> {
+    const chunks = new Map(
+      this.memoryVectors.map((vector) => [
+        vector.id,
+        new Document({
+          id: vector.id,
+          pageContent: vector.content,
+          metadata: vector.metadata,
+        }),
+      ]),
+    );
+    return this.keywordIndex
+      .search(query, k, filter && ((id) => filter(chunks.get(id))))
+      .map(({ id, score }) => [chunks.get(id), score]);
+  }
+
+  /**
+   * Retourne les vecteurs de chunks, dans l'ordre des identifiants demandés
+   */
+  getEmbeddings(chunkIds: string[]): number[][] {
+    const vectors = new Map(
+      this.memoryVectors.map((vector) => [vector.id, vector.embedding]),
+    );
+    return chunkIds.map((id) => vectors.get(id));
+  }
+
+  /**
+   * Enregistre un document dans le catalogue avec les vecteurs de ses chunks
+   * @param record fiche catalogue du document
+   * @param vectors embeddings des chunks
+   * @param chunks chunks du document, dans le même ordre que les vecteurs
+   */
+  async addDocument(
+    record: KnowledgeDocument,
+    vectors: number[][],
+    chunks: Document[],
+  ): Promise<void> {
+    // Contenu réservé avant toute attente : visible tout de suite pour la détection de doublons
+    if (record.contentHash) this.pending.set(record.contentHash, record);
+    try {
+      // Fiche ajoutée seulement une fois ses vecteurs stockés : jamais de document sans chunks
+      await super.addVectors(vectors, chunks);
+      this.indexChunks(chunks);
+      this.documents.push(record);
+      await this.persist();
+    } catch (error) {
+      // Non sauvegardé : le document disparaîtrait au redémarrage, il est retiré tout de suite
+      this.forget(record);
+      throw error;
+    } finally {
+      if (this.pending.get(record.contentHash) === record) {
+        this.pending.delete(record.contentHash);
+      }
+    }
+  }
+
+  listDocuments(): KnowledgeDocument[] {
+    return this.documents;
+  }
+
+  getDocument(id: string): KnowledgeDocument | undefined {
+    return this.documents.find((document) => document.id === id);
+  }
+
+  /**
+   * Retrouve un document par l'empreinte de son contenu, y compris en cours d'ajout
+   */
+  findDocumentByHash(contentHash: string): KnowledgeDocument | undefined {
+    return (
+      this.documents.find((document) => document.contentHash === contentHash) ??
+      this.pending.get(contentHash)
+    );
+  }
+
+  /**
+   * Supprime un document du catalogue et ses chunks du store vectoriel
+   * @returns la fiche supprimée, ou undefined si le document n'existe pas
+   */
+  async deleteDocument(id: string): Promise<KnowledgeDocument | undefined> {
+    const record = this.getDocument(id);
+    if (!record) return undefined;
+
+    this.forget(record);
+    await this.persist();
+
+    return record;
+  }
+
+  /**
+   * Retire un document du catalogue, ses vecteurs et son index, sans sauvegarder
+   */
+  private forget(record: KnowledgeDocument) {
+    const chunkIds = new Set(record.chunkIds);
+    this.memoryVectors = this.memoryVectors.filter(
+      (vector) => !chunkIds.has(vector.id),
+    );
+    record.chunkIds.forEach((chunkId) => this.keywordIndex.remove(chunkId));
+    this.documents = this.documents.filter(
+      (document) => document.id !== record.id,
+    );
+  }
+}
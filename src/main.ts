@@ -1,8 +1,12 @@
 import { NestFactory } from '@nestjs/core';
+import { SwaggerModule } from '@nestjs/swagger';
 import { AppModule } from './app.module';
+import { createOpenApiDocument } from './common/openapi';
 
 async function bootstrap() {
   const app = await NestFactory.create(AppModule);
+  // Documentation interactive sur /docs, spécification JSON sur /docs-json
+  SwaggerModule.setup('docs', app, createOpenApiDocument(app));
   await app.listen(process.env.PORT ?? 3000);
 }
 bootstrap();
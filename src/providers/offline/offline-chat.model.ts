@@ -0,0 +1,170 @@
+import {
+  BaseChatModel,
+  BindToolsInput,
+} from '@langchain/core/language_models/chat_models';
+import { CallbackManagerForLLMRun } from '@langchain/core/callbacks/manager';
+import {
+  AIMessage,
+  AIMessageChunk,
+  BaseMessage,
+} from '@langchain/core/messages';
+import { ChatGenerationChunk, ChatResult } from '@langchain/core/outputs';
+import { ToolDefinition } from '@langchain/core/language_models/base';
+import { convertToOpenAITool } from '@langchain/core/utils/function_calling';
+import { FINAL_ANSWER_TOOL } from '../../state-graph/final-answer.tool';
+import { findQuestionIndex } from '../../state-graph/question-index';
+
+/**
+ * Marqueurs de citation des résultats d'un tool de recherche
+ * (rag_search fournit le sien, les résultats web sont cités par leur url)
+ */
+function citationMarkers(toolMessage: BaseMessage): string[] {
+  try {
+    const { results = [] } = JSON.parse(toolMessage.content as string);
+    return results.map(
+      (result: { citation?: string; url?: string }) =>
+        result.citation ?? `[web:${result.url}]`,
+    );
+  } catch {
+    return [];
+  }
+}
+
+// Taille des morceaux de réponse envoyés en streaming
+const STREAM_CHUNK_SIZE = 16;
+
+function splitText(text: string): string[] {
+  const pieces: string[] = [];
+  for (let start = 0; start < text.length; start += STREAM_CHUNK_SIZE) {
+    pieces.push(text.slice(start, start + STREAM_CHUNK_SIZE));
+  }
+  return pieces;
+}
+
+/**
+ * Modèle de chat déterministe, sans appel réseau ni clé d'API
+ * Reproduit le déroulé attendu du graphe pour le faire tourner hors ligne :
+ * - avec des tools : appelle le premier tool avec la question, puis reprend son résultat
+ *   suivi des marqueurs de citation de chaque source (comme demandé aux agents)
+ * - sans tool de recherche (coordinateur) : transmet la question, puis rend une réponse
+ *   reprenant celles des autres agents, avec final_answer s'il lui est donné
+ * En streaming, la réponse (texte et arguments des tools) arrive en plusieurs morceaux
+ */
+export class OfflineChatModel extends BaseChatModel {
+  private tools: ToolDefinition[] = [];
+
+  constructor(private readonly model: string = 'offline') {
+    super({});
+  }
+
+  _llmType(): string {
+    return 'offline';
+  }
+
+  bindTools(tools: BindToolsInput[]) {
+    const bound = new OfflineChatModel(this.model);
+    bound.tools = tools.map((t) => convertToOpenAITool(t));
+    return bound;
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    const message = this.respond(messages);
+    return {
+      generations: [{ message, text: message.content as string }],
+    };
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    _options: this['ParsedCallOptions'],
+    runManager?: CallbackManagerForLLMRun,
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const message = this.respond(messages);
+    const chunks = splitText(message.content as string).map(
+      (content) => new AIMessageChunk(content),
+    );
+    // Le nom et l'identifiant d'un appel de tool ne sont que dans son premier morceau
+    message.tool_calls?.forEach((toolCall, index) =>
+      splitText(JSON.stringify(toolCall.args)).forEach((args, position) =>
+        chunks.push(
+          new AIMessageChunk({
+            content: '',
+            tool_call_chunks: [
+              position === 0
+                ? { index, id: toolCall.id, name: toolCall.name, args }
+                : { index, args },
+            ],
+          }),
+        ),
+      ),
+    );
+    for (const chunk of chunks.length ? chunks : [new AIMessageChunk('')]) {
+      const generation = new ChatGenerationChunk({
+        message: chunk,
+        text: chunk.content as string,
+      });
+      yield generation;
+      await runManager?.handleLLMNewToken(
+        generation.text,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        { chunk: generation },
+      );
+    }
+  }
+
+  private respond(messages: BaseMessage[]): AIMessage {
+    const last = messages[messages.length - 1];
+    const questionIndex = findQuestionIndex(messages);
+    const question = String(messages[questionIndex]?.content ?? '');
+    const searchTools = this.tools.filter(
+      (t) => t.function.name !== FINAL_ANSWER_TOOL,
+    );
+
+    if (searchTools.length > 0 && last.getType() !== 'tool') {
+      const { name, parameters } = searchTools[0].function;
+      const [argument = 'input'] = Object.keys(
+        (parameters as { properties?: object })?.properties ?? {},
+      );
+      return new AIMessage({
+        content: '',
+        tool_calls: [
+          {
+            id: `call_${messages.length}`,
+            name,
+            args: { [argument]: question },
+          },
+        ],
+      });
+    }
+
+    if (last.getType() === 'tool') {
+      return new AIMessage(
+        [`${this.model}: ${last.content}`, ...citationMarkers(last)].join(' '),
+      );
+    }
+
+    if (messages.indexOf(last) === questionIndex) {
+      return new AIMessage(question);
+    }
+
+    const answers = messages
+      .slice(questionIndex + 1)
+      .filter((message) => message.name)
+      .map((message) => `${message.name}: ${message.content}`)
+      .join('\n\n');
+    if (this.tools.length === searchTools.length) return new AIMessage(answers);
+    return new AIMessage({
+      content: '',
+      tool_calls: [
+        {
+          id: `call_${messages.length}`,
+          name: FINAL_ANSWER_TOOL,
+          args: { answer: answers },
+        },
+      ],
+    });
+  }
+}
@@ -0,0 +1,28 @@
+import { tool } from '@langchain/core/tools';
+import { z } from 'zod';
+
+/**
+ * Recherche web déterministe, remplaçant Tavily hors ligne
+ * Garde le nom et le format de sortie de TavilySearch pour le reste du graphe
+ */
+export function createOfflineWebSearchTool() {
+  return tool(
+    async ({ query }: { query: string }): Promise<string> =>
+      JSON.stringify({
+        query,
+        results: [
+          {
+            url: `https://example.com/search?q=${encodeURIComponent(query)}`,
+            title: `Offline result for "${query}"`,
+            content: `No web access in offline mode: no result for "${query}".`,
+            score: 1,
+          },
+        ],
+      }),
+    {
+      name: 'tavily_search',
+      description: 'Search the web (offline stub).',
+      schema: z.object({ query: z.string() }),
+    },
+  );
+}
@@ -0,0 +1,69 @@
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { AIMessage } from '@langchain/core/messages';
+import { ChatResult } from '@langchain/core/outputs';
+import { readFileSync } from 'node:fs';
+
+// Appel de modèle enregistré dans une trace de run (GET /state-graph/runs/:id/export)
+interface RecordedModelCall {
+  node: string;
+  output?: {
+    content: AIMessage['content'];
+    tool_calls?: AIMessage['tool_calls'];
+  };
+}
+
+/**
+ * Lit les réponses enregistrées pour un agent dans une trace de run exportée
+ * @param filePath fichier JSON de la trace
+ * @param agent nom du node de l'agent
+ */
+export function loadRecordedOutputs(
+  filePath: string,
+  agent: string,
+): RecordedModelCall['output'][] {
+  const trace: { modelCalls?: RecordedModelCall[] } = JSON.parse(
+    readFileSync(filePath, 'utf-8'),
+  );
+  return (trace.modelCalls ?? [])
+    .filter((call) => call.node === agent && call.output)
+    .map((call) => call.output);
+}
+
+/**
+ * Modèle de chat qui rejoue, dans l'ordre, les réponses d'un agent enregistrées
+ * dans la trace d'un run : reproduit le run hors ligne, tools compris
+ */
+export class ReplayChatModel extends BaseChatModel {
+  constructor(
+    private readonly agent: string,
+    // Réponses restant à rejouer, partagées avec les modèles liés aux tools
+    private readonly outputs: RecordedModelCall['output'][],
+  ) {
+    super({});
+  }
+
+  _llmType(): string {
+    return 'replay';
+  }
+
+  // Les réponses enregistrées contiennent déjà les appels de tools
+  bindTools() {
+    return this;
+  }
+
+  async _generate(): Promise<ChatResult> {
+    const output = this.outputs.shift();
+    if (!output) {
+      throw new Error(
+        `Trace rejouée : plus aucune réponse enregistrée pour l'agent ${this.agent}`,
+      );
+    }
+    const message = new AIMessage({
+      content: output.content,
+      tool_calls: output.tool_calls ?? [],
+    });
+    return {
+      generations: [{ message, text: String(message.content) }],
+    };
+  }
+}
@@ -0,0 +1,162 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EmbeddingsInterface } from '@langchain/core/embeddings';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { StructuredTool } from '@langchain/core/tools';
+import { SyntheticEmbeddings } from '@langchain/core/utils/testing';
+import { ChatOpenAI, OpenAIEmbeddings } from '@langchain/openai';
+import { TavilySearch } from '@langchain/tavily';
+import { OfflineChatModel } from './offline/offline-chat.model';
+import {
+  ReplayChatModel,
+  loadRecordedOutputs,
+} from './offline/replay-chat.model';
+import { createOfflineWebSearchTool } from './offline/offline-web-search.tool';
+
+// Fournisseurs de modèles : OpenAI, API compatible OpenAI (Ollama, vLLM...), hors ligne,
+// ou rejeu d'une trace de run exportée (chat uniquement)
+export type ModelProvider = 'openai' | 'openai-compatible' | 'fake' | 'replay';
+
+// Réglages d'un modèle de chat fournis par la configuration du graphe des agents
+export interface ChatModelSettings {
+  provider?: ModelProvider;
+  model?: string;
+  baseUrl?: string;
+}
+
+// Fournisseurs de recherche web
+export type WebSearchProvider = 'tavily' | 'fake';
+
+/**
+ * Crée les modèles de chat, d'embeddings et la recherche web selon la configuration
+ * Les réglages d'un agent (ex : COORDINATOR_LLM_MODEL) priment sur les réglages
+ * communs (LLM_MODEL)
+ */
+@Injectable()
+export class ProvidersService {
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * Crée le modèle de chat d'un agent
+   * @param agent nom du node de l'agent (ex : Coordinator), préfixe de ses variables
+   * @param defaults réglages de l'agent, entre ses variables et les variables communes
+   */
+  createChatModel(
+    agent: string,
+    defaults: ChatModelSettings = {},
+  ): BaseChatModel {
+    const fromDefaults: Record<string, string> = {
+      PROVIDER: defaults.provider,
+      MODEL: defaults.model,
+      BASE_URL: defaults.baseUrl,
+    };
+    const setting = (key: string) =>
+      this.configService.get<string>(`${agent.toUpperCase()}_LLM_${key}`) ??
+      fromDefaults[key] ??
+      this.configService.get<string>(`LLM_${key}`);
+
+    const provider = (setting('PROVIDER') ?? 'openai') as ModelProvider;
+    const model = setting('MODEL') ?? 'gpt-4o-mini';
+
+    switch (provider) {
+      case 'openai':
+        return new ChatOpenAI({
+          model,
+          apiKey: this.configService.get<string>('OPENAI_API_KEY'),
+        });
+      case 'openai-compatible':
+        return new ChatOpenAI({
+          model,
+          // Les serveurs locaux n'exigent généralement pas de clé
+          apiKey: setting('API_KEY') ?? 'not-needed',
+          configuration: { baseURL: setting('BASE_URL') },
+        });
+      case 'fake':
+        return new OfflineChatModel(model);
+      case 'replay': {
+        const tracePath = setting('REPLAY_TRACE');
+        if (!tracePath) {
+          throw new Error(
+            `Trace à rejouer manquante pour l'agent ${agent} : LLM_REPLAY_TRACE`,
+          );
+        }
+        return new ReplayChatModel(
+          agent,
+          loadRecordedOutputs(tracePath, agent),
+        );
+      }
+      default:
+        throw new Error(`Fournisseur de LLM inconnu : ${provider}`);
+    }
+  }
+
+  /**
+   * Identifiant du modèle d'embeddings (fournisseur:modèle), qui sépare les entrées
+   * du cache d'embeddings d'un modèle à l'autre
+   */
+  getEmbeddingModelId(): string {
+    const provider = this.configService.get<ModelProvider>(
+      'EMBEDDING_PROVIDER',
+      'openai',
+    );
+    const model = this.configService.get<string>('EMBEDDING_MODEL', 'default');
+    const baseUrl = this.configService.get<string>('EMBEDDING_BASE_URL');
+    return provider === 'openai-compatible' && baseUrl
+      ? `${provider}:${model}@${baseUrl}`
+      : `${provider}:${model}`;
+  }
+
+  /**
+   * Crée le modèle d'embeddings
+   * Sans nouvelle tentative : les lots et les reprises sont gérés par le cache d'embeddings
+   */
+  createEmbeddings(): EmbeddingsInterface {
+    const provider = this.configService.get<ModelProvider>(
+      'EMBEDDING_PROVIDER',
+      'openai',
+    );
+    const model = this.configService.get<string>('EMBEDDING_MODEL');
+
+    switch (provider) {
+      case 'openai':
+        return new OpenAIEmbeddings({
+          model,
+          apiKey: this.configService.get<string>('OPENAI_API_KEY'),
+          maxRetries: 0,
+        });
+      case 'openai-compatible':
+        return new OpenAIEmbeddings({
+          model,
+          apiKey: this.configService.get<string>(
+            'EMBEDDING_API_KEY',
+            'not-needed',
+          ),
+          configuration: {
+            baseURL: this.configService.get<string>('EMBEDDING_BASE_URL'),
+          },
+          maxRetries: 0,
+        });
+      case 'fake':
+        // Vecteurs calculés à partir du texte : mêmes entrées, mêmes vecteurs
+        return new SyntheticEmbeddings({ vectorSize: 256 });
+      default:
+        throw new Error(`Fournisseur d'embeddings inconnu : ${provider}`);
+    }
+  }
+
+  createWebSearchTool(): StructuredTool {
+    const provider = this.configService.get<WebSearchProvider>(
+      'WEB_SEARCH_PROVIDER',
+      'tavily',
+    );
+
+    switch (provider) {
+      case 'tavily':
+        return new TavilySearch();
+      case 'fake':
+        return createOfflineWebSearchTool();
+      default:
+        throw new Error(`Fournisseur de recherche web inconnu : ${provider}`);
+    }
+  }
+}
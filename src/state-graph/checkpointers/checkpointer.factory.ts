@@ -0,0 +1,43 @@
+import { ConfigService } from '@nestjs/config';
+import { FileCheckpointer } from './file.checkpointer';
+import {
+  MIN_CHECKPOINT_HISTORY,
+  MemoryCheckpointer,
+} from './memory.checkpointer';
+
+// Backends disponibles pour la sauvegarde des conversations
+export type CheckpointerBackend = 'memory' | 'file';
+
+/**
+ * Crée le checkpointer choisi par la variable CHECKPOINT_BACKEND,
+ * qui garde les CHECKPOINT_HISTORY derniers checkpoints de chaque thread
+ * @param configService configuration de l'application
+ * @returns checkpointer, à charger avec load() avant utilisation
+ */
+export function createCheckpointer(
+  configService: ConfigService,
+): MemoryCheckpointer {
+  const backend = configService.get<CheckpointerBackend>(
+    'CHECKPOINT_BACKEND',
+    'file',
+  );
+
+  const history = Number(configService.get<string>('CHECKPOINT_HISTORY', '10'));
+  if (!Number.isInteger(history) || history < MIN_CHECKPOINT_HISTORY) {
+    throw new Error(
+      `CHECKPOINT_HISTORY doit être un entier supérieur ou égal à ${MIN_CHECKPOINT_HISTORY}`,
+    );
+  }
+
+  switch (backend) {
+    case 'memory':
+      return new MemoryCheckpointer(history);
+    case 'file':
+      return new FileCheckpointer(
+        configService.get<string>('CHECKPOINT_PATH', './data/checkpoints'),
+        history,
+      );
+    default:
+      throw new Error(`Backend de checkpoint inconnu : ${backend}`);
+  }
+}
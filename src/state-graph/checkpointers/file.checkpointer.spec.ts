@@ -0,0 +1,96 @@
+import { Annotation, END, START, StateGraph } from '@langchain/langgraph';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileCheckpointer } from './file.checkpointer';
+
+describe('FileCheckpointer', () => {
+  let dir: string;
+
+  const state = Annotation.Root({
+    steps: Annotation<string[]>({
+      reducer: (x, y) => x.concat(y),
+      default: () => [],
+    }),
+  });
+
+  const compile = (checkpointer: FileCheckpointer) =>
+    new StateGraph(state)
+      .addNode('step', () => ({ steps: ['done'] }))
+      .addEdge(START, 'step')
+      .addEdge('step', END)
+      .compile({ checkpointer });
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'checkpointer-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should resume a thread from a reloaded file', async () => {
+    const config = { configurable: { thread_id: 'thread-1' } };
+    await compile(new FileCheckpointer(dir)).invoke(
+      { steps: ['first'] },
+      config,
+    );
+
+    const reloaded = new FileCheckpointer(dir);
+    await reloaded.load();
+    const result = await compile(reloaded).invoke(
+      { steps: ['second'] },
+      config,
+    );
+
+    expect(reloaded.listThreadIds()).toEqual(['thread-1']);
+    expect(result.steps).toEqual(['first', 'done', 'second', 'done']);
+  });
+
+  it('should delete a thread', async () => {
+    const checkpointer = new FileCheckpointer(dir);
+    await compile(checkpointer).invoke(
+      { steps: [] },
+      { configurable: { thread_id: 'thread-1' } },
+    );
+
+    expect(await checkpointer.deleteThread('thread-1')).toBe(true);
+    expect(await checkpointer.deleteThread('thread-1')).toBe(false);
+    expect(checkpointer.listThreadIds()).toEqual([]);
+    expect(await readdir(dir)).toEqual([]);
+  });
+
+  it('should keep one file per thread and only the latest checkpoints', async () => {
+    const checkpointer = new FileCheckpointer(dir, 2);
+    const graph = compile(checkpointer);
+    const config = { configurable: { thread_id: '../thread-1' } };
+    for (const step of ['first', 'second', 'third']) {
+      await graph.invoke({ steps: [step] }, config);
+    }
+    await graph.invoke(
+      { steps: ['other'] },
+      { configurable: { thread_id: 'thread-2' } },
+    );
+
+    // Identifiant du thread haché : aucun fichier hors du dossier
+    expect((await readdir(dir)).sort()).toEqual([
+      expect.stringMatching(/^[0-9a-f]{64}\.json$/),
+      expect.stringMatching(/^[0-9a-f]{64}\.json$/),
+    ]);
+    expect(Object.keys(checkpointer.storage['../thread-1'][''])).toHaveLength(
+      2,
+    );
+
+    const reloaded = new FileCheckpointer(dir, 2);
+    await reloaded.load();
+    const state = await compile(reloaded).getState(config);
+    expect(state.values.steps).toEqual([
+      'first',
+      'done',
+      'second',
+      'done',
+      'third',
+      'done',
+    ]);
+  });
+});
@@ -0,0 +1,149 @@
+import { MemorySaver } from '@langchain/langgraph';
+import { createHash } from 'node:crypto';
+import { readdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import {
+  readJsonFile,
+  removeJsonFile,
+  writeJsonFile,
+} from '../../common/json-file';
+import { MemoryCheckpointer } from './memory.checkpointer';
+
+// Les checkpoints sérialisés sont des octets : encodés en base64 dans le fichier
+const encode = (bytes: Uint8Array) => Buffer.from(bytes).toString('base64');
+const decode = (base64: string) =>
+  new Uint8Array(Buffer.from(base64, 'base64'));
+
+type Storage = MemorySaver['storage'];
+type Writes = MemorySaver['writes'];
+
+// Contenu du fichier d'un thread
+interface ThreadFile {
+  threadId: string;
+  // namespace -> checkpoint -> [checkpoint, metadata, parent]
+  storage: Record<string, Record<string, [string, string, string | undefined]>>;
+  // clé -> tâche -> [taskId, channel, valeur]
+  writes: Record<string, Record<string, [string, string, string]>>;
+}
+
+/**
+ * Applique une transformation à chaque feuille d'un objet imbriqué sur `depth` niveaux
+ */
+function mapLeaves<L, R>(
+  value: object,
+  depth: number,
+  fn: (leaf: L) => R,
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(value).map(([key, child]: [string, unknown]) => [
+      key,
+      depth > 1 ? mapLeaves(child as object, depth - 1, fn) : fn(child as L),
+    ]),
+  );
+}
+
+/**
+ * Checkpointer LangGraph sauvegardé sur le disque local, un fichier JSON par thread
+ * Chaque étape ne réécrit que le fichier de son thread, borné par l'historique gardé
+ * Les conversations sont rechargées au démarrage
+ */
+export class FileCheckpointer extends MemoryCheckpointer {
+  /**
+   * @param directory dossier des fichiers de threads
+   * @param maxCheckpoints checkpoints gardés par thread et namespace
+   */
+  constructor(
+    private readonly directory: string,
+    maxCheckpoints?: number,
+  ) {
+    super(maxCheckpoints);
+  }
+
+  /**
+   * Fichier d'un thread : l'identifiant vient du client, il n'entre pas tel quel dans le chemin
+   */
+  private threadPath(threadId: string): string {
+    const hash = createHash('sha256').update(threadId).digest('hex');
+    return join(this.directory, `${hash}.json`);
+  }
+
+  async load(): Promise<void> {
+    let files: string[];
+    try {
+      files = await readdir(this.directory);
+    } catch (error) {
+      // Premier démarrage : aucun fichier encore écrit
+      if (error.code === 'ENOENT') return;
+      throw error;
+    }
+
+    for (const file of files.filter((name) => name.endsWith('.json'))) {
+      const data = await readJsonFile<ThreadFile>(join(this.directory, file));
+      if (!data) continue;
+      this.storage[data.threadId] = mapLeaves(
+        data.storage,
+        2,
+        ([
+          checkpoint,
+          metadata,
+          parentId,
+        ]: ThreadFile['storage'][string][string]) => [
+          decode(checkpoint),
+          decode(metadata),
+          parentId,
+        ],
+      ) as Storage[string];
+      Object.assign(
+        this.writes,
+        mapLeaves(
+          data.writes,
+          2,
+          ([taskId, channel, value]: ThreadFile['writes'][string][string]) => [
+            taskId,
+            channel,
+            decode(value),
+          ],
+        ) as Writes,
+      );
+    }
+  }
+
+  async persist(): Promise<void> {
+    const threadIds = [...this.changedThreads];
+    this.changedThreads.clear();
+    await Promise.all(
+      threadIds.map((threadId) => this.persistThread(threadId)),
+    );
+  }
+
+  private persistThread(threadId: string): Promise<void> {
+    const storage = this.storage[threadId];
+    // Thread supprimé
+    if (!storage) return removeJsonFile(this.threadPath(threadId));
+
+    const writes = Object.fromEntries(
+      this.threadWriteKeys(threadId).map((key) => [key, this.writes[key]]),
+    );
+    return writeJsonFile(this.threadPath(threadId), {
+      threadId,
+      storage: mapLeaves(
+        storage,
+        2,
+        ([checkpoint, metadata, parentId]: Storage[string][string][string]) => [
+          encode(checkpoint),
+          encode(metadata),
+          parentId,
+        ],
+      ),
+      writes: mapLeaves(
+        writes,
+        2,
+        ([taskId, channel, value]: Writes[string][string]) => [
+          taskId,
+          channel,
+          encode(value),
+        ],
+      ),
+    });
+  }
+}
@@ -0,0 +1,99 @@
+import { MemorySaver } from '@langchain/langgraph';
+
+// Checkpoints gardés par thread : le dernier suffit pour reprendre, son parent
+// porte les envois en attente (branches parallèles)
+export const MIN_CHECKPOINT_HISTORY = 2;
+
+/**
+ * Checkpointer LangGraph en mémoire vive
+ * Seuls les derniers checkpoints de chaque thread sont gardés, avec leurs écritures en attente
+ * Sert de base aux autres backends : seuls le chargement et la sauvegarde changent
+ */
+export class MemoryCheckpointer extends MemorySaver {
+  // Threads modifiés depuis la dernière sauvegarde
+  protected readonly changedThreads = new Set<string>();
+
+  /**
+   * @param maxCheckpoints checkpoints gardés par thread et namespace, les plus récents
+   */
+  constructor(private readonly maxCheckpoints = 10) {
+    super();
+    if (maxCheckpoints < MIN_CHECKPOINT_HISTORY) {
+      throw new Error(
+        `Au moins ${MIN_CHECKPOINT_HISTORY} checkpoints doivent être gardés par thread`,
+      );
+    }
+  }
+
+  /**
+   * Charge les checkpoints existants (rien à charger en mémoire vive)
+   */
+  async load(): Promise<void> {}
+
+  /**
+   * Sauvegarde les threads modifiés (rien à sauvegarder en mémoire vive)
+   */
+  async persist(): Promise<void> {
+    this.changedThreads.clear();
+  }
+
+  async put(...args: Parameters<MemorySaver['put']>) {
+    const config = await super.put(...args);
+    const { thread_id, checkpoint_ns = '' } = config.configurable;
+    this.prune(thread_id, checkpoint_ns);
+    this.changedThreads.add(thread_id);
+    await this.persist();
+    return config;
+  }
+
+  async putWrites(...args: Parameters<MemorySaver['putWrites']>) {
+    await super.putWrites(...args);
+    this.changedThreads.add(args[0].configurable?.thread_id);
+    await this.persist();
+  }
+
+  /**
+   * Oublie les checkpoints les plus anciens d'un thread, et leurs écritures en attente
+   */
+  private prune(threadId: string, checkpointNs: string) {
+    const checkpoints = this.storage[threadId]?.[checkpointNs] ?? {};
+    // Identifiants triables dans l'ordre chronologique (UUID v6)
+    const expired = Object.keys(checkpoints)
+      .sort((a, b) => b.localeCompare(a))
+      .slice(this.maxCheckpoints);
+    for (const checkpointId of expired) {
+      delete checkpoints[checkpointId];
+      delete this.writes[
+        JSON.stringify([threadId, checkpointNs, checkpointId])
+      ];
+    }
+  }
+
+  listThreadIds(): string[] {
+    return Object.keys(this.storage);
+  }
+
+  /**
+   * Supprime tous les checkpoints et écritures en attente d'un thread
+   * @returns false si le thread n'existe pas
+   */
+  async deleteThread(threadId: string): Promise<boolean> {
+    if (!this.storage[threadId]) return false;
+
+    delete this.storage[threadId];
+    for (const key of this.threadWriteKeys(threadId)) delete this.writes[key];
+    this.changedThreads.add(threadId);
+    await this.persist();
+
+    return true;
+  }
+
+  /**
+   * Clés des écritures en attente d'un thread : JSON de [threadId, namespace, checkpointId]
+   */
+  protected threadWriteKeys(threadId: string): string[] {
+    return Object.keys(this.writes).filter(
+      (key) => JSON.parse(key)[0] === threadId,
+    );
+  }
+}
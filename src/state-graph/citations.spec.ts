@@ -0,0 +1,89 @@
+import { AIMessage, HumanMessage, ToolMessage } from '@langchain/core/messages';
+import { buildCitedAnswer } from './citations';
+
+describe('buildCitedAnswer', () => {
+  const toolMessages = [
+    new ToolMessage({
+      name: 'rag_search',
+      tool_call_id: 'call-1',
+      content: JSON.stringify({
+        results: [
+          {
+            chunkId: 'chunk-1',
+            metadata: {
+              documentId: 'doc-1',
+              source: 'guide.pdf',
+              loc: { pageNumber: 4 },
+            },
+          },
+        ],
+      }),
+    }),
+    new ToolMessage({
+      name: 'tavily_search',
+      tool_call_id: 'call-2',
+      content: JSON.stringify({
+        results: [{ url: 'https://example.com/a', title: 'Example' }],
+      }),
+    }),
+  ];
+
+  it('should number markers in order of appearance', () => {
+    const { content, citations } = buildCitedAnswer([
+      new HumanMessage('question'),
+      ...toolMessages,
+      new AIMessage(
+        'Web [web:https://example.com/a], doc [doc:chunk-1], again [web:https://example.com/a].',
+      ),
+    ]);
+
+    expect(content).toBe('Web [1], doc [2], again [1].');
+    expect(citations).toEqual([
+      { id: 1, type: 'web', url: 'https://example.com/a', title: 'Example' },
+      {
+        id: 2,
+        type: 'document',
+        documentId: 'doc-1',
+        chunkId: 'chunk-1',
+        source: 'guide.pdf',
+        page: 4,
+      },
+    ]);
+  });
+
+  it('should drop markers without a matching tool result', () => {
+    const { content, citations } = buildCitedAnswer([
+      ...toolMessages,
+      new HumanMessage('follow-up'),
+      new AIMessage('Earlier [doc:chunk-1] and invented [doc:nope].'),
+    ]);
+
+    expect(content).toBe('Earlier [1] and invented .');
+    expect(citations.map((citation) => citation.id)).toEqual([1]);
+  });
+
+  it('should cite pages read with fetch_url as web sources', () => {
+    const { content, citations } = buildCitedAnswer([
+      new ToolMessage({
+        name: 'fetch_url',
+        tool_call_id: 'call-3',
+        content: JSON.stringify({
+          url: 'https://docs.example.com/page',
+          title: 'Page',
+          text: 'content',
+        }),
+      }),
+      new AIMessage('Read [web:https://docs.example.com/page].'),
+    ]);
+
+    expect(content).toBe('Read [1].');
+    expect(citations).toEqual([
+      {
+        id: 1,
+        type: 'web',
+        url: 'https://docs.example.com/page',
+        title: 'Page',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,112 @@
+import { BaseMessage, MessageContent } from '@langchain/core/messages';
+import { FETCH_URL_TOOL } from './tools/fetch-url.tool';
+
+/**
+ * Source citée dans la réponse finale
+ * `id` correspond au marqueur numéroté [n] présent dans le texte
+ */
+export type Citation =
+  | {
+      id: number;
+      type: 'document';
+      documentId: string;
+      chunkId: string;
+      source: string;
+      page?: number;
+    }
+  | {
+      id: number;
+      type: 'web';
+      url: string;
+      title?: string;
+    };
+
+// Source candidate, avant numérotation
+type Source =
+  | Omit<Extract<Citation, { type: 'document' }>, 'id'>
+  | Omit<Extract<Citation, { type: 'web' }>, 'id'>;
+
+// Marqueurs de citation demandés aux agents : [doc:<chunkId>] ou [web:<url>]
+const CITATION_MARKER = /\[(doc|web):([^\]\s]+)\]/g;
+
+export const documentMarker = (chunkId: string) => `[doc:${chunkId}]`;
+export const webMarker = (url: string) => `[web:${url}]`;
+
+const parseJson = (content: MessageContent) => {
+  try {
+    return JSON.parse(typeof content === 'string' ? content : '');
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Recense les sources renvoyées par les tools dans la conversation
+ * (une réponse de suivi peut citer une source trouvée lors d'une question précédente)
+ * @returns sources indexées par leur marqueur de citation
+ */
+export function collectSources(messages: BaseMessage[]): Map<string, Source> {
+  const sources = new Map<string, Source>();
+  for (const message of messages) {
+    if (message.getType() !== 'tool') continue;
+    const output = parseJson(message.content);
+
+    if (message.name === 'rag_search') {
+      for (const result of output?.results ?? []) {
+        sources.set(documentMarker(result.chunkId), {
+          type: 'document',
+          documentId: result.metadata?.documentId,
+          chunkId: result.chunkId,
+          source: result.metadata?.source,
+          page: result.metadata?.loc?.pageNumber,
+        });
+      }
+    } else if (message.name === 'tavily_search') {
+      for (const result of output?.results ?? []) {
+        sources.set(webMarker(result.url), {
+          type: 'web',
+          url: result.url,
+          title: result.title,
+        });
+      }
+    } else if (message.name === FETCH_URL_TOOL && output?.text !== undefined) {
+      // Page lue par fetch_url, citée comme un résultat web
+      sources.set(webMarker(output.url), {
+        type: 'web',
+        url: output.url,
+        title: output.title || undefined,
+      });
+    }
+  }
+  return sources;
+}
+
+/**
+ * Remplace les marqueurs de citation de la réponse par des numéros [n]
+ * Les marqueurs ne correspondant à aucune source renvoyée par les tools sont retirés
+ * @param messages messages du run, la réponse finale en dernier
+ * @returns texte de la réponse et liste des citations, dans l'ordre d'apparition
+ */
+export function buildCitedAnswer(messages: BaseMessage[]): {
+  content: MessageContent;
+  citations: Citation[];
+} {
+  const content = messages[messages.length - 1].content;
+  if (typeof content !== 'string') return { content, citations: [] };
+
+  const sources = collectSources(messages);
+  const citations: Citation[] = [];
+  const ids = new Map<string, number>();
+
+  const cited = content.replace(CITATION_MARKER, (marker) => {
+    const source = sources.get(marker);
+    if (!source) return '';
+    if (!ids.has(marker)) {
+      ids.set(marker, citations.length + 1);
+      citations.push({ id: citations.length + 1, ...source });
+    }
+    return `[${ids.get(marker)}]`;
+  });
+
+  return { content: cited, citations };
+}
@@ -0,0 +1,92 @@
+import { createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { highlightPath, renderMermaid } from './mermaid-diagram';
+
+const source = [
+  'graph TD;',
+  '\t__start__([<p>__start__</p>]):::first',
+  '\tCoordinator(Coordinator)',
+  '\tRag(Rag)',
+  '\tTavily(Tavily)',
+  '\t__end__([<p>__end__</p>]):::last',
+  '\tRag --> Coordinator;',
+  '\tTavily --> Coordinator;',
+  '\t__start__ --> Coordinator;',
+  '\tCoordinator -.-> Rag;',
+  '\tCoordinator -.-> Tavily;',
+  '\tCoordinator -. &nbsp;end&nbsp; .-> __end__;',
+  '',
+].join('\n');
+
+describe('highlightPath', () => {
+  it('should highlight the visited nodes and the edges the run took', () => {
+    const diagram = highlightPath(source, [
+      ['__start__'],
+      ['Coordinator'],
+      ['Rag'],
+      ['Coordinator'],
+      ['__end__'],
+    ]);
+
+    expect(diagram).toContain(
+      '\tclass __start__,Coordinator,Rag,__end__ visited;',
+    );
+    // Arêtes Rag -> Coordinator, __start__ -> Coordinator, Coordinator -> Rag et Coordinator -> __end__
+    expect(diagram).toContain('\tlinkStyle 0,2,3,5 ');
+  });
+
+  it('should not highlight edges between visited nodes that the run did not take', () => {
+    const diagram = highlightPath(source, [
+      ['Rag'],
+      ['Coordinator'],
+      ['__end__'],
+    ]);
+
+    // Rag -> Coordinator et Coordinator -> __end__, pas Coordinator -> Rag
+    expect(diagram).toContain('\tlinkStyle 0,5 ');
+  });
+
+  it('should highlight every edge of parallel branches', () => {
+    const diagram = highlightPath(source, [
+      ['__start__'],
+      ['Coordinator'],
+      ['Rag', 'Tavily'],
+      ['Coordinator'],
+    ]);
+
+    expect(diagram).toContain('\tlinkStyle 0,1,2,3,4 ');
+  });
+
+  it('should leave the diagram unchanged without visited nodes', () => {
+    expect(highlightPath(source, [])).toBe(source);
+  });
+});
+
+describe('renderMermaid', () => {
+  it('should request the image from the rendering service', async () => {
+    let requestedUrl: string;
+    const server = createServer((req, res) => {
+      requestedUrl = req.url;
+      res.end('<svg/>');
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const image = await renderMermaid(
+        'graph TD;',
+        'svg',
+        `http://127.0.0.1:${port}/`,
+      );
+
+      expect(image.toString()).toBe('<svg/>');
+      expect(requestedUrl).toBe(
+        `/svg/${Buffer.from('graph TD;').toString('base64url')}`,
+      );
+    } finally {
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,66 @@
+// Arête d'un diagramme généré par LangChain : "A --> B;", "A -.-> B;" ou "A -. &nbsp;label&nbsp; .-> B;"
+const EDGE_LINE = /^\s*([\w-]+) -.*?> ([\w-]+);$/;
+
+/**
+ * Met en évidence le chemin d'un run dans un diagramme Mermaid :
+ * les nodes visités, et les arêtes prises d'une étape à la suivante
+ * @param source diagramme Mermaid du graphe compilé
+ * @param steps nodes exécutés à chaque étape du run, dans l'ordre, entrée (__start__)
+ *   et fin (__end__) comprises ; plusieurs nodes par étape pour des branches parallèles
+ * @returns diagramme complété par ses styles de mise en évidence
+ */
+export function highlightPath(source: string, steps: string[][]): string {
+  const nodes = new Set(steps.flat());
+  if (nodes.size === 0) return source;
+
+  // Transitions du run : chaque node d'une étape vers chaque node de l'étape suivante
+  const transitions = new Set(
+    steps
+      .slice(1)
+      .flatMap((step, index) =>
+        steps[index].flatMap((from) => step.map((to) => `${from}>${to}`)),
+      ),
+  );
+  // Les arêtes sont numérotées par Mermaid dans leur ordre de déclaration ;
+  // une transition sans arête (entre deux branches parallèles) n'est pas retenue
+  const taken = source
+    .split('\n')
+    .map((line) => EDGE_LINE.exec(line))
+    .filter(Boolean)
+    .map(([, from, to], index) =>
+      transitions.has(`${from}>${to}`) ? index : -1,
+    )
+    .filter((index) => index >= 0);
+
+  return [
+    source.trimEnd(),
+    '\tclassDef visited fill:#fde68a,stroke:#b45309,stroke-width:2px;',
+    `\tclass ${[...nodes].join(',')} visited;`,
+    ...(taken.length > 0
+      ? [`\tlinkStyle ${taken.join(',')} stroke:#b45309,stroke-width:3px;`]
+      : []),
+    '',
+  ].join('\n');
+}
+
+/**
+ * Rend un diagramme Mermaid en image avec un service compatible mermaid.ink
+ * @param baseUrl url du service (MERMAID_RENDER_URL)
+ * @throws Error si le service est injoignable ou refuse le diagramme
+ */
+export async function renderMermaid(
+  source: string,
+  format: 'png' | 'svg',
+  baseUrl: string,
+): Promise<Buffer> {
+  const encoded = Buffer.from(source, 'utf-8').toString('base64url');
+  const url =
+    format === 'png'
+      ? `${baseUrl.replace(/\/$/, '')}/img/${encoded}?type=png`
+      : `${baseUrl.replace(/\/$/, '')}/svg/${encoded}`;
+  const response = await fetch(url, { signal: AbortSignal.timeout(10_000) });
+  if (!response.ok) {
+    throw new Error(`le service de rendu a répondu ${response.status}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
@@ -0,0 +1,24 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsIn, IsNotEmpty, IsString, ValidateIf } from 'class-validator';
+import {
+  APPROVAL_ACTIONS,
+  ApprovalAction,
+  ApprovalDecision,
+} from '../interfaces/web-search-approval.interface';
+
+/**
+ * Décision sur une recherche web en attente d'approbation
+ */
+export class ApprovalDecisionDto implements ApprovalDecision {
+  @ApiProperty({ enum: APPROVAL_ACTIONS })
+  @IsIn(APPROVAL_ACTIONS)
+  action: ApprovalAction;
+
+  @ApiPropertyOptional({
+    description: 'Requête corrigée, obligatoire pour edit',
+  })
+  @ValidateIf((decision) => decision.action === 'edit')
+  @IsString()
+  @IsNotEmpty()
+  query?: string;
+}
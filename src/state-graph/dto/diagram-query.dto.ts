@@ -0,0 +1,24 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsIn, IsOptional, IsString } from 'class-validator';
+import {
+  DIAGRAM_FORMATS,
+  DiagramFormat,
+  DiagramOptions,
+} from '../interfaces/diagram-options.interface';
+
+/**
+ * Diagramme du graphe : format, et run dont le chemin est mis en évidence
+ */
+export class DiagramQueryDto implements DiagramOptions {
+  @ApiPropertyOptional({ enum: DIAGRAM_FORMATS, default: 'mermaid' })
+  @IsOptional()
+  @IsIn(DIAGRAM_FORMATS)
+  format?: DiagramFormat;
+
+  @ApiPropertyOptional({
+    description: 'Identifiant de run (GET /state-graph/runs)',
+  })
+  @IsOptional()
+  @IsString()
+  runId?: string;
+}
@@ -0,0 +1,57 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Min,
+} from 'class-validator';
+import { COLLECTION_ID_PATTERN } from 'src/knowledge/knowledge.constants';
+import { RunBudget } from '../interfaces/run-budget.interface';
+
+/**
+ * Question posée au graphe, en run synchrone ou en flux SSE
+ */
+export class RunDto implements RunBudget {
+  @ApiProperty({ example: 'Quelles sont les nouveautés de la version 2.4 ?' })
+  @IsString()
+  @IsNotEmpty()
+  question: string;
+
+  @ApiPropertyOptional({
+    description: "Collection dans laquelle l'agent RAG recherche",
+    default: 'default',
+  })
+  @IsOptional()
+  @Matches(COLLECTION_ID_PATTERN)
+  collection?: string;
+
+  @ApiPropertyOptional({
+    description: 'Conversation à poursuivre ; une nouvelle est créée si absent',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  threadId?: string;
+
+  @ApiPropertyOptional({
+    minimum: 1,
+    description:
+      "Nombre maximum d'étapes du graphe, RUN_MAX_STEPS par défaut et au plus",
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxSteps?: number;
+
+  @ApiPropertyOptional({
+    minimum: 0,
+    description:
+      "Nombre maximum d'appels de tools, RUN_MAX_TOOL_CALLS par défaut et au plus",
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  maxToolCalls?: number;
+}
@@ -0,0 +1,59 @@
+import { ToolCallChunk } from '@langchain/core/messages/tool';
+import { parsePartialJson } from '@langchain/core/output_parsers';
+import { tool } from '@langchain/core/tools';
+import { z } from 'zod';
+
+// Nom du tool qui termine le run, lié aux agents qui ont finish: true
+export const FINAL_ANSWER_TOOL = 'final_answer';
+
+/**
+ * Tool de fin de run : la réponse est passée en argument, le graphe s'arrête dessus
+ * Jamais exécuté, l'appel est intercepté par le node de l'agent
+ */
+export function createFinalAnswerTool() {
+  return tool(async ({ answer }: { answer: string }) => answer, {
+    name: FINAL_ANSWER_TOOL,
+    description:
+      'Give the final answer to the user. Call it once the answer is complete: it ends the run.',
+    schema: z.object({
+      answer: z
+        .string()
+        .describe('Complete answer for the user, with its citation markers'),
+    }),
+  });
+}
+
+/**
+ * Suit les arguments de final_answer générés en streaming par un modèle,
+ * pour envoyer le texte de la réponse au fil de sa génération
+ * Les arguments arrivent en morceaux de JSON ; seul le premier morceau d'un appel porte son nom
+ */
+export class FinalAnswerStream {
+  // Arguments reçus et longueur de réponse déjà envoyée, par appel (run du modèle et index)
+  private readonly calls = new Map<string, { args: string; sent: number }>();
+
+  /**
+   * @param runId Run du modèle qui a produit les morceaux
+   * @param chunks Morceaux d'appels de tools du chunk reçu
+   * @returns Texte de réponse ajouté par ces morceaux, vide si aucun
+   */
+  push(runId: string, chunks: ToolCallChunk[] = []): string {
+    let delta = '';
+    for (const chunk of chunks) {
+      const key = `${runId}:${chunk.index ?? 0}`;
+      let call = this.calls.get(key);
+      if (!call) {
+        if (chunk.name !== FINAL_ANSWER_TOOL) continue;
+        call = { args: '', sent: 0 };
+        this.calls.set(key, call);
+      }
+      call.args += chunk.args ?? '';
+      const answer = parsePartialJson(call.args)?.answer;
+      if (typeof answer === 'string' && answer.length > call.sent) {
+        delta += answer.slice(call.sent);
+        call.sent = answer.length;
+      }
+    }
+    return delta;
+  }
+}
@@ -0,0 +1,80 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { loadAgentGraphConfig } from './agent-graph-config';
+
+describe('loadAgentGraphConfig', () => {
+  const tools = [
+    'rag_search',
+    'tavily_search',
+    'calculator',
+    'date_time',
+    'fetch_url',
+  ];
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'agent-graph-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should load the default configuration', async () => {
+    const config = await loadAgentGraphConfig(
+      './config/agent-graph.yaml',
+      tools,
+    );
+
+    expect(config.entry).toBe('Coordinator');
+    expect(config.agents.map((agent) => agent.name)).toEqual([
+      'Coordinator',
+      'Rag',
+      'Tavily',
+    ]);
+    expect(config.agents[0].next).toEqual(['Rag', 'Tavily']);
+  });
+
+  it('should report every inconsistency of the graph', async () => {
+    const filePath = join(dir, 'graph.json');
+    await writeFile(
+      filePath,
+      JSON.stringify({
+        entry: 'Coordinator',
+        agents: [
+          { name: 'Coordinator', systemPrompt: 'Coordinate', next: 'Legal' },
+          { name: 'Rag', systemPrompt: 'Search', tools: ['sql_query'] },
+          {
+            name: 'Router',
+            systemPrompt: 'Fan out',
+            next: ['Rag', 'Coordinator'],
+          },
+        ],
+      }),
+    );
+
+    await expect(loadAgentGraphConfig(filePath, tools)).rejects.toThrow(
+      [
+        `Configuration du graphe invalide (${filePath}) :`,
+        '- Coordinator.next : agent inconnu : Legal',
+        '- Rag : next ou finish est obligatoire',
+        `- Rag.tools : tool inconnu : sql_query (disponibles : ${tools.join(', ')})`,
+        '- Router.next : les branches parallèles doivent toutes avoir le même agent suivant',
+        '- aucun agent ne peut terminer le run (finish: true)',
+      ].join('\n'),
+    );
+  });
+
+  it('should reject unknown fields', async () => {
+    const filePath = join(dir, 'graph.yaml');
+    await writeFile(
+      filePath,
+      'entry: Coordinator\nagents:\n  - name: Coordinator\n    systemPrompt: Hi\n    finish: true\n    temperature: 2\n',
+    );
+
+    await expect(loadAgentGraphConfig(filePath, tools)).rejects.toThrow(
+      'temperature',
+    );
+  });
+});
@@ -0,0 +1,178 @@
+import { readFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+
+// Nom du node qui exécute les tools, réservé
+export const TOOL_NODE = 'call_tool';
+
+// Noms réservés par LangGraph ou par le graphe
+const RESERVED_NAMES = [TOOL_NODE, '__start__', '__end__'];
+
+const agentSchema = z
+  .object({
+    name: z
+      .string()
+      .regex(
+        /^[A-Za-z][A-Za-z0-9_]*$/,
+        'lettres, chiffres et "_" uniquement, en commençant par une lettre',
+      ),
+    systemPrompt: z.string().min(1),
+    tools: z.array(z.string()).default([]),
+    model: z
+      .object({
+        provider: z
+          .enum(['openai', 'openai-compatible', 'fake', 'replay'])
+          .optional(),
+        model: z.string().optional(),
+        baseUrl: z.string().url().optional(),
+      })
+      .strict()
+      .optional(),
+    // Plusieurs agents : lancés en parallèle, chacun dans sa branche
+    next: z.union([z.string(), z.array(z.string()).min(1)]).optional(),
+    finish: z.boolean().default(false),
+    hideMessagesFrom: z.array(z.string()).default([]),
+    // Branche parallèle : délai maximum et message transmis à la place de sa réponse
+    timeoutMs: z.number().int().positive().optional(),
+    fallback: z.string().optional(),
+  })
+  .strict();
+
+const agentGraphSchema = z
+  .object({
+    entry: z.string(),
+    agents: z.array(agentSchema).min(1),
+  })
+  .strict();
+
+export type AgentConfig = z.infer<typeof agentSchema>;
+export type AgentGraphConfig = z.infer<typeof agentGraphSchema>;
+
+/**
+ * Agents suivants d'un agent, qu'il en désigne un seul ou plusieurs
+ */
+export const nextAgents = (agent: AgentConfig): string[] =>
+  agent.next === undefined ? [] : [agent.next].flat();
+
+/**
+ * Branches parallèles du graphe : agents lancés ensemble par un même agent
+ * @returns pour chaque agent d'une branche, les agents des autres branches lancées avec lui
+ */
+export function findBranches(config: AgentGraphConfig): Map<string, string[]> {
+  const branches = new Map<string, string[]>();
+  for (const agent of config.agents) {
+    if (!Array.isArray(agent.next)) continue;
+    for (const name of agent.next) {
+      branches.set(
+        name,
+        agent.next.filter((other) => other !== name),
+      );
+    }
+  }
+  return branches;
+}
+
+/**
+ * Vérifie la cohérence du graphe : noms uniques, agents et tools référencés existants,
+ * au moins un agent capable de terminer le run
+ * @returns la liste des erreurs, vide si le graphe est valide
+ */
+function checkGraph(config: AgentGraphConfig, toolNames: string[]): string[] {
+  const errors: string[] = [];
+  const names = config.agents.map((agent) => agent.name);
+  const isAgent = (name: string) => names.includes(name);
+
+  names
+    .filter((name, index) => names.indexOf(name) !== index)
+    .forEach((name) => errors.push(`agent défini deux fois : ${name}`));
+  names
+    .filter((name) => RESERVED_NAMES.includes(name))
+    .forEach((name) => errors.push(`nom d'agent réservé : ${name}`));
+  if (!isAgent(config.entry)) {
+    errors.push(`entry : agent inconnu : ${config.entry}`);
+  }
+
+  const branches = findBranches(config);
+  for (const agent of config.agents) {
+    nextAgents(agent)
+      .filter((name) => !isAgent(name))
+      .forEach((name) =>
+        errors.push(`${agent.name}.next : agent inconnu : ${name}`),
+      );
+    if (Array.isArray(agent.next)) {
+      // Les branches se rejoignent sur un même agent avant de continuer
+      const joins = new Set(
+        config.agents
+          .filter((other) => agent.next.includes(other.name))
+          .map((other) => other.next),
+      );
+      if (
+        joins.size !== 1 ||
+        ![...joins].every((join) => typeof join === 'string')
+      ) {
+        errors.push(
+          `${agent.name}.next : les branches parallèles doivent toutes avoir le même agent suivant`,
+        );
+      }
+    }
+    if (branches.has(agent.name) && Array.isArray(agent.next)) {
+      errors.push(
+        `${agent.name} : une branche parallèle ne peut pas lancer d'autres branches`,
+      );
+    }
+    if (!branches.has(agent.name) && (agent.timeoutMs || agent.fallback)) {
+      errors.push(
+        `${agent.name} : timeoutMs et fallback ne s'appliquent qu'aux branches parallèles`,
+      );
+    }
+    if (agent.next === undefined && !agent.finish) {
+      errors.push(`${agent.name} : next ou finish est obligatoire`);
+    }
+    agent.tools
+      .filter((tool) => !toolNames.includes(tool))
+      .forEach((tool) =>
+        errors.push(
+          `${agent.name}.tools : tool inconnu : ${tool} (disponibles : ${toolNames.join(', ')})`,
+        ),
+      );
+    agent.hideMessagesFrom
+      .filter((name) => !isAgent(name))
+      .forEach((name) =>
+        errors.push(`${agent.name}.hideMessagesFrom : agent inconnu : ${name}`),
+      );
+  }
+
+  if (!config.agents.some((agent) => agent.finish)) {
+    errors.push('aucun agent ne peut terminer le run (finish: true)');
+  }
+  return errors;
+}
+
+/**
+ * Lit et valide la configuration du graphe des agents (YAML ou JSON selon l'extension)
+ * @param filePath chemin du fichier de configuration
+ * @param toolNames tools disponibles pour les agents
+ * @throws Error listant toutes les erreurs de la configuration
+ */
+export async function loadAgentGraphConfig(
+  filePath: string,
+  toolNames: string[],
+): Promise<AgentGraphConfig> {
+  const content = await readFile(filePath, 'utf8');
+  const raw =
+    extname(filePath) === '.json' ? JSON.parse(content) : parseYaml(content);
+
+  const parsed = agentGraphSchema.safeParse(raw);
+  const errors = parsed.success
+    ? checkGraph(parsed.data, toolNames)
+    : parsed.error.issues.map(
+        (issue) => `${issue.path.join('.') || '(racine)'} : ${issue.message}`,
+      );
+  if (errors.length > 0) {
+    throw new Error(
+      `Configuration du graphe invalide (${filePath}) :\n- ${errors.join('\n- ')}`,
+    );
+  }
+  return parsed.data as AgentGraphConfig;
+}
@@ -0,0 +1,15 @@
+// Formats du diagramme du graphe : source Mermaid, ou image rendue par le service Mermaid
+export const DIAGRAM_FORMATS = ['mermaid', 'png', 'svg'] as const;
+export type DiagramFormat = (typeof DIAGRAM_FORMATS)[number];
+
+export interface DiagramOptions {
+  format?: DiagramFormat;
+  // Run dont le chemin est mis en évidence
+  runId?: string;
+}
+
+// Diagramme prêt à être envoyé, avec son type de contenu
+export interface Diagram {
+  contentType: string;
+  body: string | Buffer;
+}
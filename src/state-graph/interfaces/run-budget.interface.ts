@@ -0,0 +1,24 @@
+/**
+ * Limites d'un run, pour couper un modèle qui tourne en boucle entre les agents
+ * Valeurs par défaut : RUN_MAX_STEPS et RUN_MAX_TOOL_CALLS
+ */
+export interface RunBudget {
+  // Nombre maximum d'étapes du graphe (recursionLimit de LangGraph)
+  maxSteps?: number;
+  // Nombre maximum d'appels de tools, toutes branches confondues
+  maxToolCalls?: number;
+}
+
+// Codes d'erreur d'un run coupé avant sa réponse finale
+export const RUN_ERROR_CODES = [
+  'STEP_BUDGET_EXCEEDED',
+  'TOOL_BUDGET_EXCEEDED',
+  // Quota de tokens du jour de la clé d'API épuisé pendant le run
+  'TOKEN_BUDGET_EXCEEDED',
+] as const;
+export type RunErrorCode = (typeof RUN_ERROR_CODES)[number];
+
+export interface RunError {
+  code: RunErrorCode;
+  message: string;
+}
@@ -0,0 +1,87 @@
+import { ApprovalDecision } from './web-search-approval.interface';
+import { RunError } from './run-budget.interface';
+
+// Issues possibles d'un run
+export const RUN_STATUSES = [
+  'running',
+  'completed',
+  'pending_approval',
+  'cut_off',
+  'failed',
+] as const;
+export type RunStatus = (typeof RUN_STATUSES)[number];
+
+// Message sérialisé dans une trace
+export interface TraceMessage {
+  type: string;
+  name?: string;
+  content: unknown;
+  tool_calls?: { id?: string; name: string; args: Record<string, unknown> }[];
+  tool_call_id?: string;
+}
+
+export interface TokenUsage {
+  input: number;
+  output: number;
+  total: number;
+}
+
+// Passage dans un node du graphe (agent ou call_tool)
+export interface NodeVisit {
+  node: string;
+  // Étape du graphe (superstep) : les branches parallèles partagent la même
+  step?: number;
+  startedAt: string;
+  durationMs?: number;
+  // Messages de l'état reçus par le node, et messages qu'il a ajoutés
+  messagesIn: TraceMessage[];
+  messagesOut: TraceMessage[];
+  // Erreur ou pause (approbation) du node
+  error?: string;
+}
+
+// Appel d'un modèle de chat par un agent
+export interface ModelCall {
+  node: string;
+  startedAt: string;
+  durationMs?: number;
+  // Messages envoyés au modèle, prompt système compris
+  messages: TraceMessage[];
+  output?: TraceMessage;
+  tokenUsage: TokenUsage;
+  error?: string;
+}
+
+// Appel d'un tool, avec son résultat brut
+export interface TraceToolCall {
+  node: string;
+  tool: string;
+  startedAt: string;
+  durationMs?: number;
+  input: unknown;
+  output?: unknown;
+  error?: string;
+}
+
+/**
+ * Trace d'un run du graphe, dans l'ordre d'exécution
+ * Un run repris après approbation a sa propre trace, sur le même thread
+ */
+export interface RunTrace {
+  id: string;
+  threadId: string;
+  collection: string;
+  // Clé d'API qui a lancé le run, absente sans authentification
+  apiKeyId?: string;
+  // Question du run, ou décision du relecteur pour une reprise
+  question?: string;
+  resume?: ApprovalDecision;
+  status: RunStatus;
+  error?: RunError | { message: string };
+  startedAt: string;
+  durationMs?: number;
+  nodes: NodeVisit[];
+  modelCalls: ModelCall[];
+  toolCalls: TraceToolCall[];
+  tokenUsage: TokenUsage;
+}
@@ -0,0 +1,51 @@
+import { Citation } from '../citations';
+import { PendingWebSearch } from './web-search-approval.interface';
+import { RunErrorCode } from './run-budget.interface';
+import { ApiErrorBody } from 'src/common/interfaces/api-error.interface';
+
+/**
+ * Événements envoyés en Server-Sent Events par POST /state-graph/stream
+ * Le champ `type` est aussi utilisé comme nom d'événement SSE (`event:`)
+ */
+export type StateGraphEvent =
+  // Un node du graphe (Coordinator, Rag, Tavily, call_tool) démarre
+  | { type: 'node_start'; node: string }
+  // Un node du graphe a terminé
+  | { type: 'node_end'; node: string }
+  // Un tool est appelé par un agent, avec ses arguments
+  | { type: 'tool_call'; node: string; tool: string; input: unknown }
+  // Résultat brut renvoyé par le tool
+  | { type: 'tool_result'; node: string; tool: string; output: unknown }
+  // Token de réponse généré par le Coordinator, texte de la réponse passée à final_answer compris
+  | { type: 'token'; node: string; content: string }
+  // Réponse finale, envoyée une seule fois en fin de run
+  | {
+      type: 'final';
+      // Trace du run : GET /state-graph/runs/:id
+      runId: string;
+      threadId: string;
+      content: unknown;
+      citations: Citation[];
+      // Branches parallèles sans réponse (ex : recherche web en échec)
+      missingBranches: string[];
+    }
+  // Run en pause : la recherche web attend une décision (POST /state-graph/threads/:threadId/approval)
+  // Envoyé à la place de final
+  | ({
+      type: 'approval_required';
+      runId: string;
+      threadId: string;
+    } & PendingWebSearch)
+  // Erreur pendant le run (GRAPH_EXECUTION_FAILED) ; le flux se termine ensuite
+  // Run coupé par son budget : code d'erreur et réponse partielle obtenue jusque-là
+  | {
+      type: 'error';
+      runId: string;
+      message: string;
+      code: RunErrorCode | 'GRAPH_EXECUTION_FAILED';
+      threadId?: string;
+      partial?: { content: unknown; citations: Citation[] };
+    }
+  // Requête refusée avant le début du run (ex : budget invalide, thread introuvable),
+  // au format d'erreur commun de l'API ; le flux se termine ensuite
+  | ({ type: 'error' } & ApiErrorBody);
@@ -0,0 +1,29 @@
+import { RunBudget } from './run-budget.interface';
+
+// Décisions possibles sur une recherche web en attente
+// approve : recherche lancée telle quelle, edit : lancée avec la requête corrigée,
+// reject : aucune recherche, le Coordinator répond à partir des documents
+export const APPROVAL_ACTIONS = ['approve', 'edit', 'reject'] as const;
+export type ApprovalAction = (typeof APPROVAL_ACTIONS)[number];
+
+export interface ApprovalDecision {
+  action: ApprovalAction;
+  // Requête corrigée, obligatoire pour edit
+  query?: string;
+}
+
+/**
+ * Recherche web mise en pause en attente d'approbation (mode WEB_SEARCH_APPROVAL)
+ * Sauvegardée avec le thread : elle survit à un redémarrage jusqu'à la décision
+ */
+export interface PendingWebSearch {
+  toolCallId: string;
+  // Requête qui serait envoyée au service de recherche web
+  query: string;
+  // Collection du run, réutilisée à la reprise
+  collection: string;
+  // Limites du run, réutilisées à la reprise
+  budget?: Required<RunBudget>;
+  // Date de la demande au format ISO 8601
+  requestedAt: string;
+}
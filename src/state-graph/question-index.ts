@@ -0,0 +1,18 @@
+import { BaseMessage } from '@langchain/core/messages';
+
+/**
+ * Index de la question de l'utilisateur : le dernier message "human" non nommé
+ * (les réponses des agents sont des messages "human" nommés)
+ * @returns -1 si aucun message n'est une question
+ */
+export function findQuestionIndex(messages: BaseMessage[]): number {
+  let questionIndex = messages.length - 1;
+  while (
+    questionIndex >= 0 &&
+    (messages[questionIndex].getType() !== 'human' ||
+      messages[questionIndex].name)
+  ) {
+    questionIndex--;
+  }
+  return questionIndex;
+}
@@ -0,0 +1,64 @@
+import { RunErrorCode } from './interfaces/run-budget.interface';
+import { TokenUsage } from './interfaces/run-trace.interface';
+
+/**
+ * Erreur levée par un node pour couper le run (budget dépassé)
+ * Le run rend alors une réponse partielle avec ce code, au lieu d'une erreur 500
+ */
+export class RunCutOffError extends Error {
+  constructor(
+    readonly code: RunErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'RunCutOffError';
+  }
+}
+
+/**
+ * Compteur des appels de tools d'un run, partagé par les branches parallèles
+ * via la config du run
+ */
+export class ToolCallBudget {
+  constructor(
+    readonly max: number,
+    private used = 0,
+  ) {}
+
+  /**
+   * Réserve des appels de tools
+   * @throws RunCutOffError si le budget du run est dépassé
+   */
+  consume(count: number) {
+    if (this.used + count > this.max) {
+      throw new RunCutOffError(
+        'TOOL_BUDGET_EXCEEDED',
+        `Budget d'appels de tools dépassé (${this.max} maximum par run)`,
+      );
+    }
+    this.used += count;
+  }
+}
+
+/**
+ * Tokens de modèles que le run peut encore consommer (reste du quota du jour de la clé d'API),
+ * comparés aux tokens de sa trace avant chaque appel de modèle
+ */
+export class TokenBudget {
+  constructor(
+    readonly max: number,
+    private readonly usage: TokenUsage,
+  ) {}
+
+  /**
+   * @throws RunCutOffError si les tokens du run ont atteint le reste du quota
+   */
+  check() {
+    if (this.usage.total >= this.max) {
+      throw new RunCutOffError(
+        'TOKEN_BUDGET_EXCEEDED',
+        `Quota de tokens de la clé d'API atteint (${this.max} tokens restants au début du run)`,
+      );
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import { INestApplication } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import * as request from 'supertest';
+import { StateGraphModule } from './state-graph.module';
+
+describe('StateGraphController (offline)', () => {
+  let app: INestApplication;
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({
+          isGlobal: true,
+          ignoreEnvFile: true,
+          load: [
+            () => ({
+              AUTH_ENABLED: 'false',
+              LLM_PROVIDER: 'fake',
+              EMBEDDING_PROVIDER: 'fake',
+              WEB_SEARCH_PROVIDER: 'fake',
+              VECTOR_STORE_BACKEND: 'memory',
+              EMBEDDING_CACHE_BACKEND: 'memory',
+              CHECKPOINT_BACKEND: 'memory',
+              RUN_TRACE_BACKEND: 'memory',
+            }),
+          ],
+        }),
+        StateGraphModule,
+      ],
+    }).compile();
+    app = module.createNestApplication();
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should stream a run as Server-Sent Events', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/state-graph/stream')
+      .send({ question: 'What does E42 mean?' })
+      .expect(201)
+      .expect('Content-Type', /text\/event-stream/);
+
+    expect(response.text).toMatch(/^event: node_start\n/);
+    expect(response.text).toMatch(/event: final\ndata: \{"type":"final",/);
+  });
+
+  it('should end the stream with an error event when the run cannot start', async () => {
+    // Sans pipe de validation, le budget invalide est refusé par le service
+    const response = await request(app.getHttpServer())
+      .post('/state-graph/stream')
+      .send({ question: 'What does E42 mean?', maxSteps: 0 })
+      .expect(201);
+
+    const events = response.text.trim().split('\n\n');
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatch(/^event: error\n/);
+    expect(JSON.parse(events[0].split('data: ')[1])).toMatchObject({
+      type: 'error',
+      code: 'VALIDATION_FAILED',
+    });
+  });
+});
@@ -1,15 +1,222 @@
-import { Body, Controller, Post } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpStatus,
+  Logger,
+  Param,
+  Post,
+  Query,
+  Res,
+} from '@nestjs/common';
+import { Response } from 'express';
+import {
+  ApiBearerAuth,
+  ApiDefaultResponse,
+  ApiProduces,
+  ApiTags,
+} from '@nestjs/swagger';
 import { StateGraphService } from './state-graph.service';
+import { CurrentApiKey, RequireScopes } from 'src/auth/auth.decorators';
+import { ApiKeyRecord } from 'src/auth/interfaces/api-key.interface';
+import { ApiErrorDto } from 'src/common/dto/api-error.dto';
+import { toApiError } from 'src/common/api-error';
+import { RunDto } from './dto/run.dto';
+import { ApprovalDecisionDto } from './dto/approval-decision.dto';
+import { DiagramQueryDto } from './dto/diagram-query.dto';
+import { StateGraphEvent } from './interfaces/state-graph-event.interface';
 
+/**
+ * Réponse d'un run : réponse finale citée, recherche web en attente d'approbation,
+ * ou réponse partielle d'un run coupé par son budget (status cut_off et code d'erreur)
+ */
+function toRunResponse(
+  lastState: Awaited<ReturnType<StateGraphService['run']>>,
+) {
+  if (lastState.pendingApproval) {
+    return {
+      runId: lastState.runId,
+      threadId: lastState.threadId,
+      status: 'pending_approval',
+      pendingApproval: lastState.pendingApproval,
+    };
+  }
+  return {
+    runId: lastState.runId,
+    threadId: lastState.threadId,
+    status: lastState.error ? 'cut_off' : 'completed',
+    ...(lastState.error && { error: lastState.error }),
+    content: lastState.answer.content,
+    citations: lastState.answer.citations,
+    missingBranches: lastState.missingBranches,
+  };
+}
+
+// Toutes les routes du graphe lancent ou consultent des runs
+// Threads, runs et approbations sont limités à ceux de la clé d'API appelante,
+// dont le quota de tokens plafonne et décompte chaque run (voir StateGraphService)
+@RequireScopes('run')
+@ApiTags('state-graph')
+@ApiBearerAuth()
+@ApiDefaultResponse({ type: ApiErrorDto, description: 'Erreur' })
 @Controller('state-graph')
 export class StateGraphController {
+  private readonly logger = new Logger(StateGraphController.name);
+
   constructor(private readonly stateGraphService: StateGraphService) {}
 
   @Post('run')
-  async run(@Body() body: { question: string }) {
-    const lastState = await this.stateGraphService.run(body.question);
-    return {
-      content: lastState.messages[lastState.messages.length - 1].content,
-    };
+  async run(
+    @Body() body: RunDto,
+    @CurrentApiKey() apiKey: ApiKeyRecord | undefined,
+  ) {
+    const lastState = await this.stateGraphService.run(
+      body.question,
+      body.collection,
+      body.threadId,
+      { maxSteps: body.maxSteps, maxToolCalls: body.maxToolCalls },
+      apiKey?.id,
+    );
+    return toRunResponse(lastState);
+  }
+
+  /**
+   * Exécute le workflow en envoyant sa progression en Server-Sent Events
+   * Format des événements : voir StateGraphEvent
+   */
+  @Post('stream')
+  @ApiProduces('text/event-stream')
+  async stream(
+    @Body() body: RunDto,
+    @CurrentApiKey() apiKey: ApiKeyRecord | undefined,
+    @Res() res: Response,
+  ) {
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.flushHeaders();
+
+    // Arrête le run si le client se déconnecte avant la fin
+    const abortController = new AbortController();
+    res.on('close', () => abortController.abort());
+
+    const send = (event: StateGraphEvent) =>
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    try {
+      for await (const event of this.stateGraphService.stream(
+        body.question,
+        body.collection,
+        body.threadId,
+        abortController.signal,
+        { maxSteps: body.maxSteps, maxToolCalls: body.maxToolCalls },
+        apiKey?.id,
+      )) {
+        send(event);
+      }
+    } catch (error) {
+      // En-têtes déjà envoyés : l'erreur (ex : budget invalide, thread introuvable)
+      // est transmise comme dernier événement du flux
+      const { status, body } = toApiError(error);
+      if (status >= HttpStatus.INTERNAL_SERVER_ERROR) {
+        this.logger.error(body.message, error.stack);
+      }
+      send({ type: 'error', ...body });
+    }
+    res.end();
+  }
+
+  @Get('approvals')
+  async listPendingApprovals(
+    @CurrentApiKey() apiKey: ApiKeyRecord | undefined,
+  ) {
+    return this.stateGraphService.listPendingWebSearches(apiKey?.id);
+  }
+
+  /**
+   * Reprend un run en pause : approuve, modifie ou rejette sa recherche web
+   */
+  @Post('threads/:threadId/approval')
+  async resolveApproval(
+    @Param('threadId') threadId: string,
+    @Body() body: ApprovalDecisionDto,
+    @CurrentApiKey() apiKey: ApiKeyRecord | undefined,
+  ) {
+    const lastState = await this.stateGraphService.resolveWebSearch(
+      threadId,
+      body,
+      apiKey?.id,
+    );
+    return toRunResponse(lastState);
+  }
+
+  /**
+   * Diagramme du graphe : source Mermaid, ou image (format=png|svg) rendue à la demande
+   * Avec runId, le chemin suivi par ce run est mis en évidence
+   */
+  @Get('diagram')
+  @ApiProduces('text/plain', 'image/png', 'image/svg+xml')
+  async getDiagram(
+    @Query() query: DiagramQueryDto,
+    @CurrentApiKey() apiKey: ApiKeyRecord | undefined,
+    @Res() res: Response,
+  ) {
+    const diagram = await this.stateGraphService.getDiagram(query, apiKey?.id);
+    res.type(diagram.contentType).send(diagram.body);
+  }
+
+  @Get('runs')
+  listRuns(@CurrentApiKey() apiKey: ApiKeyRecord | undefined) {
+    return this.stateGraphService.listRuns(apiKey?.id);
+  }
+
+  /**
+   * Trace complète d'un run : nodes visités, messages, appels de modèles et de tools,
+   * durées et tokens
+   */
+  @Get('runs/:runId')
+  getRun(
+    @Param('runId') runId: string,
+    @CurrentApiKey() apiKey: ApiKeyRecord | undefined,
+  ) {
+    return this.stateGraphService.getRun(runId, apiKey?.id);
+  }
+
+  /**
+   * Export de la trace d'un run en fichier JSON, rejouable avec LLM_PROVIDER=replay
+   */
+  @Get('runs/:runId/export')
+  exportRun(
+    @Param('runId') runId: string,
+    @CurrentApiKey() apiKey: ApiKeyRecord | undefined,
+    @Res() res: Response,
+  ) {
+    const trace = this.stateGraphService.getRun(runId, apiKey?.id);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="run-${trace.id}.json"`,
+    );
+    res.json(trace);
+  }
+
+  @Get('threads')
+  async listThreads(@CurrentApiKey() apiKey: ApiKeyRecord | undefined) {
+    return this.stateGraphService.listThreads(apiKey?.id);
+  }
+
+  @Get('threads/:threadId')
+  async getThread(
+    @Param('threadId') threadId: string,
+    @CurrentApiKey() apiKey: ApiKeyRecord | undefined,
+  ) {
+    return this.stateGraphService.getThread(threadId, apiKey?.id);
+  }
+
+  @Delete('threads/:threadId')
+  async deleteThread(
+    @Param('threadId') threadId: string,
+    @CurrentApiKey() apiKey: ApiKeyRecord | undefined,
+  ) {
+    return this.stateGraphService.deleteThread(threadId, apiKey?.id);
   }
 }
@@ -2,10 +2,13 @@ import { Module } from '@nestjs/common';
 import { StateGraphService } from './state-graph.service';
 import { KnowledgeModule } from 'src/knowledge/knowledge.module';
 import { StateGraphController } from './state-graph.controller';
+import { ProvidersModule } from 'src/providers/providers.module';
+import { AuthModule } from 'src/auth/auth.module';
 
 @Module({
-  imports: [KnowledgeModule],
+  imports: [KnowledgeModule, ProvidersModule, AuthModule],
   providers: [StateGraphService],
   controllers: [StateGraphController],
+  exports: [StateGraphService],
 })
 export class StateGraphModule {}
@@ -0,0 +1,631 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigModule } from '@nestjs/config';
+import { KnowledgeService } from 'src/knowledge/knowledge.service';
+import { StateGraphModule } from './state-graph.module';
+import { StateGraphService } from './state-graph.service';
+import { mkdtemp, writeFile } from 'node:fs/promises';
+import { createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { AIMessage, BaseMessage, ToolMessage } from '@langchain/core/messages';
+import { OfflineChatModel } from 'src/providers/offline/offline-chat.model';
+import { StateGraphEvent } from './interfaces/state-graph-event.interface';
+import { ApiKeysService } from 'src/auth/api-keys.service';
+import { ProvidersService } from 'src/providers/providers.service';
+
+describe('StateGraphService (offline)', () => {
+  let module: TestingModule;
+  let stateGraphService: StateGraphService;
+  let knowledgeService: KnowledgeService;
+
+  const setup = async (config: Record<string, string> = {}) => {
+    module = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({
+          isGlobal: true,
+          ignoreEnvFile: true,
+          load: [
+            () => ({
+              LLM_PROVIDER: 'fake',
+              EMBEDDING_PROVIDER: 'fake',
+              WEB_SEARCH_PROVIDER: 'fake',
+              VECTOR_STORE_BACKEND: 'memory',
+              EMBEDDING_CACHE_BACKEND: 'memory',
+              CHECKPOINT_BACKEND: 'memory',
+              RUN_TRACE_BACKEND: 'memory',
+              ...config,
+            }),
+          ],
+        }),
+        StateGraphModule,
+      ],
+    }).compile();
+    await module.init();
+
+    stateGraphService = module.get(StateGraphService);
+    knowledgeService = module.get(KnowledgeService);
+  };
+
+  const ingestNotes = () =>
+    knowledgeService.ingestFile('default', {
+      originalname: 'notes.txt',
+      mimetype: 'text/plain',
+      size: 32,
+      buffer: Buffer.from('The error code E42 means disk full.'),
+    } as Express.Multer.File);
+
+  const collect = async (stream: AsyncGenerator<StateGraphEvent>) => {
+    const events: StateGraphEvent[] = [];
+    for await (const event of stream) events.push(event);
+    return events;
+  };
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await module.close();
+  });
+
+  it('should answer with document and web citations', async () => {
+    await setup();
+    await ingestNotes();
+
+    const state = await stateGraphService.run('What does E42 mean?');
+
+    expect(state.finished).toBe(true);
+    expect(state.answer.content).toContain('Rag:');
+    expect(state.answer.citations.map((citation) => citation.type)).toEqual([
+      'document',
+      'web',
+    ]);
+  });
+
+  it('should stream the nodes and tool calls of a run', async () => {
+    await setup();
+    await ingestNotes();
+
+    const events = await collect(
+      stateGraphService.stream('What does E42 mean?'),
+    );
+    const steps = events
+      .filter((event) => event.type !== 'token')
+      .map((event) =>
+        'node' in event ? `${event.type} ${event.node}` : event.type,
+      );
+
+    // Branches parallèles : l'ordre entre Rag et Tavily n'est pas garanti
+    expect(steps.slice(0, 2)).toEqual([
+      'node_start Coordinator',
+      'node_end Coordinator',
+    ]);
+    expect([...steps.slice(2, -3)].sort()).toEqual([
+      'node_end Rag',
+      'node_end Tavily',
+      'node_start Rag',
+      'node_start Tavily',
+      'tool_call Rag',
+      'tool_call Tavily',
+      'tool_result Rag',
+      'tool_result Tavily',
+    ]);
+    expect(steps.slice(-3)).toEqual([
+      'node_start Coordinator',
+      'node_end Coordinator',
+      'final',
+    ]);
+    expect(events).toContainEqual({
+      type: 'tool_call',
+      node: 'Rag',
+      tool: 'rag_search',
+      input: { query: 'What does E42 mean?' },
+    });
+  });
+
+  it('should stream the final answer text as tokens', async () => {
+    await setup();
+    await ingestNotes();
+
+    const events = await collect(
+      stateGraphService.stream('What does E42 mean?'),
+    );
+
+    const tokens = events
+      .map((event) => (event.type === 'token' ? event.content : ''))
+      .join('');
+    const final = events.find((event) => event.type === 'final');
+    const thread = await stateGraphService.getThread(final.threadId);
+
+    // Réponse donnée par le Coordinator avec final_answer, avant renumérotation des citations
+    const answer = thread.messages[thread.messages.length - 1].content;
+    expect(answer).toContain('Rag:');
+    expect(tokens.endsWith(answer as string)).toBe(true);
+  });
+
+  it('should continue a conversation thread', async () => {
+    await setup();
+    const first = await stateGraphService.run('First question');
+    await stateGraphService.run('Follow-up', 'default', first.threadId);
+
+    const thread = await stateGraphService.getThread(first.threadId);
+
+    expect(
+      thread.messages
+        .filter((message) => message.type === 'human' && !message.name)
+        .map((message) => message.content),
+    ).toEqual(['First question', 'Follow-up']);
+  });
+
+  it('should pause before the web search until a reviewer decides', async () => {
+    await setup({ WEB_SEARCH_APPROVAL: 'true' });
+    await ingestNotes();
+
+    const paused = await stateGraphService.run('What does E42 mean?');
+
+    expect(paused.answer).toBeUndefined();
+    expect(paused.pendingApproval.query).toContain('E42');
+    expect(await stateGraphService.listPendingWebSearches()).toEqual([
+      expect.objectContaining({ threadId: paused.threadId }),
+    ]);
+
+    const rejected = await stateGraphService.resolveWebSearch(paused.threadId, {
+      action: 'reject',
+    });
+
+    expect(rejected.finished).toBe(true);
+    expect(rejected.answer.citations.map((citation) => citation.type)).toEqual([
+      'document',
+    ]);
+    expect(await stateGraphService.listPendingWebSearches()).toEqual([]);
+  });
+
+  it('should resume an approved web search without calling the branch model again', async () => {
+    const generate = jest.spyOn(OfflineChatModel.prototype, '_generate');
+    const createWebSearchTool = ProvidersService.prototype.createWebSearchTool;
+    let search: jest.SpyInstance;
+    jest
+      .spyOn(ProvidersService.prototype, 'createWebSearchTool')
+      .mockImplementation(function (this: ProvidersService) {
+        const webSearchTool = createWebSearchTool.call(this);
+        search = jest.spyOn(webSearchTool, 'invoke');
+        return webSearchTool;
+      });
+    const tavilyCalls = () =>
+      generate.mock.calls.filter(([messages]) =>
+        String(messages[0].content).includes('search online'),
+      ).length;
+    // Checkpoints sur disque, relus par une nouvelle instance pour la reprise
+    const config = {
+      WEB_SEARCH_APPROVAL: 'true',
+      CHECKPOINT_BACKEND: 'file',
+      CHECKPOINT_PATH: await mkdtemp(join(tmpdir(), 'checkpoints-')),
+    };
+    await setup(config);
+
+    const paused = await stateGraphService.run('Confidential project X42');
+    expect(tavilyCalls()).toBe(1);
+    await module.close();
+    await setup(config);
+
+    const resumed = await stateGraphService.resolveWebSearch(paused.threadId, {
+      action: 'approve',
+    });
+
+    // Seule la recherche web est exécutée, puis le modèle lit ses résultats
+    expect(search).toHaveBeenCalledTimes(1);
+    expect(tavilyCalls()).toBe(2);
+    expect(resumed.answer.citations).toEqual([
+      expect.objectContaining({ type: 'web' }),
+    ]);
+  });
+
+  it('should resume a paused run with its own budget', async () => {
+    await setup({ WEB_SEARCH_APPROVAL: 'true' });
+
+    const paused = await stateGraphService.run(
+      'What does E42 mean?',
+      'default',
+      undefined,
+      { maxToolCalls: 1 },
+    );
+    expect(paused.pendingApproval.budget).toEqual({
+      maxSteps: 25,
+      maxToolCalls: 1,
+    });
+
+    // Le Rag a déjà utilisé le seul appel de tool du run
+    const resumed = await stateGraphService.resolveWebSearch(paused.threadId, {
+      action: 'approve',
+    });
+
+    expect(resumed.error.code).toBe('TOOL_BUDGET_EXCEEDED');
+  });
+
+  it('should answer every tool call of a message with a rejected web search', async () => {
+    const filePath = join(
+      await mkdtemp(join(tmpdir(), 'agent-graph-')),
+      'graph.yaml',
+    );
+    await writeFile(
+      filePath,
+      [
+        'entry: Coordinator',
+        'agents:',
+        '  - name: Coordinator',
+        '    systemPrompt: Coordinate the research agents.',
+        '    finish: true',
+        '    next: Tavily',
+        '  - name: Tavily',
+        '    systemPrompt: Search the web.',
+        '    tools: [tavily_search, calculator]',
+        '    next: Coordinator',
+      ].join('\n'),
+    );
+    // Le modèle demande un calcul en même temps que la recherche web
+    const generate = OfflineChatModel.prototype._generate;
+    jest
+      .spyOn(OfflineChatModel.prototype, '_generate')
+      .mockImplementation(async function (
+        this: OfflineChatModel,
+        messages: BaseMessage[],
+      ) {
+        const result = await generate.call(this, messages);
+        const message = result.generations[0].message as AIMessage;
+        if (message.tool_calls?.[0]?.name === 'tavily_search') {
+          message.tool_calls.push({
+            id: 'call_calculator',
+            name: 'calculator',
+            args: { expression: '6 * 7' },
+          });
+        }
+        return result;
+      });
+    await setup({ AGENT_GRAPH_CONFIG: filePath, WEB_SEARCH_APPROVAL: 'true' });
+
+    const paused = await stateGraphService.run('Confidential project X42');
+    const rejected = await stateGraphService.resolveWebSearch(paused.threadId, {
+      action: 'reject',
+    });
+
+    expect(rejected.finished).toBe(true);
+    const toolMessages = rejected.messages.filter(
+      (message) => message.getType() === 'tool',
+    ) as ToolMessage[];
+    expect(toolMessages.map((message) => message.tool_call_id)).toEqual([
+      expect.stringMatching(/^call_/),
+      'call_calculator',
+    ]);
+    expect(toolMessages[0].content).toContain('rejected by a reviewer');
+    expect(toolMessages[1].content).toContain('42');
+  });
+
+  it('should run the web search with the query edited by the reviewer', async () => {
+    await setup({ WEB_SEARCH_APPROVAL: 'true' });
+
+    const paused = await stateGraphService.run('Confidential project X42');
+    const edited = await stateGraphService.resolveWebSearch(paused.threadId, {
+      action: 'edit',
+      query: 'public question',
+    });
+
+    expect(edited.answer.citations).toEqual([
+      expect.objectContaining({
+        type: 'web',
+        url: 'https://example.com/search?q=public%20question',
+      }),
+    ]);
+  });
+
+  it('should scope threads, runs and approvals to the key that created them', async () => {
+    await setup({ WEB_SEARCH_APPROVAL: 'true' });
+
+    const paused = await stateGraphService.run(
+      'What does E42 mean?',
+      'default',
+      undefined,
+      {},
+      'key-a',
+    );
+
+    expect(await stateGraphService.listThreads('key-b')).toEqual([]);
+    expect(await stateGraphService.listPendingWebSearches('key-b')).toEqual([]);
+    expect(stateGraphService.listRuns('key-b')).toEqual([]);
+    expect(() => stateGraphService.getRun(paused.runId, 'key-b')).toThrow(
+      'Run introuvable',
+    );
+    await expect(
+      stateGraphService.getThread(paused.threadId, 'key-b'),
+    ).rejects.toThrow('Thread introuvable');
+    await expect(
+      stateGraphService.run('Hijack', 'default', paused.threadId, {}, 'key-b'),
+    ).rejects.toThrow('Thread introuvable');
+    await expect(
+      stateGraphService.resolveWebSearch(
+        paused.threadId,
+        { action: 'approve' },
+        'key-b',
+      ),
+    ).rejects.toThrow('Thread introuvable');
+    await expect(
+      stateGraphService.deleteThread(paused.threadId, 'key-b'),
+    ).rejects.toThrow('Thread introuvable');
+
+    expect(await stateGraphService.listThreads('key-a')).toEqual([
+      expect.objectContaining({ threadId: paused.threadId }),
+    ]);
+    expect(stateGraphService.listRuns('key-a')).toEqual([
+      expect.objectContaining({ id: paused.runId }),
+    ]);
+    const resumed = await stateGraphService.resolveWebSearch(
+      paused.threadId,
+      { action: 'reject' },
+      'key-a',
+    );
+    expect(resumed.finished).toBe(true);
+    expect(stateGraphService.getRun(resumed.runId, 'key-a').apiKeyId).toBe(
+      'key-a',
+    );
+  });
+
+  describe('token quota of the calling key', () => {
+    let apiKeysService: ApiKeysService;
+
+    // Modèle hors ligne qui déclare 100 tokens par appel, et échoue si failOn le demande
+    const mockTokenUsage = (failOn?: (messages: BaseMessage[]) => boolean) => {
+      const generate = OfflineChatModel.prototype._generate;
+      jest
+        .spyOn(OfflineChatModel.prototype, '_generate')
+        .mockImplementation(async function (
+          this: OfflineChatModel,
+          messages: BaseMessage[],
+        ) {
+          if (failOn?.(messages)) throw new Error('model unavailable');
+          return {
+            ...(await generate.call(this, messages)),
+            llmOutput: { tokenUsage: { totalTokens: 100 } },
+          };
+        });
+    };
+
+    beforeEach(async () => {
+      await setup();
+      apiKeysService = module.get(ApiKeysService);
+    });
+
+    it('should cut off a run at the remaining quota and charge its tokens', async () => {
+      mockTokenUsage();
+      jest.spyOn(apiKeysService, 'remainingTokens').mockReturnValue(150);
+      const recordTokenUsage = jest.spyOn(apiKeysService, 'recordTokenUsage');
+
+      const state = await stateGraphService.run(
+        'What does E42 mean?',
+        'default',
+        undefined,
+        {},
+        'key-a',
+      );
+
+      expect(state.error.code).toBe('TOKEN_BUDGET_EXCEEDED');
+      const { tokenUsage } = stateGraphService.getRun(state.runId);
+      expect(tokenUsage.total).toBeGreaterThanOrEqual(150);
+      expect(recordTokenUsage).toHaveBeenCalledWith('key-a', tokenUsage.total);
+    });
+
+    it('should charge the tokens of a failed run', async () => {
+      // Le Coordinator échoue en rédigeant la réponse finale, après les branches
+      mockTokenUsage((messages) =>
+        messages.some((message) => message.name === 'Rag'),
+      );
+      const recordTokenUsage = jest.spyOn(apiKeysService, 'recordTokenUsage');
+
+      await expect(
+        stateGraphService.run(
+          'What does E42 mean?',
+          'default',
+          undefined,
+          {},
+          'key-a',
+        ),
+      ).rejects.toThrow('Échec du run');
+      const [run] = stateGraphService.listRuns('key-a');
+      expect(run.status).toBe('failed');
+      expect(run.tokenUsage.total).toBeGreaterThan(0);
+      expect(recordTokenUsage).toHaveBeenCalledWith(
+        'key-a',
+        run.tokenUsage.total,
+      );
+    });
+  });
+
+  it('should cut off a run that exceeds its step budget', async () => {
+    await setup();
+    await ingestNotes();
+
+    const state = await stateGraphService.run(
+      'What does E42 mean?',
+      'default',
+      undefined,
+      { maxSteps: 2 },
+    );
+
+    expect(state.error.code).toBe('STEP_BUDGET_EXCEEDED');
+    expect(state.finished).toBe(false);
+    // Réponses des branches obtenues avant la coupure
+    expect(state.answer.content).toContain('Rag:');
+    expect(state.answer.citations.map((citation) => citation.type)).toEqual([
+      'document',
+      'web',
+    ]);
+  });
+
+  it('should cut off a run that exceeds its tool-call budget', async () => {
+    await setup({ RUN_MAX_TOOL_CALLS: '0' });
+
+    const state = await stateGraphService.run('What does E42 mean?');
+
+    expect(state.error.code).toBe('TOOL_BUDGET_EXCEEDED');
+    expect(state.missingBranches).toEqual([]);
+  });
+
+  it('should reject an invalid budget', async () => {
+    await setup();
+
+    await expect(
+      stateGraphService.run('Question', 'default', undefined, {
+        maxSteps: 0,
+      }),
+    ).rejects.toThrow('maxSteps');
+  });
+
+  it('should reject a budget above the configured limits', async () => {
+    await setup({ RUN_MAX_STEPS: '25', RUN_MAX_TOOL_CALLS: '10' });
+
+    await expect(
+      stateGraphService.run('Question', 'default', undefined, {
+        maxSteps: 100000,
+      }),
+    ).rejects.toThrow('RUN_MAX_STEPS (25)');
+    await expect(
+      stateGraphService.run('Question', 'default', undefined, {
+        maxToolCalls: 11,
+      }),
+    ).rejects.toThrow('RUN_MAX_TOOL_CALLS (10)');
+  });
+
+  it('should trace each run and replay its export with recorded models', async () => {
+    await setup();
+    await ingestNotes();
+    const state = await stateGraphService.run('What does E42 mean?');
+
+    expect(stateGraphService.listRuns()).toEqual([
+      expect.objectContaining({
+        id: state.runId,
+        status: 'completed',
+        nodes: ['Coordinator', 'Rag', 'Tavily', 'Coordinator'],
+        toolCalls: 2,
+      }),
+    ]);
+    const trace = stateGraphService.getRun(state.runId);
+    const ragSearch = trace.toolCalls.find(
+      (call) => call.tool === 'rag_search',
+    );
+    expect(ragSearch).toMatchObject({
+      node: 'Rag',
+      input: { query: 'What does E42 mean?' },
+    });
+    expect(String(ragSearch.output)).toContain('E42 means disk full');
+    // Branches parallèles : ordre libre entre Rag et Tavily
+    expect(trace.modelCalls.map((call) => call.node).sort()).toEqual([
+      'Coordinator',
+      'Coordinator',
+      'Rag',
+      'Rag',
+      'Tavily',
+      'Tavily',
+    ]);
+    await module.close();
+
+    // Rejeu hors ligne : mêmes réponses de modèles, tools exécutés à nouveau
+    const filePath = join(
+      await mkdtemp(join(tmpdir(), 'run-trace-')),
+      'run.json',
+    );
+    await writeFile(filePath, JSON.stringify(trace));
+    await setup({ LLM_PROVIDER: 'replay', LLM_REPLAY_TRACE: filePath });
+    await ingestNotes();
+
+    const replayed = await stateGraphService.run('What does E42 mean?');
+
+    const outputsByAgent = (run: typeof trace) =>
+      ['Coordinator', 'Rag', 'Tavily'].map((node) =>
+        run.modelCalls
+          .filter((call) => call.node === node)
+          .map((call) => call.output),
+      );
+    expect(outputsByAgent(stateGraphService.getRun(replayed.runId))).toEqual(
+      outputsByAgent(trace),
+    );
+  });
+
+  it('should serve the graph diagram with the path of a run', async () => {
+    await setup();
+    const state = await stateGraphService.run('What does E42 mean?');
+
+    const diagram = await stateGraphService.getDiagram();
+    const highlighted = await stateGraphService.getDiagram({
+      runId: state.runId,
+    });
+
+    expect(diagram.contentType).toContain('text/plain');
+    expect(diagram.body).toContain('Coordinator -.-> Rag;');
+    expect(highlighted.body).toMatch(
+      /class __start__,Coordinator,(Rag,Tavily|Tavily,Rag),__end__ visited;/,
+    );
+    // Branches parallèles : les six arêtes du graphe sont prises
+    expect(highlighted.body).toContain('linkStyle 0,1,2,3,4,5 ');
+  });
+
+  it('should build the graph from the configuration file', async () => {
+    // Déploiement sans agent web
+    const filePath = join(
+      await mkdtemp(join(tmpdir(), 'agent-graph-')),
+      'graph.yaml',
+    );
+    await writeFile(
+      filePath,
+      [
+        'entry: Coordinator',
+        'agents:',
+        '  - name: Coordinator',
+        '    systemPrompt: Coordinate the research agents.',
+        '    finish: true',
+        '    next: Rag',
+        '  - name: Rag',
+        '    systemPrompt: Search the knowledge base.',
+        '    tools: [rag_search]',
+        '    next: Coordinator',
+      ].join('\n'),
+    );
+    await setup({ AGENT_GRAPH_CONFIG: filePath });
+    await ingestNotes();
+
+    const state = await stateGraphService.run('What does E42 mean?');
+
+    expect(state.finished).toBe(true);
+    expect(state.answer.content).toContain('Rag:');
+    expect(state.answer.citations.map((citation) => citation.type)).toEqual([
+      'document',
+    ]);
+    expect(state.messages.map((message) => message.name)).not.toContain(
+      'tavily_search',
+    );
+  });
+
+  it('should answer from documents when the web branch times out', async () => {
+    // Serveur de modèle qui ne répond jamais
+    const server = createServer(() => {});
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      await setup({
+        TAVILY_LLM_PROVIDER: 'openai-compatible',
+        TAVILY_LLM_BASE_URL: `http://127.0.0.1:${port}/v1`,
+        BRANCH_TIMEOUT_MS: '300',
+      });
+      await ingestNotes();
+
+      const state = await stateGraphService.run('What does E42 mean?');
+
+      expect(state.missingBranches).toEqual(['Tavily']);
+      expect(state.answer.content).toContain('Tavily branch is missing');
+      expect(state.answer.citations.map((citation) => citation.type)).toEqual([
+        'document',
+      ]);
+    } finally {
+      server.closeAllConnections();
+      server.close();
+    }
+  });
+});
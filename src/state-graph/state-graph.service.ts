@@ -3,34 +3,126 @@ import {
   MessagesPlaceholder,
 } from '@langchain/core/prompts';
 import { Runnable, RunnableConfig } from '@langchain/core/runnables';
-import { StructuredTool, Tool, tool } from '@langchain/core/tools';
+import { StreamEvent } from '@langchain/core/tracers/log_stream';
+import { StructuredTool, tool } from '@langchain/core/tools';
 import { convertToOpenAITool } from '@langchain/core/utils/function_calling';
-import { ChatOpenAI } from '@langchain/openai';
-import { Injectable } from '@nestjs/common';
-import { TavilySearch } from '@langchain/tavily';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import {
+  BadGatewayException,
+  HttpException,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import {
   Annotation,
   AnnotationRoot,
   BaseChannel,
+  Command,
   END,
+  GraphRecursionError,
   START,
   StateGraph,
+  interrupt,
+  isGraphInterrupt,
+  task,
 } from '@langchain/langgraph';
-import { AIMessage, BaseMessage } from '@langchain/core/messages';
+import {
+  AIMessage,
+  AIMessageChunk,
+  BaseMessage,
+  ToolMessage,
+} from '@langchain/core/messages';
 import { KnowledgeService } from 'src/knowledge/knowledge.service';
 import { ToolNode } from '@langchain/langgraph/prebuilt';
 import { HumanMessage } from '@langchain/core/messages';
-import { writeFileSync } from 'node:fs';
 import { ToolCall } from '@langchain/core/dist/messages/tool';
+import { DEFAULT_COLLECTION } from 'src/knowledge/knowledge.constants';
+import { StateGraphEvent } from './interfaces/state-graph-event.interface';
+import { MemoryCheckpointer } from './checkpointers/memory.checkpointer';
+import { createCheckpointer } from './checkpointers/checkpointer.factory';
+import { randomUUID } from 'node:crypto';
+import { buildCitedAnswer, documentMarker } from './citations';
+import { findQuestionIndex } from './question-index';
+import { ProvidersService } from 'src/providers/providers.service';
+import { ApiKeysService } from 'src/auth/api-keys.service';
+import {
+  SEARCH_MODES,
+  SearchMode,
+} from 'src/knowledge/interfaces/search-options.interface';
+import { MetadataFilter } from 'src/knowledge/search/metadata-filter';
+import { z } from 'zod';
+import {
+  AgentConfig,
+  TOOL_NODE,
+  findBranches,
+  loadAgentGraphConfig,
+  nextAgents,
+} from './graph-config/agent-graph-config';
+import {
+  APPROVAL_ACTIONS,
+  ApprovalDecision,
+  PendingWebSearch,
+} from './interfaces/web-search-approval.interface';
+import { RunBudget, RunError } from './interfaces/run-budget.interface';
+import { errorBody, invalidField } from 'src/common/api-error';
+import { createToolRegistry } from './tools/tool-registry';
+import { RunCutOffError, TokenBudget, ToolCallBudget } from './run-budget';
+import {
+  FINAL_ANSWER_TOOL,
+  FinalAnswerStream,
+  createFinalAnswerTool,
+} from './final-answer.tool';
+import { RunStatus, RunTrace } from './interfaces/run-trace.interface';
+import { RunTracer, isTaskRun } from './tracing/run-tracer';
+import { MemoryRunTraceStore } from './tracing/memory-run-trace.store';
+import { createRunTraceStore } from './tracing/run-trace-store.factory';
+import {
+  DIAGRAM_FORMATS,
+  Diagram,
+  DiagramOptions,
+} from './interfaces/diagram-options.interface';
+import { highlightPath, renderMermaid } from './diagram/mermaid-diagram';
 
 // Types pour les node du graphe d'état
-type NodeNames = 'Coordinator' | 'Rag' | 'Tavily';
+// Les agents viennent de la configuration du graphe (voir config/agent-graph.yaml)
+type NodeNames = string;
+
+// Nom du tool de recherche web, soumis à approbation (WEB_SEARCH_APPROVAL)
+const WEB_SEARCH_TOOL = 'tavily_search';
+
+// Pseudo-nodes d'entrée et de sortie du graphe, absents des événements envoyés
+const isPseudoNode = (node: string) => node === START || node === END;
+
+// Événement de début ou de fin d'un node du graphe, pas d'un runnable interne ni d'une task
+const isNodeEvent = (event: StreamEvent) =>
+  event.name === event.metadata?.langgraph_node &&
+  !isPseudoNode(event.name) &&
+  !isTaskRun(event.metadata);
+
+/**
+ * Arguments d'un appel de tool : LangChain les transmet en JSON dans un champ input
+ */
+function parseToolInput(input: unknown): unknown {
+  const raw = (input as { input?: unknown })?.input;
+  if (typeof raw !== 'string') return input;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
 
 // Type pour l'état de l'agent avec les annotations LangGraph
 // Définit la structure des données partagées entre les node
 type AgentState = AnnotationRoot<{
   messages: BaseChannel<BaseMessage[], BaseMessage[], BaseMessage[]>;
   sender: BaseChannel<BaseChannel<string, string, string>, string, string>;
+  finished: BaseChannel<boolean, boolean, boolean>;
+  apiKeyId: BaseChannel<string, string, string>;
 }>;
 
 /**
@@ -39,85 +131,848 @@ type AgentState = AnnotationRoot<{
  */
 @Injectable()
 // Agents spécialisés pour différentes tâches
-export class StateGraphService {
-  // Agent pour la recherche dans la base de connaissances
-  private knowledgeAgent: Runnable;
-  // Agent pour la recherche web
-  private tavilyAgent: Runnable;
-  // Agent coordinateur qui orchestre les autres agents
-  private coordinatorAgent: Runnable;
+export class StateGraphService implements OnModuleInit {
+  private readonly logger = new Logger(StateGraphService.name);
+  // Agents du graphe, par nom de node
+  private readonly agents = new Map<string, Runnable>();
+  // Agents qui peuvent terminer le run : leurs tokens sont envoyés en streaming
+  private answeringAgents = new Set<string>();
   // private workflow: StateGraph<AgentState, NodeNames>; // type error
   private workflow: any;
   // Graphe compilé pour l'exécution
   private graph: ReturnType<StateGraph<AgentState, NodeNames>['compile']>;
-  private knowledgeTool: Tool;
-  private tavilyTool: TavilySearch;
+  private knowledgeTool: StructuredTool;
+  // Sauvegarde de l'état du graphe par thread de conversation
+  private readonly checkpointer: MemoryCheckpointer;
+  // Construction du graphe, lancée dès le constructeur
+  private readonly ready: Promise<void>;
+  // Traces des runs (nodes, messages, tools, durées, tokens)
+  private readonly traceStore: MemoryRunTraceStore;
+  // Recherches web soumises à approbation avant envoi (WEB_SEARCH_APPROVAL=true)
+  private readonly webSearchApproval: boolean;
 
-  constructor(private readonly knowledgeService: KnowledgeService) {
-    this.init();
+  constructor(
+    private readonly knowledgeService: KnowledgeService,
+    private readonly configService: ConfigService,
+    private readonly providersService: ProvidersService,
+    private readonly apiKeysService: ApiKeysService,
+  ) {
+    this.checkpointer = createCheckpointer(this.configService);
+    this.traceStore = createRunTraceStore(this.configService);
+    this.webSearchApproval =
+      this.configService.get<string>('WEB_SEARCH_APPROVAL', 'false') === 'true';
+    this.ready = this.init();
+  }
+
+  // Attend le graphe et recharge les conversations et traces sauvegardées avant de servir les requêtes
+  async onModuleInit() {
+    await Promise.all([
+      this.ready,
+      this.checkpointer.load(),
+      this.traceStore.load(),
+    ]);
   }
 
   /**
    * Point d'entrée principal pour exécuter le workflow d'agents
    * @param input Question ou requête de l'utilisateur
-   * @returns Résultat du traitement par les agents
+   * @param collection Collection de documents dans laquelle l'agent RAG recherche
+   * @param threadId Conversation à poursuivre ; une nouvelle est créée si absent
+   * @param budget Limites d'étapes et d'appels de tools du run
+   * @param apiKeyId Clé d'API appelante : propriétaire du thread, seule à pouvoir le poursuivre
+   * @returns Résultat du traitement par les agents, identifiant du thread
+   * et réponse finale avec ses citations, ou recherche web en attente d'approbation ;
+   * réponse partielle et error si le run est coupé par son budget
+   */
+  async run(
+    input: string,
+    collection: string = DEFAULT_COLLECTION,
+    threadId: string = randomUUID(),
+    budget: RunBudget = {},
+    apiKeyId?: string,
+  ) {
+    await this.checkThreadAccess(threadId, apiKeyId);
+    return this.execute(
+      { messages: [new HumanMessage(input)], finished: false, apiKeyId },
+      collection,
+      threadId,
+      this.resolveBudget(budget),
+      apiKeyId,
+    );
+  }
+
+  /**
+   * Complète les limites du run avec RUN_MAX_STEPS et RUN_MAX_TOOL_CALLS
+   * Ces valeurs sont aussi des plafonds : une requête peut les réduire, pas les dépasser
+   */
+  private resolveBudget(budget: RunBudget = {}): Required<RunBudget> {
+    const limits = {
+      maxSteps: Number(this.configService.get<string>('RUN_MAX_STEPS', '25')),
+      maxToolCalls: Number(
+        this.configService.get<string>('RUN_MAX_TOOL_CALLS', '10'),
+      ),
+    };
+    const resolved = {
+      maxSteps: budget.maxSteps ?? limits.maxSteps,
+      maxToolCalls: budget.maxToolCalls ?? limits.maxToolCalls,
+    };
+    if (!Number.isInteger(resolved.maxSteps) || resolved.maxSteps < 1) {
+      throw invalidField(
+        'maxSteps',
+        `maxSteps doit être un entier positif : ${budget.maxSteps}`,
+      );
+    }
+    if (!Number.isInteger(resolved.maxToolCalls) || resolved.maxToolCalls < 0) {
+      throw invalidField(
+        'maxToolCalls',
+        `maxToolCalls doit être un entier positif ou nul : ${budget.maxToolCalls}`,
+      );
+    }
+    if (resolved.maxSteps > limits.maxSteps) {
+      throw invalidField(
+        'maxSteps',
+        `maxSteps ne peut pas dépasser RUN_MAX_STEPS (${limits.maxSteps}) : ${budget.maxSteps}`,
+      );
+    }
+    if (resolved.maxToolCalls > limits.maxToolCalls) {
+      throw invalidField(
+        'maxToolCalls',
+        `maxToolCalls ne peut pas dépasser RUN_MAX_TOOL_CALLS (${limits.maxToolCalls}) : ${budget.maxToolCalls}`,
+      );
+    }
+    return resolved;
+  }
+
+  /**
+   * Reprend un run en pause avec la décision sur sa recherche web
+   * @param decision approve, edit (avec la requête corrigée) ou reject
+   * @param apiKeyId Clé d'API appelante, qui doit être propriétaire du thread
+   * @returns même résultat que run()
+   */
+  async resolveWebSearch(
+    threadId: string,
+    decision: ApprovalDecision,
+    apiKeyId?: string,
+  ) {
+    if (!APPROVAL_ACTIONS.includes(decision?.action)) {
+      throw invalidField(
+        'action',
+        `Décision inconnue : ${decision?.action} (attendu : ${APPROVAL_ACTIONS.join(', ')})`,
+      );
+    }
+    if (decision.action === 'edit' && !decision.query?.trim()) {
+      throw invalidField(
+        'query',
+        'Une requête est obligatoire pour modifier la recherche web',
+      );
+    }
+
+    await this.checkThreadAccess(threadId, apiKeyId);
+    const pending = await this.getPendingWebSearch(threadId);
+    if (!pending) {
+      throw new NotFoundException(
+        errorBody(
+          'NO_PENDING_APPROVAL',
+          `Aucune recherche web en attente pour le thread : ${threadId}`,
+        ),
+      );
+    }
+    return this.execute(
+      // La requête approuvée est celle montrée au relecteur
+      new Command({
+        resume: {
+          ...decision,
+          query: decision.action === 'edit' ? decision.query : pending.query,
+        },
+      }),
+      pending.collection,
+      threadId,
+      // Pause enregistrée avant que le budget n'y soit sauvegardé : limites par défaut
+      pending.budget ?? this.resolveBudget(),
+      apiKeyId,
+    );
+  }
+
+  /**
+   * Liste les recherches web en attente d'approbation, sur les threads de la clé d'API
+   */
+  async listPendingWebSearches(
+    apiKeyId?: string,
+  ): Promise<({ threadId: string } & PendingWebSearch)[]> {
+    const threadIds = await this.listVisibleThreadIds(apiKeyId);
+    const pending = await Promise.all(
+      threadIds.map(async (threadId) => ({
+        threadId,
+        pending: await this.getPendingWebSearch(threadId),
+      })),
+    );
+    return pending
+      .filter(({ pending }) => pending)
+      .map(({ threadId, pending }) => ({ threadId, ...pending }));
+  }
+
+  private async execute(
+    input: Record<string, unknown> | Command,
+    collection: string,
+    threadId: string,
+    budget: Required<RunBudget>,
+    apiKeyId: string | undefined,
+  ) {
+    const tracer = this.createTracer(input, collection, threadId, apiKeyId);
+    let state: { messages: BaseMessage[]; finished: boolean };
+    let error: RunError;
+    try {
+      state = (await this.graph.invoke(
+        input,
+        await this.runConfig(input, collection, threadId, budget, tracer),
+      )) as typeof state;
+    } catch (err) {
+      error = this.toRunError(err, budget);
+      if (!error) {
+        await this.finishRun(tracer, 'failed', { message: err.message });
+        if (err instanceof HttpException) throw err;
+        // Erreur d'un node, d'un modèle ou d'un tool : le run reste consultable dans sa trace
+        throw new InternalServerErrorException(
+          errorBody('GRAPH_EXECUTION_FAILED', `Échec du run : ${err.message}`, {
+            runId: tracer.trace.id,
+            threadId,
+          }),
+        );
+      }
+      // Run coupé : on repart du dernier état sauvegardé
+      state = (
+        await this.graph.getState({ configurable: { thread_id: threadId } })
+      ).values as typeof state;
+    }
+    const pendingApproval = error
+      ? undefined
+      : await this.getPendingWebSearch(threadId);
+    await this.finishRun(
+      tracer,
+      error ? 'cut_off' : pendingApproval ? 'pending_approval' : 'completed',
+      error,
+    );
+    return Object.assign(state, {
+      runId: tracer.trace.id,
+      threadId,
+      pendingApproval,
+      answer: pendingApproval
+        ? undefined
+        : error
+          ? this.buildPartialAnswer(state.messages)
+          : buildCitedAnswer(state.messages),
+      missingBranches: this.findMissingBranches(state.messages),
+      error,
+    });
+  }
+
+  /**
+   * Crée la trace d'un run, avec sa question ou la décision du relecteur pour une reprise
+   */
+  private createTracer(
+    input: Record<string, unknown> | Command,
+    collection: string,
+    threadId: string,
+    apiKeyId: string | undefined,
+  ): RunTracer {
+    return new RunTracer({
+      id: randomUUID(),
+      threadId,
+      collection,
+      apiKeyId,
+      ...(input instanceof Command
+        ? { resume: input.resume as ApprovalDecision }
+        : {
+            question: String(
+              (input.messages as BaseMessage[])[0]?.content ?? '',
+            ),
+          }),
+    });
+  }
+
+  /**
+   * Clôt et sauvegarde la trace d'un run, et décompte ses tokens du quota de sa clé d'API
+   * quelle que soit son issue : un run en échec ou coupé a aussi consommé des tokens
+   */
+  private async finishRun(
+    tracer: RunTracer,
+    status: RunStatus,
+    error?: RunTrace['error'],
+  ) {
+    const trace = tracer.finish(status, error);
+    this.apiKeysService.recordTokenUsage(
+      trace.apiKeyId,
+      trace.tokenUsage.total,
+    );
+    await this.traceStore.save(trace);
+  }
+
+  /**
+   * Config d'un run : limite d'étapes, trace, et collection, budget et compteurs d'appels
+   * de tools et de tokens transmis jusqu'aux nodes et aux tools
+   * Les tokens sont plafonnés par le reste du quota du jour de la clé d'API
+   * À la reprise d'un run en pause, les appels déjà faits pour la question sont décomptés
+   */
+  private async runConfig(
+    input: Record<string, unknown> | Command,
+    collection: string,
+    threadId: string,
+    budget: Required<RunBudget>,
+    tracer: RunTracer,
+  ): Promise<RunnableConfig> {
+    let used = 0;
+    if (input instanceof Command) {
+      const snapshot = await this.graph.getState({
+        configurable: { thread_id: threadId },
+      });
+      const messages: BaseMessage[] = snapshot.values.messages ?? [];
+      used = messages
+        .slice(findQuestionIndex(messages) + 1)
+        .filter((message) => message.getType() === 'tool').length;
+    }
+    const remainingTokens = this.apiKeysService.remainingTokens(
+      tracer.trace.apiKeyId,
+    );
+    return {
+      recursionLimit: budget.maxSteps,
+      callbacks: [tracer],
+      configurable: {
+        collection,
+        thread_id: threadId,
+        budget,
+        toolCalls: new ToolCallBudget(budget.maxToolCalls, used),
+        tokens:
+          remainingTokens === undefined
+            ? undefined
+            : new TokenBudget(remainingTokens, tracer.trace.tokenUsage),
+      },
+    };
+  }
+
+  /**
+   * Code et message d'un run coupé par son budget, undefined pour toute autre erreur
+   */
+  private toRunError(
+    error: Error,
+    budget: Required<RunBudget>,
+  ): RunError | undefined {
+    // Branches parallèles coupées ensemble : une erreur par branche
+    if (error instanceof AggregateError) {
+      return error.errors
+        .map((branchError) => this.toRunError(branchError, budget))
+        .find(Boolean);
+    }
+    if (error instanceof RunCutOffError) {
+      return { code: error.code, message: error.message };
+    }
+    if (error instanceof GraphRecursionError) {
+      return {
+        code: 'STEP_BUDGET_EXCEEDED',
+        message: `Budget d'étapes dépassé (${budget.maxSteps} maximum par run)`,
+      };
+    }
+    return undefined;
+  }
+
+  /**
+   * Réponse partielle d'un run coupé : réponses des agents obtenues pour la dernière question
+   */
+  private buildPartialAnswer(messages: BaseMessage[]) {
+    const answers = messages
+      .slice(findQuestionIndex(messages) + 1)
+      .filter((message) => message.getType() === 'human' && message.name)
+      .map((message) => `${message.name}: ${message.content}`);
+    return buildCitedAnswer([
+      ...messages,
+      new HumanMessage(answers.join('\n\n')),
+    ]);
+  }
+
+  /**
+   * Branches parallèles restées sans réponse (erreur ou délai dépassé) pour la dernière question
+   */
+  private findMissingBranches(messages: BaseMessage[]): string[] {
+    return messages
+      .slice(findQuestionIndex(messages) + 1)
+      .filter((message) => message.additional_kwargs?.missing_branch)
+      .map((message) => message.name);
+  }
+
+  /**
+   * Retourne la recherche web en attente d'approbation d'un thread, sauvegardée par le checkpointer
+   */
+  private async getPendingWebSearch(
+    threadId: string,
+  ): Promise<PendingWebSearch | undefined> {
+    const snapshot = await this.graph.getState({
+      configurable: { thread_id: threadId },
+    });
+    return snapshot.tasks
+      .flatMap((task) => task.interrupts)
+      .map((pending) => pending.value as PendingWebSearch)[0];
+  }
+
+  /**
+   * Variante de run() qui émet les étapes du workflow au fil de l'exécution
+   * @param input Question ou requête de l'utilisateur
+   * @param collection Collection de documents dans laquelle l'agent RAG recherche
+   * @param threadId Conversation à poursuivre ; une nouvelle est créée si absent
+   * @param signal Permet d'interrompre le run (ex : client déconnecté)
+   * @param budget Limites d'étapes et d'appels de tools du run
+   * @param apiKeyId Clé d'API appelante : propriétaire du thread, seule à pouvoir le poursuivre
+   * @returns Événements du run, terminés par un événement final ou error
+   */
+  async *stream(
+    input: string,
+    collection: string = DEFAULT_COLLECTION,
+    threadId: string = randomUUID(),
+    signal?: AbortSignal,
+    budget: RunBudget = {},
+    apiKeyId?: string,
+  ): AsyncGenerator<StateGraphEvent> {
+    const resolved = this.resolveBudget(budget);
+    await this.checkThreadAccess(threadId, apiKeyId);
+    const runInput = {
+      messages: [new HumanMessage(input)],
+      finished: false,
+      apiKeyId,
+    };
+    const tracer = this.createTracer(runInput, collection, threadId, apiKeyId);
+    const runId = tracer.trace.id;
+    const events = this.graph.streamEvents(runInput, {
+      ...(await this.runConfig(
+        runInput,
+        collection,
+        threadId,
+        resolved,
+        tracer,
+      )),
+      version: 'v2',
+      signal,
+    });
+
+    let rootRunId: string;
+    let output: { messages: BaseMessage[] };
+    const finalAnswer = new FinalAnswerStream();
+    try {
+      for await (const event of events) {
+        // Le premier événement est celui du graphe lui-même
+        rootRunId ??= event.run_id;
+        const node: string = event.metadata?.langgraph_node;
+
+        switch (event.event) {
+          case 'on_chain_start':
+            // Seuls les nodes du graphe nous intéressent, pas leurs runnables internes,
+            // leurs tasks ni les pseudo-nodes d'entrée et de sortie
+            if (isNodeEvent(event)) yield { type: 'node_start', node };
+            break;
+          case 'on_chain_end':
+            if (event.run_id === rootRunId) {
+              output = event.data.output;
+            } else if (isNodeEvent(event)) {
+              yield { type: 'node_end', node };
+            }
+            break;
+          case 'on_tool_start':
+            yield {
+              type: 'tool_call',
+              node,
+              tool: event.name,
+              input: parseToolInput(event.data.input),
+            };
+            break;
+          case 'on_tool_end':
+            yield {
+              type: 'tool_result',
+              node,
+              tool: event.name,
+              output: event.data.output?.content ?? event.data.output,
+            };
+            break;
+          case 'on_chat_model_stream': {
+            // Tokens de la réponse finale uniquement (ex : Coordinator)
+            if (!this.answeringAgents.has(node)) break;
+            const chunk: AIMessageChunk = event.data.chunk;
+            if (chunk?.content) {
+              yield { type: 'token', node, content: chunk.content as string };
+            }
+            // Réponse donnée en argument de final_answer, envoyée au fil de sa génération
+            const answer = finalAnswer.push(
+              event.run_id,
+              chunk?.tool_call_chunks,
+            );
+            if (answer) yield { type: 'token', node, content: answer };
+            break;
+          }
+        }
+      }
+
+      // Fin du flux : run terminé, ou en pause sur une recherche web à approuver
+      const pending = await this.getPendingWebSearch(threadId);
+      await this.finishRun(tracer, pending ? 'pending_approval' : 'completed');
+      if (pending) {
+        yield { type: 'approval_required', runId, threadId, ...pending };
+      } else if (output) {
+        yield {
+          type: 'final',
+          runId,
+          threadId,
+          ...buildCitedAnswer(output.messages),
+          missingBranches: this.findMissingBranches(output.messages),
+        };
+      }
+    } catch (error) {
+      const runError = this.toRunError(error, resolved);
+      if (!runError) {
+        await this.finishRun(tracer, 'failed', { message: error.message });
+        yield {
+          type: 'error',
+          code: 'GRAPH_EXECUTION_FAILED',
+          runId,
+          threadId,
+          message: `Échec du run : ${error.message}`,
+        };
+        return;
+      }
+      await this.finishRun(tracer, 'cut_off', runError);
+      // Run coupé par son budget : réponse partielle avec le code d'erreur
+      const snapshot = await this.graph.getState({
+        configurable: { thread_id: threadId },
+      });
+      const messages: BaseMessage[] = snapshot.values.messages ?? [];
+      yield {
+        type: 'error',
+        ...runError,
+        runId,
+        threadId,
+        partial: this.buildPartialAnswer(messages),
+      };
+    }
+  }
+
+  /**
+   * Liste les runs tracés de la clé d'API, du plus récent au plus ancien
    */
-  async run(input: string) {
-    return this.graph.invoke({
-      messages: [{ role: 'user', content: input }],
-      config: { recursionLimit: 25 },
+  listRuns(apiKeyId?: string) {
+    return this.traceStore
+      .list()
+      .filter((trace) => apiKeyId === undefined || trace.apiKeyId === apiKeyId)
+      .map((trace) => ({
+        id: trace.id,
+        threadId: trace.threadId,
+        collection: trace.collection,
+        question: trace.question,
+        resume: trace.resume,
+        status: trace.status,
+        startedAt: trace.startedAt,
+        durationMs: trace.durationMs,
+        // Chemin suivi dans le graphe
+        nodes: trace.nodes.map((visit) => visit.node),
+        toolCalls: trace.toolCalls.length,
+        tokenUsage: trace.tokenUsage,
+      }));
+  }
+
+  /**
+   * Retourne la trace complète d'un run
+   * Le run d'une autre clé d'API est introuvable, comme un run inconnu
+   */
+  getRun(runId: string, apiKeyId?: string): RunTrace {
+    const trace = this.traceStore.get(runId);
+    if (!trace || (apiKeyId !== undefined && trace.apiKeyId !== apiKeyId)) {
+      throw new NotFoundException(
+        errorBody('RUN_NOT_FOUND', `Run introuvable : ${runId}`),
+      );
+    }
+    return trace;
+  }
+
+  /**
+   * Diagramme du graphe compilé, avec le chemin d'un run mis en évidence
+   * @param options format (source Mermaid par défaut, ou image png/svg) et run à mettre en évidence
+   * @param apiKeyId Clé d'API appelante, qui doit avoir lancé le run
+   * @returns diagramme et son type de contenu
+   */
+  async getDiagram(
+    { format = 'mermaid', runId }: DiagramOptions = {},
+    apiKeyId?: string,
+  ): Promise<Diagram> {
+    if (!DIAGRAM_FORMATS.includes(format)) {
+      throw invalidField(
+        'format',
+        `Format de diagramme inconnu : ${format} (attendu : ${DIAGRAM_FORMATS.join(', ')})`,
+      );
+    }
+    let source = (await this.graph.getGraphAsync()).drawMermaid();
+    if (runId) {
+      const trace = this.getRun(runId, apiKeyId);
+      // Nodes regroupés par étape du graphe (branches parallèles dans la même étape)
+      const steps = new Map<number | string, string[]>();
+      trace.nodes.forEach((visit, index) => {
+        const step = visit.step ?? `visit-${index}`;
+        steps.set(step, [...(steps.get(step) ?? []), visit.node]);
+      });
+      source = highlightPath(source, [
+        // Un run repris après approbation ne part pas de l'entrée du graphe
+        ...(trace.resume ? [] : [[START]]),
+        ...steps.values(),
+        ...(trace.status === 'completed' ? [[END]] : []),
+      ]);
+    }
+    if (format === 'mermaid') {
+      return { contentType: 'text/plain; charset=utf-8', body: source };
+    }
+
+    // Rendu par un service en ligne, seulement à la demande
+    try {
+      return {
+        contentType: format === 'png' ? 'image/png' : 'image/svg+xml',
+        body: await renderMermaid(
+          source,
+          format,
+          this.configService.get<string>(
+            'MERMAID_RENDER_URL',
+            'https://mermaid.ink',
+          ),
+        ),
+      };
+    } catch (error) {
+      throw new BadGatewayException(
+        errorBody(
+          'DIAGRAM_RENDER_FAILED',
+          `Rendu du diagramme impossible : ${error.message}`,
+        ),
+      );
+    }
+  }
+
+  /**
+   * Liste les threads de conversation sauvegardés de la clé d'API
+   */
+  async listThreads(apiKeyId?: string) {
+    const threadIds = await this.listVisibleThreadIds(apiKeyId);
+    return Promise.all(
+      threadIds.map(async (threadId) => {
+        const snapshot = await this.graph.getState({
+          configurable: { thread_id: threadId },
+        });
+        const messages: BaseMessage[] = snapshot.values.messages ?? [];
+        return {
+          threadId,
+          // La première question sert de titre à la conversation
+          title: messages[0]?.content,
+          messages: messages.length,
+          updatedAt: snapshot.createdAt,
+        };
+      }),
+    );
+  }
+
+  /**
+   * Retourne l'historique des messages d'un thread
+   */
+  async getThread(threadId: string, apiKeyId?: string) {
+    if (!(await this.isThreadVisible(threadId, apiKeyId))) {
+      throw this.threadNotFound(threadId);
+    }
+
+    const snapshot = await this.graph.getState({
+      configurable: { thread_id: threadId },
     });
+    const messages: BaseMessage[] = snapshot.values.messages ?? [];
+    return {
+      threadId,
+      updatedAt: snapshot.createdAt,
+      messages: messages.map((message) => ({
+        type: message.getType(),
+        name: message.name,
+        content: message.content,
+        tool_calls: (message as AIMessage).tool_calls,
+      })),
+    };
+  }
+
+  async deleteThread(threadId: string, apiKeyId?: string) {
+    if (
+      !(await this.isThreadVisible(threadId, apiKeyId)) ||
+      !(await this.checkpointer.deleteThread(threadId))
+    ) {
+      throw this.threadNotFound(threadId);
+    }
+    return { message: 'Thread supprimé avec succès', threadId };
+  }
+
+  /**
+   * Indique si un thread sauvegardé est visible par une clé d'API : celle qui l'a créé
+   * Sans authentification (apiKeyId absent), tous les threads sont visibles
+   */
+  private async isThreadVisible(
+    threadId: string,
+    apiKeyId?: string,
+  ): Promise<boolean> {
+    if (!this.checkpointer.listThreadIds().includes(threadId)) return false;
+    if (apiKeyId === undefined) return true;
+    const snapshot = await this.graph.getState({
+      configurable: { thread_id: threadId },
+    });
+    return snapshot.values.apiKeyId === apiKeyId;
+  }
+
+  private async listVisibleThreadIds(apiKeyId?: string): Promise<string[]> {
+    const threadIds = this.checkpointer.listThreadIds();
+    const visible = await Promise.all(
+      threadIds.map((threadId) => this.isThreadVisible(threadId, apiKeyId)),
+    );
+    return threadIds.filter((_, index) => visible[index]);
+  }
+
+  /**
+   * Refuse de poursuivre le thread d'une autre clé d'API, introuvable comme un thread inconnu
+   */
+  private async checkThreadAccess(threadId: string, apiKeyId?: string) {
+    if (
+      this.checkpointer.listThreadIds().includes(threadId) &&
+      !(await this.isThreadVisible(threadId, apiKeyId))
+    ) {
+      throw this.threadNotFound(threadId);
+    }
+  }
+
+  private threadNotFound(threadId: string) {
+    return new NotFoundException(
+      errorBody('THREAD_NOT_FOUND', `Thread introuvable : ${threadId}`),
+    );
   }
 
   /**
    * Initialise tous les composants du service :
-   * - Crée les tools (RAG, Tavily)
-   * - Configure les agents spécialisés
+   * - Crée les tools utilisés par les agents (RAG, recherche web, tools intégrés du registre)
+   * - Configure les agents décrits dans la configuration du graphe (AGENT_GRAPH_CONFIG)
    * - Construit le graphe d'état
    */
   // Création de l'outil RAG pour la recherche dans la base de connaissances
   async init(): Promise<void> {
     this.knowledgeTool = tool(
-      async (input: string): Promise<string> => {
-        const result = await this.knowledgeService.search(input);
-        return typeof result === 'string' ? result : JSON.stringify(result);
+      async (
+        {
+          query,
+          mode,
+          k,
+          filter,
+        }: {
+          query: string;
+          mode?: SearchMode;
+          k?: number;
+          filter?: MetadataFilter;
+        },
+        config?: RunnableConfig,
+      ): Promise<string> => {
+        const result = await this.knowledgeService.search(
+          config?.configurable?.collection ?? DEFAULT_COLLECTION,
+          query,
+          { mode, k, filter },
+        );
+        // Message explicite : l'agent ne doit pas répondre à partir de chunks hors sujet
+        if (result.results.length === 0) {
+          return JSON.stringify({
+            found: false,
+            message:
+              'No relevant information was found in the knowledge base for this query.' +
+              ' Say so explicitly instead of answering from the knowledge base.',
+          });
+        }
+        // Marqueur à reprendre tel quel par les agents pour citer le chunk
+        const results = result.results.map((r) => ({
+          ...r,
+          citation: documentMarker(r.chunkId),
+        }));
+        return JSON.stringify({ ...result, results });
       },
       {
         name: 'rag_search',
         description: 'Search in the knowledge base to answer to the question.',
+        schema: z.object({
+          query: z.string().describe('Search query'),
+          mode: z
+            .enum(SEARCH_MODES)
+            .optional()
+            .describe(
+              'vector: semantic similarity, keyword: exact terms (codes, acronyms, part numbers), hybrid (default): both',
+            ),
+          k: z
+            .number()
+            .int()
+            .min(1)
+            .max(20)
+            .optional()
+            .describe('Number of results, 3 by default'),
+          filter: z
+            .record(
+              z.union([
+                z.string(),
+                z.number(),
+                z.boolean(),
+                z
+                  .object({
+                    eq: z.union([z.string(), z.number(), z.boolean()]),
+                    in: z.array(z.union([z.string(), z.number()])),
+                    gt: z.union([z.string(), z.number()]),
+                    gte: z.union([z.string(), z.number()]),
+                    lt: z.union([z.string(), z.number()]),
+                    lte: z.union([z.string(), z.number()]),
+                    prefix: z.string(),
+                  })
+                  .partial(),
+              ]),
+            )
+            .optional()
+            .describe(
+              'Conditions on chunk metadata (source, loc.pageNumber, ingestedAt, upload tags such as team or version).' +
+                ' A plain value means equality, otherwise use operators, e.g. {"version": {"in": ["2.3"]}, "source": {"prefix": "https://docs."}}',
+            ),
+        }),
       },
     );
 
-    this.tavilyTool = new TavilySearch();
-
-    this.coordinatorAgent = await this.createAgent({
-      llm: new ChatOpenAI({ model: 'gpt-4o-mini' }),
-      tools: [],
-      systemMessage: `Your role is to coordinate the flow between the user and the specialized agents.
-First, take the user's question and forward it as-is to the research agents.
-Then, wait for both responses.
-Once you have both, merge the information in a clear and structured way:
-- first section should be "Documents" present the answer from the RAG agent,
-- then should be a section "Web" the one from the Tavily agent,
-- and finally provide a short summary or conclusion synthesizing both sources.
-
-add FINAL ANSWER to the answer
-Do not try to answer the question yourself before querying the agents.`,
-    });
-
-    this.knowledgeAgent = await this.createAgent({
-      llm: new ChatOpenAI({ model: 'gpt-4o-mini' }),
-      tools: [this.knowledgeTool],
-      systemMessage:
-        'Your role is to search in the knowledge base to answer to the question.',
-    });
+    // Tools utilisables dans la configuration, créés seulement si un agent les utilise
+    const registry = createToolRegistry(this.configService)
+      .register(this.knowledgeTool.name, () => this.knowledgeTool)
+      .register(WEB_SEARCH_TOOL, () =>
+        this.providersService.createWebSearchTool(),
+      );
+    const graphConfig = await loadAgentGraphConfig(
+      this.configService.get<string>(
+        'AGENT_GRAPH_CONFIG',
+        './config/agent-graph.yaml',
+      ),
+      registry.names,
+    );
+    const tools = new Map(
+      [...new Set(graphConfig.agents.flatMap((agent) => agent.tools))].map(
+        (name) => [name, registry.get(name)],
+      ),
+    );
 
-    this.tavilyAgent = await this.createAgent({
-      llm: new ChatOpenAI({ model: 'gpt-4o-mini' }),
-      tools: [this.tavilyTool],
-      systemMessage:
-        'Your role is to search online. You are given a question and you need to search the web for the answer.',
-    });
+    const finalAnswerTool = createFinalAnswerTool();
+    for (const agent of graphConfig.agents) {
+      this.agents.set(
+        agent.name,
+        await this.createAgent({
+          llm: this.providersService.createChatModel(agent.name, agent.model),
+          tools: [
+            ...agent.tools.map((name) => tools.get(name)),
+            // Les agents qui peuvent terminer le run le font avec final_answer
+            ...(agent.finish ? [finalAnswerTool] : []),
+          ],
+          systemMessage: agent.systemPrompt,
+        }),
+      );
+    }
+    this.answeringAgents = new Set(
+      graphConfig.agents
+        .filter((agent) => agent.finish)
+        .map((agent) => agent.name),
+    );
 
     const agentState = Annotation.Root({
       // Concatène les messages
@@ -129,16 +984,138 @@ Do not try to answer the question yourself before querying the agents.`,
         reducer: (x: string, y: string) => y ?? x ?? 'user',
         default: () => 'user',
       }),
+      // Réponse finale donnée (tool final_answer) : le run se termine
+      finished: Annotation<boolean>({
+        reducer: (x: boolean, y: boolean) => y ?? x,
+        default: () => false,
+      }),
+      // Clé d'API qui a créé le thread, seule à pouvoir le consulter et le poursuivre
+      apiKeyId: Annotation<string>({
+        reducer: (x: string, y: string) => y ?? x,
+        default: () => undefined,
+      }),
     });
 
-    const toolNode = new ToolNode<typeof agentState.State>([
-      this.knowledgeTool,
-      this.tavilyTool,
-    ]);
+    const toolNode = new ToolNode<typeof agentState.State>([...tools.values()]);
+
+    /**
+     * Exécute une étape d'un node dans une task LangGraph : son résultat est sauvegardé avec
+     * le checkpoint, et rejoué sans nouvel appel quand le node reprend après une pause
+     * L'erreur d'une task ferait échouer tout le run : elle est relancée dans le node,
+     * qui garde la main sur son traitement (ex : repli d'une branche)
+     */
+    const checkpointed = async <T>(
+      name: string,
+      step: () => Promise<T>,
+    ): Promise<T> => {
+      const outcome = await task(name, async () => {
+        try {
+          return { value: await step() };
+        } catch (error) {
+          return { error };
+        }
+      })();
+      if ('error' in outcome) throw outcome.error;
+      return outcome.value;
+    };
+
+    const executeTools = (
+      state: typeof agentState.State,
+      config?: RunnableConfig,
+    ) => checkpointed('tools', () => toolNode.invoke(state, config));
+
+    /**
+     * Exécute les tools demandés par le dernier message
+     * En mode approbation, une recherche web met le run en pause (interrupt) jusqu'à
+     * la décision du relecteur ; à la reprise, le node est rejoué avec cette décision
+     * (dans une branche, ses appels de modèle et de tools déjà faits sont relus du checkpoint)
+     */
+    const callTools = async (
+      state: typeof agentState.State,
+      config?: RunnableConfig,
+    ) => {
+      const lastMessage = state.messages[
+        state.messages.length - 1
+      ] as AIMessage;
+      const webSearch = lastMessage.tool_calls?.find(
+        (toolCall) => toolCall.name === WEB_SEARCH_TOOL,
+      );
+      const toolCalls: ToolCallBudget = config?.configurable?.toolCalls;
+      if (!this.webSearchApproval || !webSearch) {
+        toolCalls?.consume(lastMessage.tool_calls.length);
+        return executeTools(state, config);
+      }
+
+      const decision = interrupt<PendingWebSearch, ApprovalDecision>({
+        toolCallId: webSearch.id,
+        query: webSearch.args.query,
+        collection: config?.configurable?.collection ?? DEFAULT_COLLECTION,
+        budget: config?.configurable?.budget,
+        requestedAt: new Date().toISOString(),
+      });
+
+      // Le message d'origine reste dans l'historique ; les tools sont exécutés
+      // sur une copie dont les appels tiennent compte de la décision
+      const invokeWith = (calls: ToolCall[]) =>
+        executeTools(
+          {
+            ...state,
+            messages: [
+              ...state.messages.slice(0, -1),
+              new AIMessage({
+                content: lastMessage.content,
+                name: lastMessage.name,
+                tool_calls: calls,
+              }),
+            ],
+          },
+          config,
+        );
+
+      switch (decision.action) {
+        case 'reject': {
+          // Les autres tools demandés dans le même message sont exécutés :
+          // chaque appel de tool doit recevoir sa réponse
+          const others = lastMessage.tool_calls.filter(
+            (toolCall) => toolCall.id !== webSearch.id,
+          );
+          toolCalls?.consume(others.length);
+          const results: BaseMessage[] = others.length
+            ? (await invokeWith(others)).messages
+            : [];
+          return {
+            messages: [
+              new ToolMessage({
+                tool_call_id: webSearch.id,
+                name: webSearch.name,
+                content:
+                  'The web search was rejected by a reviewer: no web results are available.' +
+                  ' Do not search the web again; the answer must rely on the knowledge base only.',
+              }),
+              ...results,
+            ],
+          };
+        }
+        default:
+          toolCalls?.consume(lastMessage.tool_calls.length);
+          // Requête approuvée ou corrigée par le relecteur
+          return invokeWith(
+            lastMessage.tool_calls.map((toolCall) =>
+              toolCall.id === webSearch.id
+                ? {
+                    ...toolCall,
+                    args: { ...toolCall.args, query: decision.query },
+                  }
+                : toolCall,
+            ),
+          );
+      }
+    };
 
     /**
      * Fonction helper pour exécuter un node d'agent
      * Gère la conversion des résultats en format compatible avec StateGraph
+     * Un appel de final_answer devient la réponse de l'agent et termine le run
      */
     async function runAgentNode(props: {
       state: typeof agentState.State;
@@ -148,9 +1125,24 @@ Do not try to answer the question yourself before querying the agents.`,
     }): Promise<{
       messages: BaseMessage[];
       sender: string;
+      finished?: boolean;
     }> {
       const { state, agent, name, config } = props;
+      // Quota de tokens de la clé d'API vérifié avant chaque appel de modèle
+      (config?.configurable?.tokens as TokenBudget)?.check();
       let result = await agent.invoke(state, config);
+      const finalAnswer = (result as AIMessage)?.tool_calls?.find(
+        (toolCall) => toolCall.name === FINAL_ANSWER_TOOL,
+      );
+      if (finalAnswer) {
+        return {
+          messages: [
+            new HumanMessage({ content: finalAnswer.args.answer, name }),
+          ],
+          sender: name,
+          finished: true,
+        };
+      }
       // Si l'agent n'appelle pas d'outil, on convertit le résultat en message humain
       if (!result?.tool_calls || result.tool_calls.length === 0) {
         result = new HumanMessage({ ...result, name: name });
@@ -162,118 +1154,184 @@ Do not try to answer the question yourself before querying the agents.`,
       };
     }
 
-    // Ajout des nodes au graph
-    this.workflow = new StateGraph(agentState)
-      .addNode(
-        'Coordinator',
-        (state: typeof agentState.State, config?: RunnableConfig) =>
-          runAgentNode({
-            state,
-            agent: this.coordinatorAgent,
-            name: 'Coordinator',
-            config,
-          }),
-      )
-      .addNode(
-        'Rag',
-        (state: typeof agentState.State, config?: RunnableConfig) =>
-          runAgentNode({
-            state,
-            agent: this.knowledgeAgent,
-            name: 'Rag',
-            config,
-          }),
-      )
-      .addNode(
-        'Tavily',
-        (state: typeof agentState.State, config?: RunnableConfig) => {
-          // filtrer les messages de recherche RAG pour empêcher Tavily d'utiliser ces données au lieu de chercher sur le web
-          const messages = state.messages.filter((e) => {
-            if (
-              'tool_calls' in e &&
-              Array.isArray(e.tool_calls) &&
-              e.tool_calls.length > 0
-            )
-              return (
-                e.tool_calls.findIndex(
-                  (toolCall: ToolCall) => toolCall.name === 'rag_search',
-                ) === -1
-              );
-            else return !['Rag', 'rag_search'].includes(e.name);
-          });
+    const branches = findBranches(graphConfig);
 
-          return runAgentNode({
-            state: {
-              ...state,
-              messages,
-            },
-            agent: this.tavilyAgent,
-            name: 'Tavily',
-            config,
-          });
-        },
-      )
-      .addNode('call_tool', toolNode);
+    /**
+     * Masque à un agent les messages des agents listés dans son hideMessagesFrom
+     * et, pour une branche parallèle, ceux des autres branches,
+     * ainsi que leurs appels de tools et les résultats de ces tools
+     */
+    const visibleMessages = (messages: BaseMessage[], agent: AgentConfig) => {
+      const hiddenAgents = [
+        ...agent.hideMessagesFrom,
+        ...(branches.get(agent.name) ?? []),
+      ];
+      if (hiddenAgents.length === 0) return messages;
+
+      const hidden = new Set(
+        graphConfig.agents
+          .filter((other) => hiddenAgents.includes(other.name))
+          .flatMap((other) => [
+            other.name,
+            ...other.tools.filter((tool) => !agent.tools.includes(tool)),
+          ]),
+      );
+      return messages.filter((message) => {
+        const toolCalls = (message as AIMessage).tool_calls;
+        if (Array.isArray(toolCalls) && toolCalls.length > 0) {
+          return !toolCalls.some((toolCall: ToolCall) =>
+            hidden.has(toolCall.name),
+          );
+        }
+        return !hidden.has(message.name);
+      });
+    };
 
     /**
-     * Routeur qui détermine le prochain node à exécuter
-     * Basée sur le contenu et le type du dernier message
+     * Exécute une branche parallèle en un seul node : l'agent et ses appels de tools,
+     * dans sa propre portée de messages, jusqu'à sa réponse
+     * Chaque appel du modèle est une task LangGraph, comme les tools : à la reprise après
+     * une approbation, le node rejoue ces résultats sauvegardés au lieu de rappeler le modèle
+     * En cas d'erreur ou de dépassement de son délai, la branche rend un message de repli
+     * pour que le run continue avec les autres branches
      */
-    function router(state: typeof agentState.State): string {
-      const messages = state.messages;
-      const lastMessage = messages[messages.length - 1] as AIMessage;
-      if (lastMessage?.tool_calls && lastMessage.tool_calls.length > 0) {
-        // l'agent précédent appelle un tool
-        return 'call_tool';
-      }
-      // Si le message contient "FINAL ANSWER", terminer l'exécution
-      if (
-        typeof lastMessage.content === 'string' &&
-        lastMessage.content.includes('FINAL ANSWER')
-      ) {
-        return 'end';
+    const runBranch = async (
+      agent: AgentConfig,
+      state: typeof agentState.State,
+      config?: RunnableConfig,
+    ) => {
+      const scope = visibleMessages(state.messages, agent);
+      const produced: BaseMessage[] = [];
+      const timeoutMs =
+        agent.timeoutMs ??
+        Number(this.configService.get<string>('BRANCH_TIMEOUT_MS', '60000'));
+      const signal = AbortSignal.any(
+        [config?.signal, AbortSignal.timeout(timeoutMs)].filter(Boolean),
+      );
+
+      try {
+        for (;;) {
+          const { messages } = await checkpointed(agent.name, () =>
+            runAgentNode({
+              state: { ...state, messages: [...scope, ...produced] },
+              agent: this.agents.get(agent.name),
+              name: agent.name,
+              config: { ...config, signal },
+            }),
+          );
+          produced.push(...messages);
+          if (!(messages[0] as AIMessage).tool_calls?.length) break;
+
+          const results = await callTools(
+            { ...state, messages: [...scope, ...produced] },
+            { ...config, signal },
+          );
+          produced.push(...results.messages);
+        }
+      } catch (error) {
+        // Pause pour approbation, budget du run dépassé, ou run interrompu par l'appelant : pas de repli
+        if (
+          isGraphInterrupt(error) ||
+          error instanceof RunCutOffError ||
+          config?.signal?.aborted
+        ) {
+          throw error;
+        }
+
+        const reason = signal.aborted
+          ? `no answer within ${timeoutMs} ms`
+          : error.message;
+        this.logger.warn(`Branche ${agent.name} indisponible : ${reason}`);
+        return {
+          // Réponse partielle écartée : un appel de tool sans résultat serait refusé par le modèle
+          messages: [
+            new HumanMessage({
+              name: agent.name,
+              content:
+                agent.fallback ??
+                `The ${agent.name} branch is missing (${reason}): answer without it and say so.`,
+              additional_kwargs: { missing_branch: true },
+            }),
+          ],
+          sender: agent.name,
+        };
       }
-      return 'continue';
+      return { messages: produced, sender: agent.name };
+    };
+
+    // Ajout des nodes au graph
+    this.workflow = new StateGraph(agentState);
+    for (const agent of graphConfig.agents) {
+      this.workflow.addNode(
+        agent.name,
+        (state: typeof agentState.State, config?: RunnableConfig) =>
+          branches.has(agent.name)
+            ? runBranch(agent, state, config)
+            : runAgentNode({
+                state: {
+                  ...state,
+                  messages: visibleMessages(state.messages, agent),
+                },
+                agent: this.agents.get(agent.name),
+                name: agent.name,
+                config,
+              }),
+      );
     }
+    // Les branches exécutent leurs tools elles-mêmes
+    const toolAgents = graphConfig.agents.filter(
+      (agent) => agent.tools.length > 0 && !branches.has(agent.name),
+    );
+    if (toolAgents.length > 0) this.workflow.addNode(TOOL_NODE, callTools);
+
+    /**
+     * Routeur d'un agent, généré depuis sa configuration
+     * - appel de tool : call_tool
+     * - réponse finale (final_answer) d'un agent qui peut terminer le run, ou aucun agent suivant : fin
+     * - sinon : agent(s) suivant(s) (next), en parallèle s'il y en a plusieurs
+     */
+    const routerFor =
+      (agent: AgentConfig) =>
+      (state: typeof agentState.State): string | string[] => {
+        const messages = state.messages;
+        const lastMessage = messages[messages.length - 1] as AIMessage;
+        if (lastMessage?.tool_calls && lastMessage.tool_calls.length > 0) {
+          // l'agent précédent appelle un tool
+          return 'call_tool';
+        }
+        if (agent.next === undefined || (agent.finish && state.finished)) {
+          return 'end';
+        }
+        return nextAgents(agent);
+      };
 
     // Configuration des edges conditionnelles du graph
-    this.workflow
-      // Point de départ vers le coordinateur
-      .addEdge(START, 'Coordinator')
-      .addConditionalEdges('Coordinator', router, {
-        // Si continue, aller au node RAG
-        continue: 'Rag',
-        // Si fin, terminer
-        end: END,
-      })
-      .addConditionalEdges('Rag', router, {
-        continue: 'Tavily',
-        call_tool: 'call_tool',
-      })
-      .addConditionalEdges('Tavily', router, {
-        continue: 'Coordinator',
-        call_tool: 'call_tool',
-      })
-      .addConditionalEdges(
-        'call_tool',
+    this.workflow.addEdge(START, graphConfig.entry);
+    for (const agent of graphConfig.agents) {
+      if (branches.has(agent.name)) continue;
+      this.workflow.addConditionalEdges(agent.name, routerFor(agent), {
+        ...(agent.tools.length > 0 && { call_tool: TOOL_NODE }),
+        ...Object.fromEntries(nextAgents(agent).map((name) => [name, name])),
+        ...(agent.finish && { end: END }),
+      });
+      // Jointure : l'agent suivant attend la fin de toutes les branches
+      if (Array.isArray(agent.next)) {
+        const join = graphConfig.agents.find(
+          (other) => other.name === agent.next[0],
+        ).next as string;
+        this.workflow.addEdge(agent.next, join);
+      }
+    }
+    if (toolAgents.length > 0) {
+      this.workflow.addConditionalEdges(
+        TOOL_NODE,
         // Après l'exécution d'un outil, retourner à l'agent qui l'a appelé
         (state: typeof agentState.State): string => state.sender,
-        {
-          Tavily: 'Tavily',
-          Rag: 'Rag',
-        },
+        Object.fromEntries(toolAgents.map((agent) => [agent.name, agent.name])),
       );
+    }
 
-    this.graph = this.workflow.compile();
-
-    // Génération d'une image du StateGraph
-    const graphStateImage = await (
-      await this.graph.getGraphAsync()
-    ).drawMermaidPng();
-    const graphStateArrayBuffer = await graphStateImage.arrayBuffer();
-
-    const filePath = './graphState.png';
-    writeFileSync(filePath, new Uint8Array(graphStateArrayBuffer));
+    this.graph = this.workflow.compile({ checkpointer: this.checkpointer });
   }
 
   /**
@@ -288,7 +1346,7 @@ Do not try to answer the question yourself before querying the agents.`,
     tools,
     systemMessage,
   }: {
-    llm: ChatOpenAI;
+    llm: BaseChatModel;
     tools: StructuredTool[];
     systemMessage: string;
   }): Promise<Runnable> {
@@ -0,0 +1,41 @@
+import { createCalculatorTool, evaluateExpression } from './calculator.tool';
+
+describe('evaluateExpression', () => {
+  it('should follow operator precedence and associativity', () => {
+    expect(evaluateExpression('1 + 2 * 3')).toBe(7);
+    expect(evaluateExpression('-2^2')).toBe(-4);
+    expect(evaluateExpression('2 ** 3 ** 2')).toBe(512);
+    expect(evaluateExpression('(1250 * 0.2) + sqrt(16)')).toBe(254);
+  });
+
+  it('should support functions with several arguments and constants', () => {
+    expect(evaluateExpression('round(10 / 3, 2)')).toBe(3.33);
+    expect(evaluateExpression('max(1, 5, 3) % 4')).toBe(1);
+    expect(evaluateExpression('2 * pi')).toBeCloseTo(6.2832, 4);
+  });
+
+  it('should reject anything that is not arithmetic', () => {
+    expect(() => evaluateExpression('alert(1)')).toThrow('Unknown symbol');
+    expect(() => evaluateExpression('constructor(1)')).toThrow(
+      'Unknown symbol',
+    );
+    expect(() => evaluateExpression('process.exit(1)')).toThrow(
+      'Unexpected character: "."',
+    );
+    expect(() => evaluateExpression('2 +')).toThrow('Unexpected end');
+    expect(() => evaluateExpression('1 / 0')).toThrow('not a finite number');
+  });
+});
+
+describe('calculator tool', () => {
+  it('should return the error to the model instead of failing the run', async () => {
+    const calculator = createCalculatorTool();
+
+    expect(
+      JSON.parse(await calculator.invoke({ expression: '6 * 7' })),
+    ).toEqual({ expression: '6 * 7', result: 42 });
+    expect(
+      JSON.parse(await calculator.invoke({ expression: 'foo(1)' })).error,
+    ).toBe('Unknown symbol: "foo"');
+  });
+});
@@ -0,0 +1,166 @@
+import { tool } from '@langchain/core/tools';
+import { z } from 'zod';
+
+export const CALCULATOR_TOOL = 'calculator';
+
+// Longueur maximum d'une expression, pour borner le temps d'analyse
+const MAX_EXPRESSION_LENGTH = 500;
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+// Pas de lookup via "in" : "constructor" ou "toString" remonteraient au prototype
+const isOwnKey = (record: object, key: string) =>
+  Object.prototype.hasOwnProperty.call(record, key);
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  abs: Math.abs,
+  sqrt: Math.sqrt,
+  cbrt: Math.cbrt,
+  exp: Math.exp,
+  ln: Math.log,
+  log: Math.log10,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  round: (value, digits = 0) => Math.round(value * 10 ** digits) / 10 ** digits,
+  pow: Math.pow,
+  min: Math.min,
+  max: Math.max,
+};
+
+const TOKEN_PATTERN =
+  /\s*(\d+(?:\.\d+)?(?:e[+-]?\d+)?|\.\d+|\*\*|[a-z]+|[-+*/%^(),])/iy;
+
+/**
+ * Calcule une expression arithmétique, sans eval : analyse descendante récursive
+ * Opérateurs + - * / % ^ (ou **), parenthèses, constantes pi et e,
+ * fonctions abs, sqrt, cbrt, exp, ln, log, floor, ceil, round(x, décimales), pow, min, max
+ * @throws Error (en anglais, transmise au modèle) si l'expression est invalide
+ */
+export function evaluateExpression(expression: string): number {
+  if (expression.length > MAX_EXPRESSION_LENGTH) {
+    throw new Error(
+      `Expression too long (${MAX_EXPRESSION_LENGTH} characters maximum)`,
+    );
+  }
+  const tokens: string[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+  while (TOKEN_PATTERN.lastIndex < expression.trimEnd().length) {
+    const start = TOKEN_PATTERN.lastIndex;
+    const match = TOKEN_PATTERN.exec(expression);
+    if (!match) {
+      throw new Error(
+        `Unexpected character: "${expression.slice(start).trim()[0]}"`,
+      );
+    }
+    tokens.push(match[1] === '**' ? '^' : match[1].toLowerCase());
+  }
+
+  let position = 0;
+  const peek = () => tokens[position];
+  const expect = (token: string) => {
+    if (tokens[position] !== token) {
+      throw new Error(`Expected "${token}" but found "${peek() ?? 'end'}"`);
+    }
+    position++;
+  };
+
+  // expression := terme (("+" | "-") terme)*
+  const parseExpression = (): number => {
+    let value = parseTerm();
+    while (peek() === '+' || peek() === '-') {
+      value =
+        tokens[position++] === '+' ? value + parseTerm() : value - parseTerm();
+    }
+    return value;
+  };
+  // terme := unaire (("*" | "/" | "%") unaire)*
+  const parseTerm = (): number => {
+    let value = parseUnary();
+    while (['*', '/', '%'].includes(peek())) {
+      const operator = tokens[position++];
+      const right = parseUnary();
+      value =
+        operator === '*'
+          ? value * right
+          : operator === '/'
+            ? value / right
+            : value % right;
+    }
+    return value;
+  };
+  // unaire := ("-" | "+") unaire | puissance ; -2^2 vaut -4
+  const parseUnary = (): number => {
+    if (peek() === '-' || peek() === '+') {
+      return tokens[position++] === '-' ? -parseUnary() : parseUnary();
+    }
+    return parsePower();
+  };
+  // puissance := primaire ("^" unaire)?, associative à droite
+  const parsePower = (): number => {
+    const base = parsePrimary();
+    if (peek() !== '^') return base;
+    position++;
+    return base ** parseUnary();
+  };
+  // primaire := nombre | constante | fonction "(" arguments ")" | "(" expression ")"
+  const parsePrimary = (): number => {
+    const token = tokens[position++];
+    if (token === undefined) throw new Error('Unexpected end of expression');
+    if (token === '(') {
+      const value = parseExpression();
+      expect(')');
+      return value;
+    }
+    if (/^[\d.]/.test(token)) return Number(token);
+    if (isOwnKey(CONSTANTS, token)) return CONSTANTS[token];
+    if (isOwnKey(FUNCTIONS, token)) {
+      expect('(');
+      const args = [parseExpression()];
+      while (peek() === ',') {
+        position++;
+        args.push(parseExpression());
+      }
+      expect(')');
+      return FUNCTIONS[token](...args);
+    }
+    throw new Error(`Unknown symbol: "${token}"`);
+  };
+
+  const result = parseExpression();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected "${tokens[position]}"`);
+  }
+  if (!Number.isFinite(result)) {
+    throw new Error('The result is not a finite number (division by zero?)');
+  }
+  return result;
+}
+
+/**
+ * Tool de calcul : les modèles se trompent sur l'arithmétique, le tool non
+ */
+export function createCalculatorTool() {
+  return tool(
+    async ({ expression }: { expression: string }) => {
+      try {
+        return JSON.stringify({
+          expression,
+          result: evaluateExpression(expression),
+        });
+      } catch (error) {
+        return JSON.stringify({ expression, error: error.message });
+      }
+    },
+    {
+      name: CALCULATOR_TOOL,
+      description:
+        'Evaluate an arithmetic expression exactly. Use it for any computation instead of doing it yourself.' +
+        ' Supports + - * / % ^, parentheses, pi, e and abs, sqrt, cbrt, exp, ln, log, floor, ceil, round(x, digits), pow, min, max.',
+      schema: z.object({
+        expression: z
+          .string()
+          .describe('Expression to evaluate, e.g. "(1250 * 0.2) + sqrt(16)"'),
+      }),
+    },
+  );
+}
@@ -0,0 +1,57 @@
+import { addToDate, createDateTimeTool, diffDates } from './date-time.tool';
+
+describe('date math', () => {
+  it('should clamp the day when adding months', () => {
+    expect(
+      addToDate(new Date('2024-01-31T10:00:00Z'), 1, 'months').toISOString(),
+    ).toBe('2024-02-29T10:00:00.000Z');
+    expect(
+      addToDate(new Date('2024-02-29T00:00:00Z'), 1, 'years').toISOString(),
+    ).toBe('2025-02-28T00:00:00.000Z');
+    expect(
+      addToDate(new Date('2024-03-01T00:00:00Z'), -36, 'hours').toISOString(),
+    ).toBe('2024-02-28T12:00:00.000Z');
+  });
+
+  it('should count whole months and years between two dates', () => {
+    const from = new Date('2024-01-31T00:00:00Z');
+
+    expect(diffDates(from, new Date('2024-02-29T00:00:00Z'), 'months')).toBe(1);
+    expect(diffDates(from, new Date('2025-01-30T00:00:00Z'), 'years')).toBe(0);
+    expect(diffDates(from, new Date('2024-01-01T00:00:00Z'), 'days')).toBe(-30);
+  });
+});
+
+describe('date_time tool', () => {
+  const dateTime = createDateTimeTool({
+    timeZone: 'Europe/Paris',
+    now: () => new Date('2024-07-14T10:00:00Z'),
+  });
+
+  it('should give the current date in the configured time zone', async () => {
+    const now = JSON.parse(await dateTime.invoke({ operation: 'now' }));
+
+    expect(now.iso).toBe('2024-07-14T10:00:00.000Z');
+    expect(now.local).toContain('Sunday, July 14, 2024 at 12:00:00');
+  });
+
+  it('should add to the current date by default', async () => {
+    const due = JSON.parse(
+      await dateTime.invoke({ operation: 'add', amount: 30, unit: 'days' }),
+    );
+
+    expect(due.iso).toBe('2024-08-13T10:00:00.000Z');
+  });
+
+  it('should report invalid input to the model', async () => {
+    const result = JSON.parse(
+      await dateTime.invoke({
+        operation: 'diff',
+        date: 'yesterday',
+        unit: 'days',
+      }),
+    );
+
+    expect(result.error).toContain('Invalid date');
+  });
+});
@@ -0,0 +1,163 @@
+import { tool } from '@langchain/core/tools';
+import { z } from 'zod';
+
+export const DATE_TIME_TOOL = 'date_time';
+
+export const DATE_UNITS = [
+  'minutes',
+  'hours',
+  'days',
+  'weeks',
+  'months',
+  'years',
+] as const;
+export type DateUnit = (typeof DATE_UNITS)[number];
+
+const UNIT_MS: Record<Exclude<DateUnit, 'months' | 'years'>, number> = {
+  minutes: 60_000,
+  hours: 3_600_000,
+  days: 86_400_000,
+  weeks: 7 * 86_400_000,
+};
+
+const parseDate = (value: string): Date => {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date: "${value}" (expected ISO 8601)`);
+  }
+  return date;
+};
+
+/**
+ * Ajoute une durée à une date ; en mois et années, le jour est ramené au dernier
+ * jour du mois si besoin (31 janvier + 1 mois = 28 ou 29 février)
+ */
+export function addToDate(date: Date, amount: number, unit: DateUnit): Date {
+  if (unit !== 'months' && unit !== 'years') {
+    return new Date(date.getTime() + amount * UNIT_MS[unit]);
+  }
+  const months = unit === 'years' ? amount * 12 : amount;
+  if (!Number.isInteger(months)) {
+    throw new Error(`${unit} must be a whole number`);
+  }
+  const result = new Date(date);
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const lastDay = new Date(
+    Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0),
+  ).getUTCDate();
+  result.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  return result;
+}
+
+/**
+ * Écart entre deux dates, négatif si to précède from
+ * En mois et années : nombre de mois ou d'années entiers écoulés
+ */
+export function diffDates(from: Date, to: Date, unit: DateUnit): number {
+  if (unit !== 'months' && unit !== 'years') {
+    return (
+      Math.round(((to.getTime() - from.getTime()) / UNIT_MS[unit]) * 100) / 100
+    );
+  }
+  const sign = to >= from ? 1 : -1;
+  const [start, end] = sign > 0 ? [from, to] : [to, from];
+  let months =
+    (end.getUTCFullYear() - start.getUTCFullYear()) * 12 +
+    end.getUTCMonth() -
+    start.getUTCMonth();
+  if (addToDate(start, months, 'months') > end) months--;
+  return sign * (unit === 'years' ? Math.floor(months / 12) : months);
+}
+
+/**
+ * Date au format ISO et lisible dans un fuseau horaire
+ */
+function describeDate(date: Date, timeZone: string) {
+  return {
+    iso: date.toISOString(),
+    local: new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      dateStyle: 'full',
+      timeStyle: 'long',
+    }).format(date),
+    timeZone,
+  };
+}
+
+/**
+ * Tool de date et heure : date courante, ajout d'une durée, écart entre deux dates
+ * @param options fuseau horaire par défaut, horloge (remplaçable dans les tests)
+ */
+export function createDateTimeTool({
+  timeZone: defaultTimeZone = 'UTC',
+  now = () => new Date(),
+}: { timeZone?: string; now?: () => Date } = {}) {
+  return tool(
+    async (input: {
+      operation: 'now' | 'add' | 'diff';
+      date?: string;
+      to?: string;
+      amount?: number;
+      unit?: DateUnit;
+      timeZone?: string;
+    }) => {
+      const timeZone = input.timeZone ?? defaultTimeZone;
+      try {
+        const date = input.date ? parseDate(input.date) : now();
+        switch (input.operation) {
+          case 'now':
+            return JSON.stringify(describeDate(now(), timeZone));
+          case 'add':
+            if (input.amount === undefined || !input.unit) {
+              throw new Error('amount and unit are required for add');
+            }
+            return JSON.stringify(
+              describeDate(addToDate(date, input.amount, input.unit), timeZone),
+            );
+          case 'diff': {
+            if (!input.to || !input.unit) {
+              throw new Error('to and unit are required for diff');
+            }
+            return JSON.stringify({
+              from: date.toISOString(),
+              to: parseDate(input.to).toISOString(),
+              [input.unit]: diffDates(date, parseDate(input.to), input.unit),
+            });
+          }
+        }
+      } catch (error) {
+        return JSON.stringify({ error: error.message });
+      }
+    },
+    {
+      name: DATE_TIME_TOOL,
+      description:
+        'Get the current date and time, add a duration to a date, or count the time between two dates.' +
+        ' Use it for any question about today, deadlines, ages or durations.',
+      schema: z.object({
+        operation: z
+          .enum(['now', 'add', 'diff'])
+          .describe(
+            'now: current date and time, add: date + amount unit, diff: time from date to "to"',
+          ),
+        date: z
+          .string()
+          .optional()
+          .describe('ISO 8601 date, e.g. 2024-03-31 (now by default)'),
+        to: z.string().optional().describe('End date for diff, ISO 8601'),
+        amount: z
+          .number()
+          .optional()
+          .describe('Amount to add, negative to subtract'),
+        unit: z.enum(DATE_UNITS).optional(),
+        timeZone: z
+          .string()
+          .optional()
+          .describe(
+            `IANA time zone for the readable date, e.g. Europe/Paris (${defaultTimeZone} by default)`,
+          ),
+      }),
+    },
+  );
+}
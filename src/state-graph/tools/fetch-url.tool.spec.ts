@@ -0,0 +1,108 @@
+import { Server, createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { FetchUrlOptions, fetchPage } from './fetch-url.tool';
+
+describe('fetchPage', () => {
+  let server: Server;
+  let baseUrl: string;
+  const options: FetchUrlOptions = {
+    allowedDomains: ['127.0.0.1'],
+    maxBytes: 1_000_000,
+    maxChars: 10_000,
+    timeoutMs: 5_000,
+  };
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      switch (request.url) {
+        case '/page':
+          response.setHeader('Content-Type', 'text/html; charset=utf-8');
+          response.end(
+            '<html><head><title>Release notes</title></head><body>' +
+              '<nav>Menu</nav><main><h1>Version 2.4</h1><p>Adds SSO.</p></main></body></html>',
+          );
+          return;
+        case '/moved':
+          response.writeHead(302, { Location: '/page' }).end('Moved to /page');
+          return;
+        case '/outside':
+          response.writeHead(302, { Location: 'http://localhost/page' }).end();
+          return;
+        case '/large':
+          response.setHeader('Content-Type', 'text/plain');
+          response.end('x'.repeat(5_000));
+          return;
+        default:
+          response.setHeader('Content-Type', 'application/pdf');
+          response.end('%PDF');
+      }
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  it('should extract the readable text of an HTML page after redirects', async () => {
+    const page = await fetchPage(`${baseUrl}/moved`, options);
+
+    expect(page).toEqual({
+      url: `${baseUrl}/page`,
+      title: 'Release notes',
+      text: '# Version 2.4\nAdds SSO.',
+      truncated: false,
+    });
+  });
+
+  it('should release the body of a redirect before following it', async () => {
+    const cancel = jest.spyOn(ReadableStream.prototype, 'cancel');
+
+    await fetchPage(`${baseUrl}/moved`, options);
+
+    expect(cancel).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refuse domains outside the allow-list, redirects included', async () => {
+    await expect(fetchPage(`${baseUrl}/outside`, options)).rejects.toThrow(
+      'Domain not allowed: localhost',
+    );
+    await expect(
+      fetchPage(`${baseUrl}/page`, { ...options, allowedDomains: [] }),
+    ).rejects.toThrow('no domain is allowed');
+  });
+
+  it('should limit the size of the page', async () => {
+    const page = await fetchPage(`${baseUrl}/large`, {
+      ...options,
+      maxBytes: 1_000,
+      maxChars: 100,
+    });
+
+    expect(page.text).toHaveLength(100);
+    expect(page.truncated).toBe(true);
+  });
+
+  it('should not flag a page of exactly the maximum size as truncated', async () => {
+    const page = await fetchPage(`${baseUrl}/large`, {
+      ...options,
+      maxBytes: 5_000,
+    });
+
+    expect(page.text).toHaveLength(5_000);
+    expect(page.truncated).toBe(false);
+  });
+
+  it('should refuse content that is neither HTML nor text', async () => {
+    await expect(fetchPage(`${baseUrl}/file.pdf`, options)).rejects.toThrow(
+      'Unsupported content type: application/pdf',
+    );
+  });
+});
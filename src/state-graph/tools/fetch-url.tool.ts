@@ -0,0 +1,127 @@
+import { tool } from '@langchain/core/tools';
+import { z } from 'zod';
+import { CRAWLER_USER_AGENT } from 'src/knowledge/crawler/web-crawler';
+import { extractHtml } from 'src/knowledge/loaders/html.loader';
+import { readLimited } from 'src/common/read-limited';
+
+export const FETCH_URL_TOOL = 'fetch_url';
+
+// Redirections suivies au maximum, chacune vérifiée avec la liste des domaines autorisés
+const MAX_REDIRECTS = 3;
+
+export interface FetchUrlOptions {
+  // Domaines autorisés, sous-domaines compris ; aucun domaine : toute lecture est refusée
+  allowedDomains: string[];
+  // Taille maximum lue de la réponse, le reste est ignoré
+  maxBytes: number;
+  // Longueur maximum du texte rendu au modèle
+  maxChars: number;
+  timeoutMs: number;
+}
+
+export interface FetchedPage {
+  // URL finale, après redirections : c'est elle que le modèle cite
+  url: string;
+  title: string;
+  text: string;
+  // Page plus longue que maxBytes ou maxChars
+  truncated: boolean;
+}
+
+const isAllowedHost = (hostname: string, allowedDomains: string[]) =>
+  allowedDomains.some(
+    (domain) => hostname === domain || hostname.endsWith(`.${domain}`),
+  );
+
+/**
+ * Télécharge une page et en extrait le texte lisible, comme à l'ingestion
+ * Seuls les domaines autorisés sont lus, redirections comprises ; HTML et texte brut uniquement
+ * @throws Error (en anglais, transmise au modèle) si la page est refusée ou illisible
+ */
+export async function fetchPage(
+  url: string,
+  { allowedDomains, maxBytes, maxChars, timeoutMs }: FetchUrlOptions,
+): Promise<FetchedPage> {
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch {
+    throw new Error(`Invalid URL: ${url}`);
+  }
+
+  for (let redirects = 0; ; redirects++) {
+    if (!['http:', 'https:'].includes(target.protocol)) {
+      throw new Error(`Only http(s) URLs can be fetched: ${target}`);
+    }
+    if (!isAllowedHost(target.hostname, allowedDomains)) {
+      throw new Error(
+        allowedDomains.length === 0
+          ? 'Fetching pages is disabled: no domain is allowed'
+          : `Domain not allowed: ${target.hostname} (allowed: ${allowedDomains.join(', ')})`,
+      );
+    }
+
+    const response = await fetch(target, {
+      headers: { 'User-Agent': CRAWLER_USER_AGENT },
+      redirect: 'manual',
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    const location = response.headers.get('location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      // Corps de la redirection jamais lu : la connexion est libérée tout de suite
+      await response.body?.cancel();
+      if (redirects >= MAX_REDIRECTS) {
+        throw new Error(`Too many redirects (${MAX_REDIRECTS} maximum)`);
+      }
+      target = new URL(location, target);
+      continue;
+    }
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new Error(`HTTP ${response.status} for ${target}`);
+    }
+
+    const contentType = response.headers.get('content-type') ?? '';
+    const isHtml = /html/i.test(contentType);
+    if (!isHtml && !/^text\//i.test(contentType)) {
+      await response.body?.cancel();
+      throw new Error(`Unsupported content type: ${contentType || 'unknown'}`);
+    }
+    const { body, truncated } = await readLimited(response, maxBytes);
+    const { title, text } = isHtml
+      ? extractHtml(body)
+      : { title: '', text: body };
+    return {
+      url: target.toString(),
+      title,
+      text: text.slice(0, maxChars),
+      truncated: truncated || text.length > maxChars,
+    };
+  }
+}
+
+/**
+ * Tool de lecture d'une page précise (lien de la question ou d'un résultat de recherche)
+ * La page lue est citée comme un résultat web, avec son url
+ */
+export function createFetchUrlTool(options: FetchUrlOptions) {
+  return tool(
+    async ({ url }: { url: string }) => {
+      try {
+        return JSON.stringify(await fetchPage(url, options));
+      } catch (error) {
+        return JSON.stringify({ url, error: error.message });
+      }
+    },
+    {
+      name: FETCH_URL_TOOL,
+      description:
+        'Fetch a web page by its URL and return its readable text. Use it to read a specific link.' +
+        ` Only these domains can be fetched: ${options.allowedDomains.join(', ') || 'none'}.` +
+        ' Cite the page with a [web:<url>] marker using the returned url.',
+      schema: z.object({
+        url: z.string().describe('Absolute http(s) URL of the page'),
+      }),
+    },
+  );
+}
@@ -0,0 +1,64 @@
+import { StructuredTool } from '@langchain/core/tools';
+import { ConfigService } from '@nestjs/config';
+import { CALCULATOR_TOOL, createCalculatorTool } from './calculator.tool';
+import { DATE_TIME_TOOL, createDateTimeTool } from './date-time.tool';
+import { FETCH_URL_TOOL, createFetchUrlTool } from './fetch-url.tool';
+
+/**
+ * Tools que la configuration du graphe peut donner aux agents, par nom
+ * Chaque tool est créé à sa première utilisation, puis partagé entre les agents
+ */
+export class ToolRegistry {
+  private readonly factories = new Map<string, () => StructuredTool>();
+  private readonly tools = new Map<string, StructuredTool>();
+
+  register(name: string, factory: () => StructuredTool): this {
+    this.factories.set(name, factory);
+    return this;
+  }
+
+  get names(): string[] {
+    return [...this.factories.keys()];
+  }
+
+  get(name: string): StructuredTool {
+    if (!this.tools.has(name)) {
+      const factory = this.factories.get(name);
+      if (!factory) throw new Error(`Tool inconnu : ${name}`);
+      this.tools.set(name, factory());
+    }
+    return this.tools.get(name);
+  }
+}
+
+/**
+ * Crée le registre avec les tools intégrés, sans dépendance aux services :
+ * calculator, date_time et fetch_url (réglages FETCH_URL_*)
+ */
+export function createToolRegistry(configService: ConfigService): ToolRegistry {
+  return new ToolRegistry()
+    .register(CALCULATOR_TOOL, () => createCalculatorTool())
+    .register(DATE_TIME_TOOL, () =>
+      createDateTimeTool({
+        timeZone: configService.get<string>('DATE_TIME_ZONE', 'UTC'),
+      }),
+    )
+    .register(FETCH_URL_TOOL, () =>
+      createFetchUrlTool({
+        allowedDomains: configService
+          .get<string>('FETCH_URL_ALLOWED_DOMAINS', '')
+          .split(',')
+          .map((domain) => domain.trim().toLowerCase())
+          .filter(Boolean),
+        maxBytes: Number(
+          configService.get<string>('FETCH_URL_MAX_BYTES', '1000000'),
+        ),
+        maxChars: Number(
+          configService.get<string>('FETCH_URL_MAX_CHARS', '10000'),
+        ),
+        timeoutMs: Number(
+          configService.get<string>('FETCH_URL_TIMEOUT_MS', '10000'),
+        ),
+      }),
+    );
+}
@@ -0,0 +1,25 @@
+import { readJsonFile, writeJsonFile } from '../../common/json-file';
+import { RunTrace } from '../interfaces/run-trace.interface';
+import { MemoryRunTraceStore } from './memory-run-trace.store';
+
+/**
+ * Traces des runs sauvegardées dans un fichier JSON sur le disque local
+ * Rechargées au démarrage
+ */
+export class FileRunTraceStore extends MemoryRunTraceStore {
+  constructor(
+    private readonly filePath: string,
+    limit?: number,
+  ) {
+    super(limit);
+  }
+
+  async load(): Promise<void> {
+    const data = await readJsonFile<{ traces?: RunTrace[] }>(this.filePath);
+    this.traces = data?.traces ?? [];
+  }
+
+  async persist(): Promise<void> {
+    await writeJsonFile(this.filePath, { traces: this.traces });
+  }
+}
@@ -0,0 +1,38 @@
+import { RunTrace } from '../interfaces/run-trace.interface';
+
+/**
+ * Traces des runs en mémoire vive, des plus récentes aux plus anciennes
+ * Sert de base aux autres backends : seuls le chargement et la sauvegarde changent
+ */
+export class MemoryRunTraceStore {
+  protected traces: RunTrace[] = [];
+
+  // Nombre de traces conservées, les plus anciennes sont supprimées au-delà
+  constructor(private readonly limit = 100) {}
+
+  /**
+   * Charge les traces existantes (rien à charger en mémoire vive)
+   */
+  async load(): Promise<void> {}
+
+  /**
+   * Sauvegarde les traces (rien à sauvegarder en mémoire vive)
+   */
+  async persist(): Promise<void> {}
+
+  async save(trace: RunTrace): Promise<void> {
+    this.traces = [
+      trace,
+      ...this.traces.filter((other) => other.id !== trace.id),
+    ].slice(0, this.limit);
+    await this.persist();
+  }
+
+  list(): RunTrace[] {
+    return this.traces;
+  }
+
+  get(id: string): RunTrace | undefined {
+    return this.traces.find((trace) => trace.id === id);
+  }
+}
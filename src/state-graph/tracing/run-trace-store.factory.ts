@@ -0,0 +1,33 @@
+import { ConfigService } from '@nestjs/config';
+import { FileRunTraceStore } from './file-run-trace.store';
+import { MemoryRunTraceStore } from './memory-run-trace.store';
+
+// Backends disponibles pour la sauvegarde des traces de runs
+export type RunTraceBackend = 'memory' | 'file';
+
+/**
+ * Crée le store de traces choisi par la variable RUN_TRACE_BACKEND
+ * @param configService configuration de l'application
+ * @returns store de traces, à charger avec load() avant utilisation
+ */
+export function createRunTraceStore(
+  configService: ConfigService,
+): MemoryRunTraceStore {
+  const backend = configService.get<RunTraceBackend>(
+    'RUN_TRACE_BACKEND',
+    'file',
+  );
+  const limit = Number(configService.get<string>('RUN_TRACE_LIMIT', '100'));
+
+  switch (backend) {
+    case 'memory':
+      return new MemoryRunTraceStore(limit);
+    case 'file':
+      return new FileRunTraceStore(
+        configService.get<string>('RUN_TRACE_PATH', './data/runs.json'),
+        limit,
+      );
+    default:
+      throw new Error(`Backend de traces inconnu : ${backend}`);
+  }
+}
@@ -0,0 +1,239 @@
+import { BaseCallbackHandler } from '@langchain/core/callbacks/base';
+import { START } from '@langchain/langgraph';
+import { BaseMessage, isBaseMessage } from '@langchain/core/messages';
+import { ChatGeneration, LLMResult } from '@langchain/core/outputs';
+import { ChainValues } from '@langchain/core/utils/types';
+import { Serialized } from '@langchain/core/load/serializable';
+import {
+  ModelCall,
+  NodeVisit,
+  RunStatus,
+  RunTrace,
+  TraceMessage,
+  TraceToolCall,
+} from '../interfaces/run-trace.interface';
+
+// Déclencheur des tasks LangGraph, lancées depuis un node (étapes sauvegardées d'une branche)
+const TASK_TRIGGER = '__pregel_push';
+
+/**
+ * Indique si une exécution est une task lancée depuis un node, et non un node du graphe :
+ * ses événements portent le nom du node qui l'a lancée, ou son propre nom
+ */
+export const isTaskRun = (metadata?: Record<string, unknown>): boolean =>
+  (metadata?.langgraph_triggers as string[] | undefined)?.includes(
+    TASK_TRIGGER,
+  ) ?? false;
+
+/**
+ * Sérialise un message pour la trace
+ */
+export function toTraceMessage(message: BaseMessage): TraceMessage {
+  const { tool_calls, tool_call_id } = message as BaseMessage & {
+    tool_calls?: TraceMessage['tool_calls'];
+    tool_call_id?: string;
+  };
+  return {
+    type: message.getType(),
+    ...(message.name && { name: message.name }),
+    content: message.content,
+    ...(tool_calls?.length && {
+      tool_calls: tool_calls.map(({ id, name, args }) => ({ id, name, args })),
+    }),
+    ...(tool_call_id && { tool_call_id }),
+  };
+}
+
+const toTraceMessages = (messages: unknown): TraceMessage[] =>
+  Array.isArray(messages)
+    ? messages.filter(isBaseMessage).map(toTraceMessage)
+    : [];
+
+/**
+ * Callback LangChain qui enregistre la trace d'un run : nodes visités, messages,
+ * appels de modèles et de tools, durées et tokens consommés
+ * Passé dans la config du run, il suit aussi les branches parallèles
+ */
+export class RunTracer extends BaseCallbackHandler {
+  name = 'run_tracer';
+  readonly trace: RunTrace;
+  // Étapes en cours, par identifiant de run LangChain
+  private readonly pending = new Map<
+    string,
+    { step: NodeVisit | ModelCall | TraceToolCall; start: number }
+  >();
+  private readonly start = Date.now();
+
+  constructor(
+    run: Pick<
+      RunTrace,
+      'id' | 'threadId' | 'collection' | 'apiKeyId' | 'question' | 'resume'
+    >,
+  ) {
+    // Callbacks attendus : la trace est complète à la fin du run
+    super({ _awaitHandler: true });
+    this.trace = {
+      ...run,
+      status: 'running',
+      startedAt: new Date(this.start).toISOString(),
+      nodes: [],
+      modelCalls: [],
+      toolCalls: [],
+      tokenUsage: { input: 0, output: 0, total: 0 },
+    };
+  }
+
+  /**
+   * Clôt la trace avec l'issue du run
+   */
+  finish(status: RunStatus, error?: RunTrace['error']): RunTrace {
+    this.trace.status = status;
+    if (error) this.trace.error = error;
+    this.trace.durationMs = Date.now() - this.start;
+    return this.trace;
+  }
+
+  private open(
+    runId: string,
+    step: NodeVisit | ModelCall | TraceToolCall,
+    steps: (NodeVisit | ModelCall | TraceToolCall)[],
+  ) {
+    steps.push(step);
+    this.pending.set(runId, { step, start: Date.now() });
+  }
+
+  private close<T extends NodeVisit | ModelCall | TraceToolCall>(
+    runId: string,
+  ): T | undefined {
+    const pending = this.pending.get(runId);
+    if (!pending) return undefined;
+    this.pending.delete(runId);
+    pending.step.durationMs = Date.now() - pending.start;
+    return pending.step as T;
+  }
+
+  private fail(error: Error, runId: string) {
+    const step = this.close(runId);
+    if (step) step.error = error.message;
+  }
+
+  handleChainStart(
+    _chain: Serialized,
+    inputs: ChainValues,
+    runId: string,
+    _parentRunId?: string,
+    _tags?: string[],
+    metadata?: Record<string, unknown>,
+    _runType?: string,
+    runName?: string,
+  ) {
+    // Seuls les nodes du graphe, pas leurs runnables internes, leurs tasks ni l'entrée du graphe
+    const node = metadata?.langgraph_node;
+    if (!node || runName !== node || node === START || isTaskRun(metadata)) {
+      return;
+    }
+    this.open(
+      runId,
+      {
+        node: runName,
+        step: metadata.langgraph_step as number,
+        startedAt: new Date().toISOString(),
+        messagesIn: toTraceMessages(inputs?.messages),
+        messagesOut: [],
+      },
+      this.trace.nodes,
+    );
+  }
+
+  handleChainEnd(outputs: ChainValues, runId: string) {
+    const visit = this.close<NodeVisit>(runId);
+    if (visit) visit.messagesOut = toTraceMessages(outputs?.messages);
+  }
+
+  handleChainError(error: Error, runId: string) {
+    this.fail(error, runId);
+  }
+
+  handleChatModelStart(
+    _llm: Serialized,
+    messages: BaseMessage[][],
+    runId: string,
+    _parentRunId?: string,
+    _extraParams?: Record<string, unknown>,
+    _tags?: string[],
+    metadata?: Record<string, unknown>,
+  ) {
+    this.open(
+      runId,
+      {
+        node: String(metadata?.langgraph_node ?? ''),
+        startedAt: new Date().toISOString(),
+        messages: toTraceMessages(messages[0]),
+        tokenUsage: { input: 0, output: 0, total: 0 },
+      },
+      this.trace.modelCalls,
+    );
+  }
+
+  handleLLMEnd(output: LLMResult, runId: string) {
+    const call = this.close<ModelCall>(runId);
+    if (!call) return;
+    const message = (output.generations[0]?.[0] as ChatGeneration)?.message;
+    if (message) call.output = toTraceMessage(message);
+
+    // Usage renvoyé par le modèle, absent pour les modèles hors ligne
+    const usage = (message as { usage_metadata?: Record<string, number> })
+      ?.usage_metadata;
+    const legacy = output.llmOutput?.tokenUsage;
+    call.tokenUsage = {
+      input: usage?.input_tokens ?? legacy?.promptTokens ?? 0,
+      output: usage?.output_tokens ?? legacy?.completionTokens ?? 0,
+      total: usage?.total_tokens ?? legacy?.totalTokens ?? 0,
+    };
+    this.trace.tokenUsage.input += call.tokenUsage.input;
+    this.trace.tokenUsage.output += call.tokenUsage.output;
+    this.trace.tokenUsage.total += call.tokenUsage.total;
+  }
+
+  handleLLMError(error: Error, runId: string) {
+    this.fail(error, runId);
+  }
+
+  handleToolStart(
+    _tool: Serialized,
+    input: string,
+    runId: string,
+    _parentRunId?: string,
+    _tags?: string[],
+    metadata?: Record<string, unknown>,
+    runName?: string,
+  ) {
+    let parsed: unknown = input;
+    try {
+      parsed = JSON.parse(input);
+    } catch {
+      // Entrée textuelle, gardée telle quelle
+    }
+    this.open(
+      runId,
+      {
+        node: String(metadata?.langgraph_node ?? ''),
+        tool: runName,
+        startedAt: new Date().toISOString(),
+        input: parsed,
+      },
+      this.trace.toolCalls,
+    );
+  }
+
+  handleToolEnd(output: unknown, runId: string) {
+    const call = this.close<TraceToolCall>(runId);
+    if (call) {
+      call.output = isBaseMessage(output) ? output.content : output;
+    }
+  }
+
+  handleToolError(error: Error, runId: string) {
+    this.fail(error, runId);
+  }
+}